@@ -0,0 +1,279 @@
+import { NextRequest } from 'next/server';
+import { cookies } from 'next/headers';
+import { AI_AGENT_CONFIG, AI_CONTEXT_CONFIG } from '@/lib/config';
+import { resolveProvider, resolveModel, completeWithFailover, failoverNotice, AIProviderAdapter } from '@/lib/providers';
+import { planContextBudget, formatRepoInstructions, parseRepoInstructions } from '@/lib/context';
+import { recordUsage } from '@/lib/usage';
+import { checkRateLimit, rateLimitResponse } from '@/lib/ratelimit';
+import { resolveCommand, fillTemplate, CommandDefinition } from '@/lib/commands';
+import { buildAgentInstructions, runAgent, runAgentTool, AgentWorkspace } from '@/lib/agent';
+import { typeCheckChanges } from '@/lib/typecheck';
+
+/**
+ * Helper: Get session from cookie
+ */
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('session');
+
+  if (!sessionCookie) return null;
+
+  try {
+    const session = JSON.parse(sessionCookie.value);
+    if (Date.now() > session.expiresAt) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Helper: Validate a git ref name from the request
+ */
+function isValidRef(ref: unknown): ref is string {
+  return typeof ref === 'string' && ref.length > 0 && ref.length <= 255 && !/\s|\.\./.test(ref);
+}
+
+function jsonError(error: string, status: number): Response {
+  return new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function buildAgentSystemPrompt(command: CommandDefinition, repository: string, ref: string, instructions: string): string {
+  const role = command.systemPrompt || `You are an expert software engineer running the "${command.label}" command.`;
+  return `${role}
+You are working as an agent in the GitHub repository ${repository} on branch ${ref}. Explore the code with the tools below before changing it, make every edit the task needs across files (for example a changed type and all of its usages), and finish when the change is complete.${instructions}
+${buildAgentInstructions()}`;
+}
+
+/**
+ * POST /api/copilot/agent
+ * Run a command in agent mode: the model explores the repository with tools
+ * and edits a working copy over several steps. Each step is streamed as a
+ * server-sent event; the final event carries the summary and change set.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+
+  if (!session) {
+    return jsonError('Not authenticated', 401);
+  }
+
+  // Rate limiting, charged up front for every model call the run may make
+  const rateLimit = checkRateLimit(session.user.id, AI_AGENT_CONFIG.maxSteps);
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit);
+  }
+
+  try {
+    const body = await request.json();
+    const { command, input, context, provider, model } = body;
+
+    // Validate command — built-in or one of the user's own
+    const commandConfig = resolveCommand(session.user.id, command);
+    if (!commandConfig) {
+      return jsonError('Invalid command', 400);
+    }
+
+    if (!input || typeof input !== 'string') {
+      return jsonError('Input is required', 400);
+    }
+
+    const [owner, repo] = typeof context?.repository === 'string' ? context.repository.split('/') : [];
+    const ref = context?.ref || 'main';
+    if (!owner || !repo || !isValidRef(ref)) {
+      return jsonError('Agent mode needs a repository and branch', 400);
+    }
+
+    const aiProvider = resolveProvider(provider);
+    if (!aiProvider) {
+      return jsonError('No AI provider configured. Add GITHUB_TOKEN, GEMINI_API_KEY or OPENAI_COMPATIBLE_BASE_URL to your .env file.', 500);
+    }
+
+    const selectedModel = resolveModel(aiProvider, model);
+    if (!selectedModel) {
+      return jsonError(`Model "${model}" is not available for ${aiProvider.name}`, 400);
+    }
+
+    const warnings: string[] = [];
+    if (input.length > AI_CONTEXT_CONFIG.maxInputChars) {
+      warnings.push(`Input trimmed to ${AI_CONTEXT_CONFIG.maxInputChars} characters (was ${input.length}).`);
+    }
+    const instructions = parseRepoInstructions(context?.instructions);
+    const instructionsText = instructions ? formatRepoInstructions(instructions) : null;
+    if (instructionsText?.warning) warnings.push(instructionsText.warning);
+
+    const prompt = fillTemplate(commandConfig.template, input.slice(0, AI_CONTEXT_CONFIG.maxInputChars), context?.error || '');
+    const systemPrompt = buildAgentSystemPrompt(commandConfig, `${owner}/${repo}`, ref, instructionsText?.text ?? '');
+
+    return streamAgent(request.signal, {
+      userId: session.user.id,
+      accessToken: session.accessToken,
+      owner,
+      repo,
+      ref,
+      command: commandConfig,
+      prompt,
+      systemPrompt,
+      file: typeof context?.file === 'string' && typeof context?.fileContent === 'string'
+        ? { path: context.file, content: context.fileContent }
+        : null,
+      aiProvider,
+      model: selectedModel,
+      warnings,
+    });
+  } catch (error) {
+    console.error('Agent error:', error);
+    return jsonError(error instanceof Error ? error.message : 'Agent run failed', 500);
+  }
+}
+
+/**
+ * Run the agent loop and stream its steps as server-sent events. The run is
+ * aborted when the client disconnects or cancels the response stream.
+ */
+function streamAgent(
+  requestSignal: AbortSignal,
+  options: {
+    userId: string;
+    accessToken: string;
+    owner: string;
+    repo: string;
+    ref: string;
+    command: CommandDefinition;
+    prompt: string;
+    systemPrompt: string;
+    file: { path: string; content: string } | null;
+    aiProvider: AIProviderAdapter;
+    model: string;
+    warnings: string[];
+  }
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  requestSignal.addEventListener('abort', () => abortController.abort(), { once: true });
+  const signal = abortController.signal;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        if (!signal.aborted) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+      };
+
+      const { command, aiProvider } = options;
+      let servedBy = { provider: aiProvider.id as string, model: options.model };
+      send({ type: 'start', command: command.id, provider: servedBy.provider, model: servedBy.model });
+      for (const warning of options.warnings) {
+        send({ type: 'warning', content: warning });
+      }
+
+      try {
+        const workspace: AgentWorkspace = {
+          accessToken: options.accessToken,
+          owner: options.owner,
+          repo: options.repo,
+          ref: options.ref,
+          signal,
+          files: new Map(),
+        };
+
+        // The open file is where the agent starts, shown as if it had read it
+        let task = `Task: ${options.prompt}`;
+        if (options.file) {
+          workspace.files.set(options.file.path, { original: options.file.content, current: options.file.content });
+          const opened = await runAgentTool(workspace, { tool: 'read_file', args: { path: options.file.path } });
+          if (!opened.failed) task += `\n\nThe user has this file open:\n${opened.output}`;
+        }
+
+        const budget = planContextBudget({ provider: aiProvider.id, model: options.model, systemPrompt: '', prompt: '' });
+        const result = await runAgent({
+          workspace,
+          systemPrompt: options.systemPrompt,
+          task,
+          label: command.label,
+          model: options.model,
+          maxInputTokens: budget.inputTokens,
+          complete: async messages => {
+            const callStart = Date.now();
+            const served = await completeWithFailover(aiProvider, {
+              model: options.model,
+              messages,
+              temperature: command.temperature,
+              signal,
+            });
+            for (const attempt of served.failedAttempts) {
+              send({ type: 'warning', content: `${attempt.provider} (${attempt.model}) unavailable: ${attempt.error}` });
+            }
+            const usage = recordUsage(options.userId, {
+              command: `${command.label} (agent)`,
+              provider: served.provider.id,
+              model: served.model,
+              latencyMs: Date.now() - callStart,
+              usage: served.result.usage,
+              promptText: messages.map(m => m.content).join('\n'),
+              outputText: served.result.text,
+            });
+            // Say so once each time the run moves to a different provider
+            const notice = failoverNotice(aiProvider, served);
+            if (notice && served.provider.id !== servedBy.provider) send({ type: 'warning', content: notice });
+            servedBy = { provider: served.provider.id, model: served.model };
+            return { text: served.result.text, tokens: usage.totalTokens };
+          },
+          onStep: step => send({ type: 'step', step }),
+        });
+
+        if (result.stopped) send({ type: 'warning', content: `${result.stopped} Keeping the edits made so far.` });
+
+        const typeCheck = await typeCheckChanges({
+          accessToken: options.accessToken,
+          repository: `${options.owner}/${options.repo}`,
+          ref: options.ref,
+          changes: result.changes,
+          signal,
+        });
+        if (typeCheck.warning) send({ type: 'warning', content: typeCheck.warning });
+
+        send({
+          type: 'end',
+          success: true,
+          output: result.summary,
+          changes: typeCheck.changes,
+          steps: result.steps,
+          tokens: result.tokens,
+          provider: servedBy.provider,
+          model: servedBy.model,
+        });
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error('Agent run error:', error);
+          send({ type: 'end', success: false, error: error instanceof Error ? error.message : 'Agent run failed' });
+        }
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // Stream was already cancelled by the client
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return sseResponse(stream);
+}
+
+function sseResponse(stream: ReadableStream): Response {
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
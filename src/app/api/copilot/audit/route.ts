@@ -0,0 +1,252 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { AI_AUDIT_CONFIG, AI_CONTEXT_CONFIG } from '@/lib/config';
+import { resolveProvider, resolveModel, completeWithFailover, failoverNotice, FailoverAttempt } from '@/lib/providers';
+import { planContextBudget, formatRepoInstructions, parseRepoInstructions } from '@/lib/context';
+import { recordUsage, UsageRecord } from '@/lib/usage';
+import { checkRateLimit, rateLimitResponse } from '@/lib/ratelimit';
+import { buildCacheKey, getCachedResponse, setCachedResponse } from '@/lib/cache';
+import { resolveRouteCommand, fillTemplate } from '@/lib/commands';
+import { ProposedChange } from '@/lib/changes';
+import { buildAuditInstructions, collectRepoAuditSources, fitAuditSources, parseAuditFindings, AuditSources } from '@/lib/audit';
+import { SecurityAudit } from '@/types';
+
+// Cached part of an audit response; failover and usage are per call
+interface CachedAudit {
+  audit: SecurityAudit;
+  changes: ProposedChange[];
+  provider: string;
+  model: string;
+  warnings: string[];
+}
+
+/**
+ * Helper: Get session from cookie
+ */
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('session');
+
+  if (!sessionCookie) return null;
+
+  try {
+    const session = JSON.parse(sessionCookie.value);
+    if (Date.now() > session.expiresAt) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Helper: Validate a git ref name from the request
+ */
+function isValidRef(ref: unknown): ref is string {
+  return typeof ref === 'string' && ref.length > 0 && ref.length <= 255 && !/\s|\.\./.test(ref);
+}
+
+function buildAuditSystemPrompt(repository: string, scope: SecurityAudit['scope'], instructions: string): string {
+  const about = scope === 'repository'
+    ? `You are auditing source files from ${repository}, most security-relevant first.`
+    : `You are auditing a single file from ${repository}.`;
+
+  return `You are an application security engineer doing a first-pass security audit. ${about}
+Find vulnerabilities an attacker could actually exploit, explain them briefly and propose minimal fixes.${instructions}
+${buildAuditInstructions()}`;
+}
+
+/**
+ * POST /api/copilot/audit
+ * Audit the selected file, or the repository's source files, for security
+ * issues and return CWE-tagged findings with one proposed change per fix
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  // Rate limiting
+  const rateLimit = checkRateLimit(session.user.id);
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit);
+  }
+
+  try {
+    const body = await request.json();
+    const { repository, ref, scope, file, fileContent, input, provider, model, bypassCache } = body;
+
+    const [owner, repo] = typeof repository === 'string' ? repository.split('/') : [];
+    if (!owner || !repo || !isValidRef(ref)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Repository and ref are required',
+      }, { status: 400 });
+    }
+
+    const auditScope: SecurityAudit['scope'] = scope === 'repository' ? 'repository' : 'file';
+    const selected = typeof file === 'string' && file && typeof fileContent === 'string'
+      ? { path: file, content: fileContent }
+      : null;
+    if (auditScope === 'file' && !selected) {
+      return NextResponse.json({
+        success: false,
+        error: 'Select a file to audit, or audit the whole repository',
+      }, { status: 400 });
+    }
+
+    const commandConfig = resolveRouteCommand('audit');
+
+    // Resolve the provider and validate the requested model against its list
+    const aiProvider = resolveProvider(provider);
+    if (!aiProvider) {
+      return NextResponse.json({
+        success: false,
+        error: 'No AI provider configured. Add GEMINI_API_KEY, GITHUB_TOKEN or OPENAI_COMPATIBLE_BASE_URL to your .env file.',
+      }, { status: 500 });
+    }
+
+    const selectedModel = resolveModel(aiProvider, model);
+    if (!selectedModel) {
+      return NextResponse.json({
+        success: false,
+        error: `Model "${model}" is not available for ${aiProvider.name}`,
+      }, { status: 400 });
+    }
+
+    const warnings: string[] = [];
+    const focus = typeof input === 'string' ? input.slice(0, AI_CONTEXT_CONFIG.maxInputChars) : '';
+    const instructions = parseRepoInstructions(body.instructions);
+    const instructionsText = instructions ? formatRepoInstructions(instructions) : null;
+    if (instructionsText?.warning) warnings.push(instructionsText.warning);
+
+    // Fit as many files as the model can take next to the prompts
+    const systemPrompt = buildAuditSystemPrompt(repository, auditScope, instructionsText?.text ?? '');
+    const budget = planContextBudget({ provider: aiProvider.id, model: selectedModel, systemPrompt, prompt: commandConfig.template + focus });
+    const maxTokens = Math.min(AI_AUDIT_CONFIG.maxSourceTokens, budget.fileTokens);
+    const sources: AuditSources = auditScope === 'repository'
+      ? await collectRepoAuditSources({
+          accessToken: session.accessToken,
+          repository,
+          ref,
+          selected,
+          maxTokens,
+          model: selectedModel,
+          signal: request.signal,
+        })
+      : fitAuditSources([selected!], { maxTokens, model: selectedModel });
+
+    if (sources.files.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: auditScope === 'repository'
+          ? 'No auditable source files fit the model'
+          : `${file} is too large to audit with ${selectedModel}`,
+      }, { status: 400 });
+    }
+
+    const prompt = `${fillTemplate(commandConfig.template, focus, '')}\n\n${sources.text}`;
+
+    const cacheKey = buildCacheKey({
+      userId: session.user.id,
+      route: 'audit',
+      command: commandConfig.revision,
+      provider: aiProvider.id,
+      model: selectedModel,
+      prompt: systemPrompt + prompt,
+      fileName: auditScope,
+    });
+    const cached = bypassCache ? null : getCachedResponse<CachedAudit>(cacheKey);
+
+    let result: CachedAudit & { failedAttempts: FailoverAttempt[]; usage: UsageRecord | null };
+    if (cached) {
+      result = { ...cached, warnings: [...warnings, ...cached.warnings], failedAttempts: [], usage: null };
+    } else {
+      const callStart = Date.now();
+      const served = await completeWithFailover(aiProvider, {
+        model: selectedModel,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: prompt },
+        ],
+        temperature: commandConfig.temperature,
+        signal: request.signal,
+      });
+      const usage = recordUsage(session.user.id, {
+        command: commandConfig.label,
+        provider: served.provider.id,
+        model: served.model,
+        latencyMs: Date.now() - callStart,
+        usage: served.result.usage,
+        promptText: `${systemPrompt}\n${prompt}`,
+        outputText: served.result.text,
+      });
+
+      const parsed = parseAuditFindings(served.result.text, sources.files);
+      const auditWarnings = parsed.errors.map(error => `Ignored: ${error}`);
+      const notice = failoverNotice(aiProvider, served);
+      if (notice) auditWarnings.push(notice);
+      if (sources.skippedFiles.length > 0) {
+        auditWarnings.push(`Not audited (over the file cap or the budget for ${served.model}): ${sources.skippedFiles.length} file${sources.skippedFiles.length === 1 ? '' : 's'}`);
+      }
+
+      result = {
+        audit: {
+          repository: `${owner}/${repo}`,
+          ref,
+          scope: auditScope,
+          summary: parsed.summary,
+          findings: parsed.findings,
+          files: sources.files.map(source => source.path),
+          skippedFiles: sources.skippedFiles,
+        },
+        changes: parsed.changes,
+        provider: served.provider.id,
+        model: served.model,
+        warnings: auditWarnings,
+        failedAttempts: served.failedAttempts,
+        usage,
+      };
+      setCachedResponse<CachedAudit>(cacheKey, {
+        audit: result.audit,
+        changes: result.changes,
+        provider: result.provider,
+        model: result.model,
+        warnings: result.warnings,
+      });
+      result.warnings = [...warnings, ...result.warnings];
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result.audit,
+        changes: result.changes,
+        provider: result.provider,
+        model: result.model,
+        failover: result.failedAttempts,
+        warnings: result.warnings,
+        usage: result.usage,
+        cached: !!cached,
+      },
+    });
+  } catch (error) {
+    // Client cancelled — nothing is listening, but end the request cleanly
+    if (request.signal.aborted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Cancelled',
+      }, { status: 499 });
+    }
+
+    console.error('Security audit error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Audit failed',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { updateCustomCommand, deleteCustomCommand, validateCustomCommand } from '@/lib/commands';
+
+/**
+ * Helper: Get session from cookie
+ */
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('session');
+
+  if (!sessionCookie) return null;
+
+  try {
+    const session = JSON.parse(sessionCookie.value);
+    if (Date.now() > session.expiresAt) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * PUT /api/copilot/commands/[id]
+ * Replaces a custom command's definition
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { input, error } = validateCustomCommand(await request.json());
+    if (!input) {
+      return NextResponse.json({
+        success: false,
+        error,
+      }, { status: 400 });
+    }
+
+    const command = updateCustomCommand(session.user.id, id, input);
+    if (!command) {
+      return NextResponse.json({
+        success: false,
+        error: 'Command not found',
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: command,
+    });
+  } catch (error) {
+    console.error('Custom command update error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update command',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/copilot/commands/[id]
+ * Deletes a custom command
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  if (!deleteCustomCommand(session.user.id, id)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Command not found',
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: { id },
+  });
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { CUSTOM_COMMAND_CONFIG } from '@/lib/config';
+import { listCustomCommands, createCustomCommand, validateCustomCommand } from '@/lib/commands';
+
+/**
+ * Helper: Get session from cookie
+ */
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('session');
+
+  if (!sessionCookie) return null;
+
+  try {
+    const session = JSON.parse(sessionCookie.value);
+    if (Date.now() > session.expiresAt) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/copilot/commands
+ * Lists the current user's custom commands
+ */
+export async function GET() {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: listCustomCommands(session.user.id),
+  });
+}
+
+/**
+ * POST /api/copilot/commands
+ * Saves a new custom command
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  try {
+    const { input, error } = validateCustomCommand(await request.json());
+    if (!input) {
+      return NextResponse.json({
+        success: false,
+        error,
+      }, { status: 400 });
+    }
+
+    const command = createCustomCommand(session.user.id, input);
+    if (!command) {
+      return NextResponse.json({
+        success: false,
+        error: `You can save up to ${CUSTOM_COMMAND_CONFIG.maxPerUser} custom commands`,
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: command,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Custom command create error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to save command',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { AI_COMMIT_MESSAGE_CONFIG } from '@/lib/config';
+import { resolveProvider, resolveModel, completeWithFailover, failoverNotice, FailoverAttempt } from '@/lib/providers';
+import { planContextBudget } from '@/lib/context';
+import { recordUsage, UsageRecord } from '@/lib/usage';
+import { checkRateLimit, rateLimitResponse } from '@/lib/ratelimit';
+import { buildCacheKey, getCachedResponse, setCachedResponse } from '@/lib/cache';
+import { resolveRouteCommand, fillTemplate } from '@/lib/commands';
+import { buildCommitMessageInstructions, CommitChange, formatCommitDiff, parseCommitMessage } from '@/lib/commits';
+import { DiffOperation } from '@/types';
+
+const OPERATIONS: DiffOperation[] = ['modify', 'create', 'delete', 'rename'];
+
+// Cached part of a commit message response; failover and usage are per call
+interface CachedCommitMessage {
+  message: string;
+  provider: string;
+  model: string;
+  warnings: string[];
+}
+
+/**
+ * Helper: Get session from cookie
+ */
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('session');
+
+  if (!sessionCookie) return null;
+
+  try {
+    const session = JSON.parse(sessionCookie.value);
+    if (Date.now() > session.expiresAt) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Helper: Validate the pending changes from the request
+ */
+function parseChanges(raw: unknown): CommitChange[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+
+  const changes: CommitChange[] = [];
+  for (const entry of raw) {
+    const change = entry as Record<string, unknown>;
+    if (!change || typeof change.path !== 'string' || !change.path.trim()) return null;
+    const operation = OPERATIONS.includes(change.operation as DiffOperation) ? change.operation as DiffOperation : 'modify';
+    changes.push({
+      path: change.path.trim(),
+      operation,
+      newPath: typeof change.newPath === 'string' && change.newPath.trim() ? change.newPath.trim() : undefined,
+      before: typeof change.before === 'string' ? change.before : '',
+      after: typeof change.after === 'string' ? change.after : '',
+    });
+  }
+  return changes;
+}
+
+function buildCommitSystemPrompt(repository: string | undefined, request: string, conventional: boolean): string {
+  const about = repository ? ` in ${repository}` : '';
+  const origin = request
+    ? `\nThe changes were made for this request:\n${request.slice(0, AI_COMMIT_MESSAGE_CONFIG.maxPromptChars)}`
+    : '';
+
+  return `You write clear, concise git commit messages for changes${about}.${origin}
+${buildCommitMessageInstructions(conventional)}`;
+}
+
+/**
+ * POST /api/copilot/commit-message
+ * Write a commit message for pending changes, from their before/after and
+ * the prompt of the command that produced them
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  // Rate limiting
+  const rateLimit = checkRateLimit(session.user.id);
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit);
+  }
+
+  try {
+    const body = await request.json();
+    const { repository, prompt, conventional, provider, model, bypassCache } = body;
+
+    const changes = parseChanges(body.changes);
+    if (!changes) {
+      return NextResponse.json({
+        success: false,
+        error: 'At least one change with a path is required',
+      }, { status: 400 });
+    }
+
+    const commandConfig = resolveRouteCommand('commit');
+
+    // Resolve the provider and validate the requested model against its list
+    const aiProvider = resolveProvider(provider);
+    if (!aiProvider) {
+      return NextResponse.json({
+        success: false,
+        error: 'No AI provider configured. Add GEMINI_API_KEY, GITHUB_TOKEN or OPENAI_COMPATIBLE_BASE_URL to your .env file.',
+      }, { status: 500 });
+    }
+
+    const selectedModel = resolveModel(aiProvider, model);
+    if (!selectedModel) {
+      return NextResponse.json({
+        success: false,
+        error: `Model "${model}" is not available for ${aiProvider.name}`,
+      }, { status: 400 });
+    }
+
+    const systemPrompt = buildCommitSystemPrompt(
+      typeof repository === 'string' ? repository : undefined,
+      typeof prompt === 'string' ? prompt.trim() : '',
+      conventional === true
+    );
+    const budget = planContextBudget({ provider: aiProvider.id, model: selectedModel, systemPrompt, prompt: commandConfig.template });
+    const diff = formatCommitDiff(changes, {
+      maxTokens: Math.min(AI_COMMIT_MESSAGE_CONFIG.maxDiffTokens, budget.fileTokens),
+      model: selectedModel,
+    });
+    const userPrompt = fillTemplate(commandConfig.template, diff.text, '');
+
+    const cacheKey = buildCacheKey({
+      userId: session.user.id,
+      route: 'commit-message',
+      command: commandConfig.revision,
+      provider: aiProvider.id,
+      model: selectedModel,
+      prompt: systemPrompt + userPrompt,
+    });
+    const cached = bypassCache ? null : getCachedResponse<CachedCommitMessage>(cacheKey);
+
+    let result: CachedCommitMessage & { failedAttempts: FailoverAttempt[]; usage: UsageRecord | null };
+    if (cached) {
+      result = { ...cached, failedAttempts: [], usage: null };
+    } else {
+      const callStart = Date.now();
+      const served = await completeWithFailover(aiProvider, {
+        model: selectedModel,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        temperature: commandConfig.temperature,
+        signal: request.signal,
+      });
+      const usage = recordUsage(session.user.id, {
+        command: commandConfig.label,
+        provider: served.provider.id,
+        model: served.model,
+        latencyMs: Date.now() - callStart,
+        usage: served.result.usage,
+        promptText: `${systemPrompt}\n${userPrompt}`,
+        outputText: served.result.text,
+      });
+
+      const message = parseCommitMessage(served.result.text);
+      if (!message) {
+        return NextResponse.json({
+          success: false,
+          error: 'The model returned an empty commit message',
+        }, { status: 502 });
+      }
+
+      const warnings = diff.summarizedFiles.length > 0
+        ? [`Described by path only (over the budget for ${served.model}): ${diff.summarizedFiles.join(', ')}`]
+        : [];
+      const notice = failoverNotice(aiProvider, served);
+      if (notice) warnings.push(notice);
+
+      result = {
+        message,
+        provider: served.provider.id,
+        model: served.model,
+        warnings,
+        failedAttempts: served.failedAttempts,
+        usage,
+      };
+      setCachedResponse<CachedCommitMessage>(cacheKey, {
+        message: result.message,
+        provider: result.provider,
+        model: result.model,
+        warnings: result.warnings,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        message: result.message,
+        provider: result.provider,
+        model: result.model,
+        failover: result.failedAttempts,
+        warnings: result.warnings,
+        usage: result.usage,
+        cached: !!cached,
+      },
+    });
+  } catch (error) {
+    // Client cancelled — nothing is listening, but end the request cleanly
+    if (request.signal.aborted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Cancelled',
+      }, { status: 499 });
+    }
+
+    console.error('Commit message error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Commit message generation failed',
+    }, { status: 500 });
+  }
+}
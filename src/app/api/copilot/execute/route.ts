@@ -1,12 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { GoogleGenAI } from '@google/genai';
-import ModelClient, { isUnexpected } from '@azure-rest/ai-inference';
-import { AzureKeyCredential } from '@azure/core-auth';
-import { SESSION_CONFIG, COPILOT_COMMANDS, getAIConfig, AIProvider, AI_PROVIDERS, AI_RETRY_CONFIG } from '@/lib/config';
-
-// In-memory session tracking for rate limiting (use Redis in production)
-const sessionCommands = new Map<string, { count: number; resetAt: number }>();
+import { AI_CONTEXT_CONFIG, AI_STACKTRACE_CONFIG, EditMode } from '@/lib/config';
+import { resolveProvider, resolveModel, completeWithFailover, failoverNotice, AIProviderAdapter, ChatMessage, FailoverAttempt } from '@/lib/providers';
+import { fitFileContext, formatRepoInstructions, parseRepoInstructions } from '@/lib/context';
+import { measureUsage, recordUsageTotal, UsageRecord } from '@/lib/usage';
+import { checkRateLimit, rateLimitResponse } from '@/lib/ratelimit';
+import { buildCacheKey, getCachedResponse, setCachedResponse } from '@/lib/cache';
+import { appendTurn, createThread, getThread, Thread } from '@/lib/threads';
+import { resolveCommand, fillTemplate, CommandDefinition } from '@/lib/commands';
+import { retrieveRelatedCode, citation, RelatedCode } from '@/lib/retrieval';
+import { collectImportContext, ImportContext } from '@/lib/imports';
+import { parseSelection, extractRegion, formatRegion, spliceRegion, describeSelection, FileRegion } from '@/lib/selection';
+import { planTranslation, buildTranslationInstructions, TranslationPlan } from '@/lib/translate';
+import { buildTraceContext, TraceContext } from '@/lib/stacktrace';
+import { typeCheckChanges, TypeCheckResult } from '@/lib/typecheck';
+import { buildRepairPrompt, collectRepairProblems, countRepairProblems, describeRepairProblems } from '@/lib/repair';
+import { CodeSelection, RepairRound } from '@/types';
+import { buildChangeSetInstructions, ProposedChange, countDiffLines, languageFromPath, parseChangeSet, resolvePatches, toProposedChanges } from '@/lib/changes';
+
+// Cached part of an execute response; failover, usage and timing are per call
+interface CachedExecution {
+  output: string;
+  changes: ProposedChange[] | null;
+  provider: string;
+  model: string;
+  warnings: string[];
+  repairs: RepairRound[];
+}
 
 /**
  * Helper: Get session from cookie
@@ -26,41 +46,13 @@ async function getSession() {
   }
 }
 
-/**
- * Helper: Check rate limit
- */
-function checkRateLimit(userId: string): { allowed: boolean; remaining: number; resetIn: number } {
-  const now = Date.now();
-  const userSession = sessionCommands.get(userId);
-  
-  if (!userSession || now > userSession.resetAt) {
-    sessionCommands.set(userId, {
-      count: 1,
-      resetAt: now + 60 * 1000, // Reset every minute
-    });
-    return { allowed: true, remaining: SESSION_CONFIG.rateLimitPerMinute - 1, resetIn: 60 };
-  }
-  
-  if (userSession.count >= SESSION_CONFIG.rateLimitPerMinute) {
-    const resetIn = Math.ceil((userSession.resetAt - now) / 1000);
-    return { allowed: false, remaining: 0, resetIn };
-  }
-  
-  userSession.count++;
-  return { 
-    allowed: true, 
-    remaining: SESSION_CONFIG.rateLimitPerMinute - userSession.count,
-    resetIn: Math.ceil((userSession.resetAt - now) / 1000)
-  };
-}
-
 /**
  * Helper: Sanitize user input to prevent injection
  */
 function sanitizeInput(input: string): string {
   return input
     .replace(/[<>]/g, '')
-    .slice(0, 5000);
+    .slice(0, AI_CONTEXT_CONFIG.maxInputChars);
 }
 
 /**
@@ -77,33 +69,27 @@ export async function POST(request: NextRequest) {
     }, { status: 401 });
   }
 
-  // Rate limiting
-  const rateLimit = checkRateLimit(session.user.id);
-  if (!rateLimit.allowed) {
-    return NextResponse.json({
-      success: false,
-      error: `Rate limit exceeded. Try again in ${rateLimit.resetIn} seconds.`,
-    }, { 
-      status: 429,
-      headers: {
-        'X-RateLimit-Remaining': '0',
-        'X-RateLimit-Reset': rateLimit.resetIn.toString(),
-      }
-    });
-  }
-
   try {
     const body = await request.json();
-    const { command, input, context, provider } = body;
+    const { command, input, context, provider, model, bypassCache, threadId } = body;
 
-    // Validate command
-    if (!command || !COPILOT_COMMANDS[command as keyof typeof COPILOT_COMMANDS]) {
+    // Validate command — built-in or one of the user's own
+    const commandConfig = resolveCommand(session.user.id, command);
+    if (!commandConfig) {
       return NextResponse.json({
         success: false,
         error: 'Invalid command',
       }, { status: 400 });
     }
 
+    // Rate limiting, charged up front for every model call the command may
+    // make: the first answer, each repair round and a full-file retry of patches
+    const maxCalls = 1 + commandConfig.repairRounds + (commandConfig.editMode === 'patch' ? 1 : 0);
+    const rateLimit = checkRateLimit(session.user.id, maxCalls);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
     // Validate and sanitize input
     if (!input || typeof input !== 'string') {
       return NextResponse.json({
@@ -112,24 +98,181 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const sanitizedInput = sanitizeInput(input);
-    const commandConfig = COPILOT_COMMANDS[command as keyof typeof COPILOT_COMMANDS];
+    // Resolve the provider and validate the requested model against its list
+    const aiProvider = resolveProvider(provider);
+    if (!aiProvider) {
+      return NextResponse.json({
+        success: false,
+        error: 'No AI provider configured. Add GEMINI_API_KEY, GITHUB_TOKEN or OPENAI_COMPATIBLE_BASE_URL to your .env file.',
+      }, { status: 500 });
+    }
+
+    const selectedModel = resolveModel(aiProvider, model);
+    if (!selectedModel) {
+      return NextResponse.json({
+        success: false,
+        error: `Model "${model}" is not available for ${aiProvider.name}`,
+      }, { status: 400 });
+    }
+
+    // Follow-ups continue an existing thread owned by this user
+    const thread = threadId ? getThread(session.user.id, threadId) : null;
+    if (threadId && !thread) {
+      return NextResponse.json({
+        success: false,
+        error: 'Conversation thread not found or expired. Start a new thread.',
+      }, { status: 404 });
+    }
 
-    // Build the prompt from the command template
-    const prompt = commandConfig.template
-      .replace('{code}', sanitizedInput)
-      .replace('{prompt}', sanitizedInput)
-      .replace('{error}', context?.error || '');
+    const sanitizedInput = sanitizeInput(input);
+    const inputWarnings = input.length > AI_CONTEXT_CONFIG.maxInputChars
+      ? [`Input trimmed to ${AI_CONTEXT_CONFIG.maxInputChars} characters (was ${input.length}).`]
+      : [];
+    const instructions = parseRepoInstructions(context?.instructions);
+    const instructionsWarning = instructions && formatRepoInstructions(instructions).warning;
+    if (instructionsWarning) inputWarnings.push(instructionsWarning);
+    // Translations create a new file from the whole source, at a path derived from the target
+    const translation = commandConfig.id === 'translate'
+      ? planTranslation(context?.file || '', context?.target)
+      : null;
+    if (commandConfig.id === 'translate' && (!translation || !context?.fileContent)) {
+      return NextResponse.json({
+        success: false,
+        error: context?.file ? `Choose a translation target that applies to ${context.file}` : 'Select a file to translate',
+      }, { status: 400 });
+    }
+    if (translation && context?.selection) {
+      inputWarnings.push('Selection ignored: translate converts the whole file.');
+    }
+    const selection = translation ? null : parseSelection(context?.selection, context?.fileContent || '');
+
+    // Build the prompt from the command template; a pasted error or stack trace fills `{error}`
+    const error = typeof context?.error === 'string' ? context.error.slice(0, AI_STACKTRACE_CONFIG.maxTraceChars) : '';
+    const prompt = fillTemplate(commandConfig.template, sanitizedInput, error);
+
+    // Failing frames marked in the file and the other trace files the client fetched
+    const trace: TraceContext | null = error
+      ? buildTraceContext({
+          trace: error,
+          filePath: context?.file || '',
+          fileContent: context?.fileContent || '',
+          traceFiles: context?.traceFiles,
+          model: selectedModel,
+        })
+      : null;
+    if (trace?.warning) inputWarnings.push(trace.warning);
+
+    // Related code from the rest of the repository, for commands that use it
+    const related: RelatedCode = commandConfig.retrieval && context?.repository
+      ? await retrieveRelatedCode({
+          accessToken: session.accessToken,
+          repository: context.repository,
+          ref: context.ref || 'main',
+          request: sanitizedInput,
+          fileContent: context.fileContent || '',
+          excludePaths: [context.file, ...Object.keys(thread?.workingFiles ?? {}), ...Object.keys(trace?.files ?? {})].filter(Boolean),
+          provider: aiProvider.id,
+          model: selectedModel,
+        })
+      : { chunks: [], text: '' };
+    if (related.warning) inputWarnings.push(related.warning);
+
+    // Signatures of the local modules the file imports, minus the ones the user unticked
+    const imports: ImportContext = context?.repository && context?.file && context?.fileContent && context?.includeImports !== false
+      ? await collectImportContext({
+          accessToken: session.accessToken,
+          repository: context.repository,
+          ref: context.ref || 'main',
+          filePath: context.file,
+          fileContent: context.fileContent,
+          excludePaths: Array.isArray(context.excludedImports) ? context.excludedImports : [],
+          provider: aiProvider.id,
+          model: selectedModel,
+        })
+      : { files: [], text: '' };
+    if (imports.warning) inputWarnings.push(imports.warning);
+    const repoContext = [trace?.text, imports.text, related.text].filter(Boolean).join('\n\n');
+
+    // Reuse a previous response for an identical invocation unless the client opted out
+    const cacheKey = buildCacheKey({
+      userId: session.user.id,
+      route: 'execute',
+      command: commandConfig.revision,
+      provider: aiProvider.id,
+      model: selectedModel,
+      prompt,
+      repository: context?.repository,
+      ref: context?.repository ? context.ref || 'main' : null,
+      filePath: context?.file,
+      fileName: context?.fileName,
+      fileContent: context?.fileContent,
+      instructions: instructions?.content,
+      repoContext,
+      selection: selection && describeSelection(selection),
+      target: translation && `${translation.target.id}:${translation.targetPath}`,
+    });
+    // Follow-ups depend on the thread's history, so they never hit the cache
+    const cached = bypassCache || thread ? null : getCachedResponse<CachedExecution>(cacheKey);
+
+    // Compile proposed script files so errors show up (and get repaired) before the diff is offered
+    const validate = (changes: ProposedChange[]): Promise<TypeCheckResult> => context?.repository
+      ? typeCheckChanges({
+          accessToken: session.accessToken,
+          repository: context.repository,
+          ref: context.ref || 'main',
+          changes,
+          signal: request.signal,
+        })
+      : Promise.resolve({ changes });
+
+    // Call the real AI API with the selected provider and model
+    const result = cached
+      ? { ...cached, failedAttempts: [], usage: null, executionTime: 0 }
+      : await callAI(session.user.id, commandConfig, prompt, context, aiProvider, selectedModel, request.signal, thread, repoContext, selection, translation, trace, validate);
+    const changes = result.changes;
+
+    if (!cached && !thread) {
+      setCachedResponse<CachedExecution>(cacheKey, {
+        output: result.output,
+        changes,
+        provider: result.provider,
+        model: result.model,
+        warnings: result.warnings,
+        repairs: result.repairs,
+      });
+    }
 
-    // Call the real AI API with the selected provider
-    const result = await callAI(command, prompt, context, provider as AIProvider | undefined);
+    // Record the turn so a follow-up can build on this answer and its changes
+    const activeThread = thread ?? createThread(session.user.id, context?.file || null);
+    appendTurn(activeThread, prompt, result.output, Object.fromEntries(
+      (changes ?? []).map(change => change.operation === 'delete'
+        ? [change.file, null]
+        : [change.newPath ?? change.file, change.after])
+    ));
 
     return NextResponse.json({
       success: true,
       data: {
         command,
+        threadId: activeThread.id,
+        turn: activeThread.turns,
+        provider: result.provider,
+        model: result.model,
+        failover: result.failedAttempts,
         output: result.output,
-        changes: result.changes,
+        changes,
+        imports: imports.files.map(file => file.path),
+        related: related.chunks.map(chunk => ({
+          citation: citation(chunk),
+          path: chunk.path,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          symbol: chunk.symbol,
+        })),
+        warnings: [...inputWarnings, ...result.warnings],
+        repairs: result.repairs,
+        usage: result.usage,
+        cached: !!cached,
         executionTime: result.executionTime,
       },
     }, {
@@ -139,6 +282,14 @@ export async function POST(request: NextRequest) {
       }
     });
   } catch (error) {
+    // Client cancelled — nothing is listening, but end the request cleanly
+    if (request.signal.aborted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Cancelled',
+      }, { status: 499 });
+    }
+
     console.error('Copilot execution error:', error);
     return NextResponse.json({
       success: false,
@@ -148,14 +299,21 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Build a system prompt tailored to the command type
+ * Build a system prompt tailored to the command type and edit mode, followed
+ * by the repository's instructions when the client sent them
  */
-function buildSystemPrompt(command: string, context?: Record<string, unknown>): string {
+function buildSystemPrompt(
+  command: CommandDefinition,
+  context: Record<string, unknown> | undefined,
+  editMode: EditMode,
+  translation: TranslationPlan | null = null
+): string {
   const fileName = (context?.fileName as string) || '';
+  const filePath = (context?.file as string) || fileName;
   const language = (context?.language as string) || 'typescript';
 
   const baseContext = fileName
-    ? `The user is working on a file called "${fileName}" (${language}).`
+    ? `The user is working on a file called "${fileName}" at path "${filePath}" (${language}).`
     : `The user is working with ${language} code.`;
 
   const systemPrompts: Record<string, string> = {
@@ -172,15 +330,16 @@ Generate clean, production-ready code based on the user's request.
 - Use modern best practices for the relevant language
 - Include TypeScript types where applicable
 - Add brief inline comments for complex logic
-- Return the generated code wrapped in a single markdown code block with the language specified
+- Put generated code in new files with sensible paths next to the user's file, unless the user asked to change that file
 - Make sure the code is directly relevant to what the user asked for — do NOT generate unrelated code`,
 
     fix: `You are an expert debugging assistant. ${baseContext}
 Analyze the provided code for bugs, errors, and issues. Then provide:
 1. A brief summary of issues found
-2. The corrected full file code in a single markdown code block
-3. Brief explanation of each fix applied
-Focus on actual bugs, not style preferences. Return the complete fixed file content in the code block.`,
+2. Brief explanation of each fix applied
+3. The fix as a "modify" change
+Focus on actual bugs, not style preferences.${context?.error ? `
+When a stack trace is given, start from the innermost failing frame and fix the root cause, which may be in another file from the trace rather than where the error surfaced.` : ''}`,
 
     refactor: `You are an expert code refactoring assistant. ${baseContext}
 Refactor the provided code to improve:
@@ -188,194 +347,361 @@ Refactor the provided code to improve:
 - Performance where possible
 - Modern language patterns and best practices
 - Type safety (for TypeScript)
-Provide the complete refactored code in a single markdown code block and list the changes made below it.`,
+List the changes made, then provide the refactoring as a "modify" change.`,
 
     test: `You are an expert test writer. ${baseContext}
 Generate comprehensive unit tests for the provided code using vitest (or jest).
 - Cover main functionality, edge cases, and error handling
 - Use descriptive test names
-- Include necessary imports and setup
-- Return the complete test file in a single markdown code block`,
+- Include necessary imports and setup, importing the code under test by its relative path
+- Create the tests as a new file next to the source (e.g. \`foo.ts\` → \`foo.test.ts\`); never overwrite the source file`,
 
     docs: `You are an expert documentation writer. ${baseContext}
 Generate clear documentation for the provided code including:
 - JSDoc/TSDoc comments for all exported functions, classes, and types
 - Parameter descriptions and return types
 - Usage examples where helpful
-Return the fully documented version of the code in a single markdown code block.`,
+Return the documentation as a "modify" change.`,
+
+    translate: `You are an expert at porting code between languages and frameworks. ${baseContext}
+Translate the provided code using the idioms, standard library and naming conventions of the target rather than transliterating it line by line.${translation ? buildTranslationInstructions(translation) : ''}`,
   };
 
-  return systemPrompts[command] || `You are a helpful coding assistant. ${baseContext}`;
+  // Custom commands bring their own instructions; the file context still applies
+  const systemPrompt = command.systemPrompt
+    ? `${command.systemPrompt}\n\n${baseContext}`
+    : systemPrompts[command.id] || `You are a helpful coding assistant. ${baseContext}`;
+  const instructions = parseRepoInstructions(context?.instructions);
+  const withInstructions = instructions ? systemPrompt + formatRepoInstructions(instructions).text : systemPrompt;
+  return command.producesDiff
+    ? withInstructions + '\n' + buildChangeSetInstructions(editMode)
+    : withInstructions;
 }
 
 /**
- * Call the AI API — uses native Gemini SDK for Gemini, OpenAI-compatible for GitHub Models
+ * Call the AI API through the provider registry, failing over to other
+ * configured providers when the selected one is unavailable. Patch-mode
+ * commands are retried once in full-file mode when their edits don't apply.
+ * `repoContext` (imported declarations, related code) is sent ahead of the file.
+ * With a `selection`, only those lines are sent for editing and the result is
+ * spliced back into the whole file. A `translation` turns the result into a
+ * new file at its target path. With a stack `trace`, trimming keeps the
+ * failing line of the file, and the trace files sent in full may be edited.
  */
 async function callAI(
-  command: string,
+  userId: string,
+  command: CommandDefinition,
   prompt: string,
-  context?: Record<string, unknown>,
-  provider?: AIProvider
-): Promise<{ output: string; changes: Array<Record<string, unknown>> | null; executionTime: number }> {
+  context: Record<string, unknown> | undefined,
+  aiProvider: AIProviderAdapter,
+  model: string,
+  signal?: AbortSignal,
+  thread?: Thread | null,
+  repoContext = '',
+  selection: CodeSelection | null = null,
+  translation: TranslationPlan | null = null,
+  trace: TraceContext | null = null,
+  validate: (changes: ProposedChange[]) => Promise<TypeCheckResult> = async changes => ({ changes })
+): Promise<{
+  output: string;
+  changes: ProposedChange[] | null;
+  executionTime: number;
+  provider: string;
+  model: string;
+  failedAttempts: FailoverAttempt[];
+  warnings: string[];
+  repairs: RepairRound[];
+  usage: UsageRecord;
+}> {
   const startTime = Date.now();
+  const warnings: string[] = [];
 
-  const aiConfig = getAIConfig(provider);
-  if (!aiConfig.apiKey) {
-    throw new Error(
-      'No AI provider configured. Add GEMINI_API_KEY or GITHUB_TOKEN to your .env file.'
-    );
-  }
-
-  const systemPrompt = buildSystemPrompt(command, context);
-  const fileContent = (context?.fileContent as string) || '';
+  const editMode = command.editMode;
   const fileName = (context?.fileName as string) || 'untitled.ts';
   const filePath = (context?.file as string) || fileName;
   const language = (context?.language as string) || 'typescript';
+  const baseContent = (context?.fileContent as string) || '';
+
+  // In a thread, the model keeps working on the version it proposed last
+  const history = thread?.messages ?? [];
+  const workingContent = thread?.workingFiles[filePath];
+  const fileContent = workingContent ?? baseContent;
+  const otherFiles = Object.fromEntries(
+    Object.entries(thread?.workingFiles ?? {}).filter(([path]) => path !== filePath)
+  );
 
-  // Build the user message — include file content if available
-  let userMessage = prompt;
-  if (fileContent && !prompt.includes(fileContent)) {
-    userMessage = `${prompt}\n\nFile: ${fileName}\n\`\`\`${language}\n${fileContent}\n\`\`\``;
+  // Line numbers refer to the repository version, which a follow-up has moved on from
+  const region = selection && workingContent === undefined
+    ? extractRegion(fileContent, selection, AI_CONTEXT_CONFIG.selectionContextLines)
+    : null;
+  if (selection && !region) {
+    warnings.push('Selection ignored: follow-ups work on the whole file with your previous changes applied.');
   }
 
-  let aiOutput: string;
+  const file: FileContext = {
+    path: filePath,
+    name: fileName,
+    content: region ? region.text : fileContent,
+    baseContent: region ? region.text : baseContent,
+    otherFiles,
+    language,
+    trimmed: false,
+    region,
+    translation,
+    traceFiles: trace?.files ?? {},
+  };
 
-  if (aiConfig.provider === 'gemini') {
-    // ─── Native Gemini SDK ───
-    aiOutput = await callGemini(aiConfig.apiKey, aiConfig.model, systemPrompt, userMessage, command);
-  } else {
-    // ─── GitHub Models (OpenAI-compatible) ───
-    aiOutput = await callGitHubModels(aiConfig.apiKey, aiConfig.model, systemPrompt, userMessage, command);
+  // Files created earlier in the thread, so follow-ups can refine them
+  const otherFilesText = Object.entries(otherFiles)
+    .map(([path, content]) => `File: ${path} (proposed earlier in this conversation)\n\`\`\`\n${content}\n\`\`\``)
+    .join('\n\n');
+
+  // Build the user message — include file content if available, fitted to the model's budget
+  let userMessage = [prompt, otherFilesText, repoContext].filter(Boolean).join('\n\n');
+  if (file.content && !prompt.includes(file.content)) {
+    // Frame line numbers refer to the repository version of the file
+    const failingLine = region || workingContent !== undefined
+      ? undefined
+      : trace?.frames.find(frame => frame.path === filePath)?.line;
+    const fitted = fitFileContext({
+      provider: aiProvider.id,
+      model,
+      systemPrompt: buildSystemPrompt(command, context, editMode, translation),
+      prompt: [...history.map(m => m.content), userMessage, region ? region.above + region.below : ''].join('\n\n'),
+      fileName,
+      fileContent: file.content,
+      focus: failingLine ? { start: failingLine, end: failingLine } : undefined,
+    });
+    if (fitted.warning) warnings.push(fitted.warning);
+    file.trimmed = fitted.trimmed;
+    if (region) {
+      const section = formatRegion(region, { path: filePath, fileName, language, content: fitted.content, editable: command.producesDiff });
+      userMessage = `${userMessage}\n\n${section}`;
+    } else {
+      const label = workingContent !== undefined ? `${fileName} (with your previous changes applied)` : fileName;
+      userMessage = `${userMessage}\n\nFile: ${label}\n\`\`\`${language}\n${fitted.content}\n\`\`\``;
+    }
   }
 
-  const executionTime = Date.now() - startTime;
-
-  // For code-modifying commands, extract the code block to create a diff
-  let changes: Array<Record<string, unknown>> | null = null;
-
-  if (['fix', 'refactor', 'generate', 'test', 'docs'].includes(command) && fileContent) {
-    const codeBlock = extractCodeBlock(aiOutput);
-    if (codeBlock && codeBlock !== fileContent) {
-      const diffCounts = countDiffLines(fileContent, codeBlock);
-      changes = [{
-        file: filePath,
-        filename: fileName,
-        language,
-        before: fileContent,
-        after: codeBlock,
-        additions: diffCounts.added,
-        deletions: diffCounts.removed,
-        description: `${command} applied to ${fileName}`,
-      }];
+  // Every model call this request makes; recorded together at the end
+  const calls: UsageRecord[] = [];
+
+  // `followUp` continues the conversation after the first reply, for repairs
+  const run = async (mode: EditMode, followUp: ChatMessage[] = []) => {
+    const systemPrompt = buildSystemPrompt(command, context, mode, translation);
+    const callStart = Date.now();
+    const served = await completeWithFailover(aiProvider, {
+      model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...history,
+        { role: 'user', content: userMessage },
+        ...followUp,
+      ],
+      temperature: command.temperature,
+      signal,
+    });
+    calls.push(measureUsage({
+      command: command.label,
+      provider: served.provider.id,
+      model: served.model,
+      latencyMs: Date.now() - callStart,
+      usage: served.result.usage,
+      promptText: [systemPrompt, ...history.map(m => m.content), userMessage, ...followUp.map(m => m.content)].join('\n'),
+      outputText: served.result.text,
+    }));
+    const extracted = command.producesDiff
+      ? extractChanges(command, served.result.text, file)
+      : { output: served.result.text, changes: null, warnings: [], patchFailures: [] };
+    const validated = extracted.changes && extracted.changes.length > 0 ? await validate(extracted.changes) : null;
+    return {
+      served,
+      ...extracted,
+      changes: validated?.changes ?? extracted.changes,
+      validationWarning: validated?.warning,
+    };
+  };
+
+  try {
+    let result = await run(editMode);
+
+    // Send changes that fail validation back with the problems, keeping a
+    // round's answer only when it leaves fewer problems than the last one
+    const repairs: RepairRound[] = [];
+    let problems = collectRepairProblems(result.changes, result.patchFailures);
+    for (let round = 1; problems && round <= command.repairRounds; round++) {
+      const repaired = await run(editMode, [
+        { role: 'assistant', content: result.served.result.text },
+        { role: 'user', content: buildRepairPrompt(problems, editMode) },
+      ]);
+      const remaining = collectRepairProblems(repaired.changes, repaired.patchFailures);
+      const kept = !!repaired.changes?.length && countRepairProblems(remaining) < countRepairProblems(problems);
+      repairs.push({ round, problems: describeRepairProblems(problems), remaining: describeRepairProblems(remaining), kept });
+      if (!kept) break;
+      result = repaired;
+      problems = remaining;
+    }
+
+    // Edits that don't apply leave nothing to review; ask again for whole files
+    if (result.patchFailures.length > 0 && editMode === 'patch') {
+      if (file.trimmed) {
+        warnings.push(`Some edits did not apply and ${fileName} is too large to request in full: ${result.patchFailures.join('; ')}`);
+      } else {
+        warnings.push(`Edits did not apply (${result.patchFailures.join('; ')}); retried in full-file mode.`);
+        result = await run('full');
+      }
     }
+    warnings.push(...result.warnings);
+    if (result.validationWarning) warnings.push(result.validationWarning);
+    const notice = failoverNotice(aiProvider, result.served);
+    if (notice) warnings.push(notice);
+
+    return {
+      output: result.output,
+      changes: result.changes && result.changes.length > 0 ? result.changes : null,
+      executionTime: Date.now() - startTime,
+      provider: result.served.provider.id,
+      model: result.served.model,
+      failedAttempts: result.served.failedAttempts,
+      warnings,
+      repairs,
+      usage: recordUsageTotal(userId, calls),
+    };
+  } catch (error) {
+    // Tokens spent before a failure or cancel still count
+    if (calls.length > 0) recordUsageTotal(userId, calls);
+    throw error;
   }
+}
 
-  return { output: aiOutput, changes, executionTime };
+interface FileContext {
+  path: string;
+  name: string;
+  /** Content the model works on — the thread's last proposal, if any */
+  content: string;
+  /** Content in the repository, which diffs are shown against */
+  baseContent: string;
+  /** Other files proposed earlier in the thread, by path */
+  otherFiles: Record<string, string>;
+  language: string;
+  /** The model only saw part of the file */
+  trimmed: boolean;
+  /** Selected range the command runs on; `content` is then just those lines */
+  region: FileRegion | null;
+  /** Translation the command runs; its result must be a new file */
+  translation: TranslationPlan | null;
+  /** Other files from a pasted stack trace, as in the repository, by path */
+  traceFiles: Record<string, string>;
 }
 
 /**
- * Call Gemini using the native @google/genai SDK with retry on rate limits
+ * Turn a model reply into proposed changes: validate its change set, apply
+ * patch-mode edits and drop whole-file rewrites of a trimmed file
  */
-async function callGemini(
-  apiKey: string,
-  model: string,
-  systemPrompt: string,
-  userMessage: string,
-  command: string
-): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey });
-  const geminiConfig = AI_PROVIDERS.gemini;
-
-  for (let attempt = 0; attempt <= AI_RETRY_CONFIG.maxRetries; attempt++) {
-    try {
-      const response = await ai.models.generateContent({
-        model,
-        contents: `${systemPrompt}\n\n${userMessage}`,
-        config: {
-          maxOutputTokens: geminiConfig.maxOutputTokens,
-          temperature: command === 'fix' ? 0.2 : geminiConfig.temperature,
-          topP: geminiConfig.topP,
-          topK: geminiConfig.topK,
-        },
-      });
+function extractChanges(
+  command: CommandDefinition,
+  aiOutput: string,
+  file: FileContext
+): { output: string; changes: ProposedChange[] | null; warnings: string[]; patchFailures: string[] } {
+  const warnings: string[] = [];
+  const knownFiles: Record<string, string> = file.content
+    ? { ...file.traceFiles, ...file.otherFiles, [file.path]: file.content }
+    : { ...file.traceFiles, ...file.otherFiles };
+  const parsed = parseChangeSet(aiOutput, knownFiles);
+
+  if (!parsed.changeSet) {
+    // No change set in the reply — fall back to the first code block as the new file
+    const changes = file.content
+      ? fallbackChanges(command, aiOutput, file.path, file.name, file.baseContent || file.content, file.language, file.trimmed, warnings, file.translation)
+      : null;
+    return { output: aiOutput, changes: spliceSelection(changes, file), warnings, patchFailures: [] };
+  }
 
-      return response.text || 'No response from Gemini.';
-    } catch (error: unknown) {
-      const err = error as { status?: number; message?: string };
-      if (err.status === 429 && attempt < AI_RETRY_CONFIG.maxRetries) {
-        const delayMs = AI_RETRY_CONFIG.initialDelayMs * Math.pow(AI_RETRY_CONFIG.backoffMultiplier, attempt);
-        console.log(`Gemini rate limited, retrying in ${delayMs}ms (attempt ${attempt + 1}/${AI_RETRY_CONFIG.maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-        continue;
-      }
-      console.error('Gemini API error:', err.message || error);
-      if (err.status === 429) {
-        throw new Error('Gemini API rate limit exceeded. Please try again in a moment.');
-      }
-      throw new Error(`Gemini API error: ${err.message || 'Unknown error'}`);
+  warnings.push(...parsed.errors.map(error => `Ignored change: ${error}`));
+
+  let operations = parsed.changeSet.operations;
+  if (file.trimmed) {
+    // The model only saw part of the file, so it can't rewrite the whole file
+    const rewritesTrimmed = (op: typeof operations[number]) =>
+      op.path === file.path && op.type !== 'delete' && op.content !== undefined;
+    if (operations.some(rewritesTrimmed)) {
+      warnings.push(`Change to ${file.name} skipped: the file was trimmed to fit the model, so the result is not a complete file.`);
+      operations = operations.filter(op => !rewritesTrimmed(op));
     }
   }
-  throw new Error('Max retries exceeded');
+
+  const resolved = resolvePatches({ ...parsed.changeSet, operations }, knownFiles);
+
+  // Diff follow-up proposals against the repository, not the previous proposal
+  const baseFiles = file.baseContent
+    ? { ...knownFiles, ...file.traceFiles, [file.path]: file.baseContent }
+    : { ...knownFiles, ...file.traceFiles };
+
+  const proposed = toProposedChanges(resolved.changeSet, baseFiles, command.label);
+  return {
+    output: parsed.text || parsed.changeSet.summary || '',
+    changes: file.translation
+      ? keepTranslation(proposed, file.translation, file, command, warnings)
+      : spliceSelection(proposed, file),
+    warnings,
+    patchFailures: resolved.failures,
+  };
 }
 
 /**
- * Call GitHub Models using @azure-rest/ai-inference SDK with retry on rate limits
+ * A translation only ever creates its target file. A rewrite of the source is
+ * moved to the target path; anything else touching the source is dropped.
  */
-async function callGitHubModels(
-  apiKey: string,
-  model: string,
-  systemPrompt: string,
-  userMessage: string,
-  command: string
-): Promise<string> {
-  const client = ModelClient(
-    AI_PROVIDERS.github.endpoint,
-    new AzureKeyCredential(apiKey),
-  );
-
-  for (let attempt = 0; attempt <= AI_RETRY_CONFIG.maxRetries; attempt++) {
-    try {
-      const response = await client.path('/chat/completions').post({
-        body: {
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userMessage },
-          ],
-          model,
-          temperature: command === 'fix' ? 0.2 : 0.4,
-          max_tokens: 4096,
-        },
-      });
+function keepTranslation(
+  changes: ProposedChange[],
+  translation: TranslationPlan,
+  file: FileContext,
+  command: CommandDefinition,
+  warnings: string[]
+): ProposedChange[] {
+  const { sourcePath, targetPath } = translation;
+  return changes.flatMap((change): ProposedChange[] => {
+    const destination = change.newPath ?? change.file;
+    if (change.file !== sourcePath && destination !== targetPath) return [change];
+    if (change.operation === 'delete') {
+      warnings.push(`Ignored change: translate never deletes ${sourcePath}.`);
+      return [];
+    }
+    if (file.trimmed) {
+      warnings.push(`Translation skipped: ${file.name} was trimmed to fit the model, so the result is not a complete file.`);
+      return [];
+    }
 
-      if (isUnexpected(response)) {
-        const status = response.status;
-        if (status === '429' && attempt < AI_RETRY_CONFIG.maxRetries) {
-          const delayMs = AI_RETRY_CONFIG.initialDelayMs * Math.pow(AI_RETRY_CONFIG.backoffMultiplier, attempt);
-          console.log(`GitHub Models rate limited, retrying in ${delayMs}ms (attempt ${attempt + 1}/${AI_RETRY_CONFIG.maxRetries})`);
-          await new Promise(resolve => setTimeout(resolve, delayMs));
-          continue;
-        }
-        if (status === '401') {
-          throw new Error('Invalid GITHUB_TOKEN. Check your .env file.');
-        }
-        throw new Error(`GitHub Models API error (${status}): ${response.body?.error?.message || 'Unknown error'}`);
-      }
+    return [{
+      operation: 'create',
+      file: targetPath,
+      filename: targetPath.split('/').pop() || targetPath,
+      language: languageFromPath(targetPath),
+      before: '',
+      after: change.after,
+      additions: change.after.split('\n').length,
+      deletions: 0,
+      description: `${command.label} created ${targetPath}`,
+    }];
+  });
+}
 
-      return response.body.choices[0].message.content || 'No response from GitHub Models.';
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('GitHub Models')) {
-        throw error;
-      }
-      if (attempt < AI_RETRY_CONFIG.maxRetries) {
-        const delayMs = AI_RETRY_CONFIG.initialDelayMs * Math.pow(AI_RETRY_CONFIG.backoffMultiplier, attempt);
-        console.log(`GitHub Models error, retrying in ${delayMs}ms (attempt ${attempt + 1}/${AI_RETRY_CONFIG.maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-        continue;
-      }
-      throw error;
-    }
-  }
-  throw new Error('Max retries exceeded');
+/**
+ * Put changes to a selected range back into the whole file, so diffs and
+ * pushes always cover complete files
+ */
+function spliceSelection(changes: ProposedChange[] | null, file: FileContext): ProposedChange[] | null {
+  const region = file.region;
+  if (!region || !changes) return changes;
+
+  return changes.map(change => {
+    if (change.file !== file.path || change.operation === 'create') return change;
+    const after = change.operation === 'delete' ? '' : spliceRegion(region, change.after);
+    const counts = change.operation === 'delete'
+      ? { added: 0, removed: region.totalLines }
+      : countDiffLines(region.fullContent, after);
+    return { ...change, before: region.fullContent, after, additions: counts.added, deletions: counts.removed };
+  });
 }
 
 /**
@@ -387,20 +713,65 @@ function extractCodeBlock(text: string): string | null {
 }
 
 /**
- * Count added/removed lines between two strings
+ * Legacy single-block handling for replies without a change set. Tests and
+ * translations become a new file next to the source; generate has no target
+ * path, so it is skipped.
  */
-function countDiffLines(before: string, after: string): { added: number; removed: number } {
-  const beforeLines = before.split('\n');
-  const afterLines = after.split('\n');
-  const beforeSet = new Set(beforeLines.map(l => l.trim()));
-  const afterSet = new Set(afterLines.map(l => l.trim()));
-  let added = 0;
-  let removed = 0;
-  for (const line of afterLines) {
-    if (line.trim() && !beforeSet.has(line.trim())) added++;
+function fallbackChanges(
+  command: CommandDefinition,
+  aiOutput: string,
+  filePath: string,
+  fileName: string,
+  fileContent: string,
+  language: string,
+  contextTrimmed: boolean,
+  warnings: string[],
+  translation: TranslationPlan | null = null
+): ProposedChange[] | null {
+  const codeBlock = extractCodeBlock(aiOutput);
+  if (!codeBlock || codeBlock === fileContent) return null;
+
+  const newPath = command.id === 'test'
+    ? filePath.replace(/(\.[^./]+)?$/, ext => `.test${ext}`)
+    : translation?.targetPath;
+  if (newPath) {
+    if (translation && contextTrimmed) {
+      warnings.push(`Translation skipped: ${fileName} was trimmed to fit the model, so the result is not a complete file.`);
+      return null;
+    }
+    return [{
+      operation: 'create',
+      file: newPath,
+      filename: newPath.split('/').pop() || newPath,
+      language: translation ? languageFromPath(newPath) : language,
+      before: '',
+      after: codeBlock,
+      additions: codeBlock.split('\n').length,
+      deletions: 0,
+      description: `${command.label} created ${newPath}`,
+    }];
   }
-  for (const line of beforeLines) {
-    if (line.trim() && !afterSet.has(line.trim())) removed++;
+
+  if (command.id === 'generate') {
+    warnings.push('No file changes proposed: the reply did not include a change set. Copy the generated code from the output.');
+    return null;
+  }
+
+  if (contextTrimmed) {
+    warnings.push(`Diff skipped: ${fileName} was trimmed to fit the model, so the result is not a complete file.`);
+    return null;
   }
-  return { added: added || 1, removed: removed || 0 };
+
+  const diffCounts = countDiffLines(fileContent, codeBlock);
+  return [{
+    operation: 'modify',
+    file: filePath,
+    filename: fileName,
+    language,
+    before: fileContent,
+    after: codeBlock,
+    additions: diffCounts.added,
+    deletions: diffCounts.removed,
+    description: `${command.label} applied to ${fileName}`,
+  }];
 }
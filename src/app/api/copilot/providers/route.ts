@@ -1,18 +1,20 @@
 import { NextResponse } from 'next/server';
-import { AI_PROVIDERS } from '@/lib/config';
+import { getConfiguredProviders, getCircuitState } from '@/lib/providers';
 
 /**
  * GET /api/copilot/providers
  * Returns the list of available AI providers (ones that have API keys configured)
+ * along with their circuit breaker state
  */
 export async function GET() {
-  const providers = Object.values(AI_PROVIDERS)
-    .filter(p => !!p.apiKey)
+  const providers = getConfiguredProviders()
     .map(p => ({
       id: p.id,
       name: p.name,
       defaultModel: p.defaultModel,
-      models: p.models,
+      models: p.listModels(),
+      capabilities: p.capabilities,
+      status: getCircuitState(p.id),
     }));
 
   return NextResponse.json({
@@ -0,0 +1,244 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { AI_REVIEW_CONFIG } from '@/lib/config';
+import { resolveProvider, resolveModel, completeWithFailover, failoverNotice, FailoverAttempt } from '@/lib/providers';
+import { planContextBudget } from '@/lib/context';
+import { recordUsage, UsageRecord } from '@/lib/usage';
+import { checkRateLimit, rateLimitResponse } from '@/lib/ratelimit';
+import { buildCacheKey, getCachedResponse, setCachedResponse } from '@/lib/cache';
+import { resolveRouteCommand, fillTemplate } from '@/lib/commands';
+import { fetchCompare, fetchPullRequest, PullRequestRefs } from '@/lib/github';
+import { buildReviewInstructions, formatReviewDiff, parseReviewFindings } from '@/lib/review';
+import { CodeReview } from '@/types';
+
+// Cached part of a review response; failover and usage are per call
+interface CachedReview {
+  review: CodeReview;
+  provider: string;
+  model: string;
+  warnings: string[];
+}
+
+/**
+ * Helper: Get session from cookie
+ */
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('session');
+
+  if (!sessionCookie) return null;
+
+  try {
+    const session = JSON.parse(sessionCookie.value);
+    if (Date.now() > session.expiresAt) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Helper: Validate a git ref name from the request
+ */
+function isValidRef(ref: unknown): ref is string {
+  return typeof ref === 'string' && ref.length > 0 && ref.length <= 255 && !/\s|\.\./.test(ref);
+}
+
+function buildReviewSystemPrompt(repository: string, pullRequest: PullRequestRefs | null): string {
+  const about = pullRequest
+    ? `You are reviewing pull request #${pullRequest.number} "${pullRequest.title}" in ${repository}.${pullRequest.body.trim() ? `\nIts description:\n${pullRequest.body.trim().slice(0, 2000)}` : ''}`
+    : `You are reviewing a set of changes in ${repository}.`;
+
+  return `You are an experienced code reviewer doing a first-pass review. ${about}
+Read the diff carefully and point out the problems a senior engineer would flag before merging.
+${buildReviewInstructions()}`;
+}
+
+/**
+ * POST /api/copilot/review
+ * Review the changes between two refs, or a pull request, and return
+ * structured findings
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  // Rate limiting
+  const rateLimit = checkRateLimit(session.user.id);
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit);
+  }
+
+  try {
+    const body = await request.json();
+    const { repository, base, head, pullNumber, provider, model, bypassCache } = body;
+
+    const [owner, repo] = typeof repository === 'string' ? repository.split('/') : [];
+    if (!owner || !repo) {
+      return NextResponse.json({
+        success: false,
+        error: 'Repository is required',
+      }, { status: 400 });
+    }
+
+    const hasPull = pullNumber !== undefined && pullNumber !== null && pullNumber !== '';
+    if (hasPull ? !Number.isInteger(Number(pullNumber)) || Number(pullNumber) <= 0 : !isValidRef(base) || !isValidRef(head)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Provide a pull request number, or a base and head ref',
+      }, { status: 400 });
+    }
+
+    const commandConfig = resolveRouteCommand('review');
+
+    // Resolve the provider and validate the requested model against its list
+    const aiProvider = resolveProvider(provider);
+    if (!aiProvider) {
+      return NextResponse.json({
+        success: false,
+        error: 'No AI provider configured. Add GEMINI_API_KEY, GITHUB_TOKEN or OPENAI_COMPATIBLE_BASE_URL to your .env file.',
+      }, { status: 500 });
+    }
+
+    const selectedModel = resolveModel(aiProvider, model);
+    if (!selectedModel) {
+      return NextResponse.json({
+        success: false,
+        error: `Model "${model}" is not available for ${aiProvider.name}`,
+      }, { status: 400 });
+    }
+
+    const pullRequest = hasPull
+      ? await fetchPullRequest(session.accessToken, owner, repo, Number(pullNumber), request.signal)
+      : null;
+    const baseRef = pullRequest ? pullRequest.base : base as string;
+    const headRef = pullRequest ? pullRequest.head : head as string;
+    const compare = await fetchCompare(session.accessToken, owner, repo, baseRef, headRef, request.signal);
+
+    if (compare.files.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: `No changes between ${baseRef} and ${headRef}`,
+      }, { status: 400 });
+    }
+
+    // Fit as many patches as the model can take next to the prompts
+    const systemPrompt = buildReviewSystemPrompt(repository, pullRequest);
+    const budget = planContextBudget({ provider: aiProvider.id, model: selectedModel, systemPrompt, prompt: commandConfig.template });
+    const diff = formatReviewDiff(compare.files, {
+      maxTokens: Math.min(AI_REVIEW_CONFIG.maxDiffTokens, budget.fileTokens),
+      model: selectedModel,
+    });
+    if (diff.files.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'None of the changed files has a reviewable text diff',
+      }, { status: 400 });
+    }
+
+    const prompt = fillTemplate(commandConfig.template, diff.text, '');
+    const headSha = pullRequest?.headSha ?? compare.headSha ?? headRef;
+
+    const cacheKey = buildCacheKey({
+      userId: session.user.id,
+      route: 'review',
+      command: commandConfig.revision,
+      provider: aiProvider.id,
+      model: selectedModel,
+      prompt: systemPrompt + prompt,
+    });
+    const cached = bypassCache ? null : getCachedResponse<CachedReview>(cacheKey);
+
+    let result: CachedReview & { failedAttempts: FailoverAttempt[]; usage: UsageRecord | null };
+    if (cached) {
+      result = { ...cached, failedAttempts: [], usage: null };
+    } else {
+      const callStart = Date.now();
+      const served = await completeWithFailover(aiProvider, {
+        model: selectedModel,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: prompt },
+        ],
+        temperature: commandConfig.temperature,
+        signal: request.signal,
+      });
+      const usage = recordUsage(session.user.id, {
+        command: commandConfig.label,
+        provider: served.provider.id,
+        model: served.model,
+        latencyMs: Date.now() - callStart,
+        usage: served.result.usage,
+        promptText: `${systemPrompt}\n${prompt}`,
+        outputText: served.result.text,
+      });
+
+      const parsed = parseReviewFindings(served.result.text, diff.lines);
+      const warnings = parsed.errors.map(error => `Ignored finding: ${error}`);
+      const notice = failoverNotice(aiProvider, served);
+      if (notice) warnings.push(notice);
+      if (diff.skippedFiles.length > 0) {
+        warnings.push(`Not reviewed (binary, too large or over the budget for ${served.model}): ${diff.skippedFiles.join(', ')}`);
+      }
+
+      result = {
+        review: {
+          repository: `${owner}/${repo}`,
+          base: baseRef,
+          head: headRef,
+          headSha,
+          pullNumber: pullRequest?.number,
+          title: pullRequest?.title,
+          summary: parsed.summary,
+          findings: parsed.findings,
+          files: diff.files,
+          skippedFiles: diff.skippedFiles,
+        },
+        provider: served.provider.id,
+        model: served.model,
+        warnings,
+        failedAttempts: served.failedAttempts,
+        usage,
+      };
+      setCachedResponse<CachedReview>(cacheKey, {
+        review: result.review,
+        provider: result.provider,
+        model: result.model,
+        warnings: result.warnings,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result.review,
+        provider: result.provider,
+        model: result.model,
+        failover: result.failedAttempts,
+        warnings: result.warnings,
+        usage: result.usage,
+        cached: !!cached,
+      },
+    });
+  } catch (error) {
+    // Client cancelled — nothing is listening, but end the request cleanly
+    if (request.signal.aborted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Cancelled',
+      }, { status: 499 });
+    }
+
+    console.error('Code review error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Review failed',
+    }, { status: 500 });
+  }
+}
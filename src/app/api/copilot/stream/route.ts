@@ -1,9 +1,20 @@
 import { NextRequest } from 'next/server';
 import { cookies } from 'next/headers';
-import { GoogleGenAI } from '@google/genai';
-import ModelClient, { isUnexpected } from '@azure-rest/ai-inference';
-import { AzureKeyCredential } from '@azure/core-auth';
-import { COPILOT_COMMANDS, getAIConfig, AIProvider, AI_PROVIDERS, AI_RETRY_CONFIG } from '@/lib/config';
+import { resolveProvider, resolveModel, streamWithFailover, failoverNotice, AIProviderAdapter, CompletionRequest, TokenUsage } from '@/lib/providers';
+import { fitFileContext, formatRepoInstructions, parseRepoInstructions } from '@/lib/context';
+import { recordUsage } from '@/lib/usage';
+import { checkRateLimit, rateLimitResponse } from '@/lib/ratelimit';
+import { buildCacheKey, getCachedResponse, setCachedResponse } from '@/lib/cache';
+import { resolveCommand, fillTemplate, CommandDefinition } from '@/lib/commands';
+import { collectImportContext, ImportContext } from '@/lib/imports';
+
+// Cached part of a streamed completion, replayed on an identical request
+interface CachedStream {
+  output: string;
+  provider: string;
+  model: string;
+  warnings: string[];
+}
 
 /**
  * Helper: Get session from cookie
@@ -26,7 +37,7 @@ async function getSession() {
 /**
  * Build a system prompt for the given command
  */
-function buildSystemPrompt(command: string, context?: Record<string, unknown>): string {
+function buildCommandPrompt(command: CommandDefinition, context?: Record<string, unknown>): string {
   const fileName = (context?.fileName as string) || '';
   const language = (context?.language as string) || 'typescript';
   const baseContext = fileName
@@ -42,7 +53,23 @@ function buildSystemPrompt(command: string, context?: Record<string, unknown>):
     docs: `You are an expert documentation writer. ${baseContext} Add thorough JSDoc/TSDoc documentation to the provided code. Return the documented code in a markdown code block.`,
   };
 
-  return prompts[command] || `You are a helpful coding assistant. ${baseContext}`;
+  if (command.systemPrompt) return `${command.systemPrompt}\n\n${baseContext}`;
+  return prompts[command.id] || `You are a helpful coding assistant. ${baseContext}`;
+}
+
+/**
+ * Command prompt followed by the repository's instructions, if any
+ */
+function buildSystemPrompt(
+  command: CommandDefinition,
+  context?: Record<string, unknown>
+): { systemPrompt: string; warning?: string } {
+  const systemPrompt = buildCommandPrompt(command, context);
+  const instructions = parseRepoInstructions(context?.instructions);
+  if (!instructions) return { systemPrompt };
+
+  const formatted = formatRepoInstructions(instructions);
+  return { systemPrompt: systemPrompt + formatted.text, warning: formatted.warning };
 }
 
 /**
@@ -59,50 +86,102 @@ export async function POST(request: NextRequest) {
     });
   }
 
+  // Rate limiting
+  const rateLimit = checkRateLimit(session.user.id);
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit);
+  }
+
   try {
     const body = await request.json();
-    const { command, input, context, provider } = body;
+    const { command, input, context, provider, model, bypassCache } = body;
 
-    const aiConfig = getAIConfig(provider as AIProvider | undefined);
-    if (!aiConfig.apiKey) {
-      return new Response(JSON.stringify({ error: 'No AI provider configured. Add GITHUB_TOKEN or GEMINI_API_KEY to your .env file.' }), {
+    const aiProvider = resolveProvider(provider);
+    if (!aiProvider) {
+      return new Response(JSON.stringify({ error: 'No AI provider configured. Add GITHUB_TOKEN, GEMINI_API_KEY or OPENAI_COMPATIBLE_BASE_URL to your .env file.' }), {
         status: 500,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    // Validate command
-    if (!command || !COPILOT_COMMANDS[command as keyof typeof COPILOT_COMMANDS]) {
+    const selectedModel = resolveModel(aiProvider, model);
+    if (!selectedModel) {
+      return new Response(JSON.stringify({ error: `Model "${model}" is not available for ${aiProvider.name}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate command — built-in or one of the user's own
+    const commandConfig = resolveCommand(session.user.id, command);
+    if (!commandConfig) {
       return new Response(JSON.stringify({ error: 'Invalid command' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    const commandConfig = COPILOT_COMMANDS[command as keyof typeof COPILOT_COMMANDS];
     const fileContent = (context?.fileContent as string) || '';
     const fileName = (context?.fileName as string) || '';
     const language = (context?.language as string) || 'typescript';
 
     // Build the prompt from the command template
-    let prompt = commandConfig.template
-      .replace('{code}', input || '')
-      .replace('{prompt}', input || '')
-      .replace('{error}', context?.error as string || '');
+    let prompt = fillTemplate(commandConfig.template, input || '', context?.error as string || '');
 
-    if (fileContent && !prompt.includes(fileContent)) {
-      prompt = `${prompt}\n\nFile: ${fileName}\n\`\`\`${language}\n${fileContent}\n\`\`\``;
+    // Signatures of the local modules the file imports, minus the ones the user unticked
+    const imports: ImportContext = context?.repository && context?.file && fileContent && context?.includeImports !== false
+      ? await collectImportContext({
+          accessToken: session.accessToken,
+          repository: context.repository,
+          ref: context.ref || 'main',
+          filePath: context.file,
+          fileContent,
+          excludePaths: Array.isArray(context.excludedImports) ? context.excludedImports : [],
+          provider: aiProvider.id,
+          model: selectedModel,
+        })
+      : { files: [], text: '' };
+
+    const cacheKey = buildCacheKey({
+      userId: session.user.id,
+      route: 'stream',
+      command: commandConfig.revision,
+      provider: aiProvider.id,
+      model: selectedModel,
+      prompt,
+      repository: context?.repository,
+      ref: context?.repository ? context.ref || 'main' : null,
+      filePath: context?.file,
+      fileName,
+      language,
+      fileContent,
+      instructions: parseRepoInstructions(context?.instructions)?.content,
+      repoContext: imports.text,
+    });
+    const cached = bypassCache ? null : getCachedResponse<CachedStream>(cacheKey);
+    if (cached) {
+      return replayCachedStream(command, cached);
     }
 
-    const systemPrompt = buildSystemPrompt(command, context);
-    const fullPrompt = `${systemPrompt}\n\n${prompt}`;
+    const { systemPrompt, warning: instructionsWarning } = buildSystemPrompt(commandConfig, context);
+    const warnings = [instructionsWarning, imports.warning].filter((w): w is string => !!w);
+    if (imports.text) prompt = `${prompt}\n\n${imports.text}`;
 
-    // ─── Branch: Gemini (native SDK) vs GitHub Models (OpenAI-compatible) ───
-    if (aiConfig.provider === 'gemini') {
-      return streamGemini(aiConfig.apiKey, aiConfig.model, fullPrompt, command);
-    } else {
-      return streamGitHubModels(aiConfig.apiKey, aiConfig.model, systemPrompt, prompt, command);
+    // Include file content, fitted to the selected model's context budget
+    if (fileContent && !prompt.includes(fileContent)) {
+      const fitted = fitFileContext({ provider: aiProvider.id, model: selectedModel, systemPrompt, prompt, fileName, fileContent });
+      if (fitted.warning) warnings.push(fitted.warning);
+      prompt = `${prompt}\n\nFile: ${fileName}\n\`\`\`${language}\n${fitted.content}\n\`\`\``;
     }
+
+    return streamCompletion(request.signal, aiProvider, {
+      model: selectedModel,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: prompt },
+      ],
+      temperature: commandConfig.temperature,
+    }, { userId: session.user.id, command: commandConfig.label, warnings, cacheKey });
   } catch (error) {
     console.error('Stream error:', error);
     return new Response(JSON.stringify({ error: 'Stream failed' }), {
@@ -113,162 +192,129 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Stream from Gemini using native @google/genai SDK
+ * Stream a completion as server-sent events, failing over to other configured
+ * providers until one starts producing output. The upstream call is aborted
+ * when the client disconnects or cancels the response stream.
  */
-async function streamGemini(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  command: string
-): Promise<Response> {
-  const ai = new GoogleGenAI({ apiKey });
-  const geminiConfig = AI_PROVIDERS.gemini;
+function streamCompletion(
+  requestSignal: AbortSignal,
+  aiProvider: AIProviderAdapter,
+  completionRequest: CompletionRequest,
+  { userId, command, warnings, cacheKey }: { userId: string; command: string; warnings: string[]; cacheKey: string }
+): Response {
   const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  requestSignal.addEventListener('abort', () => abortController.abort(), { once: true });
+  const signal = abortController.signal;
 
   const stream = new ReadableStream({
     async start(controller) {
-      controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'start', command })}\n\n`));
-
-      let attempt = 0;
-      while (attempt <= AI_RETRY_CONFIG.maxRetries) {
-        try {
-          const response = await ai.models.generateContentStream({
-            model,
-            contents: prompt,
-            config: {
-              maxOutputTokens: geminiConfig.maxOutputTokens,
-              temperature: command === 'fix' ? 0.2 : geminiConfig.temperature,
-              topP: geminiConfig.topP,
-              topK: geminiConfig.topK,
-            },
-          });
-
-          for await (const chunk of response) {
-            const text = chunk.text;
-            if (text) {
-              controller.enqueue(
-                encoder.encode(`data: ${JSON.stringify({ type: 'data', content: text })}\n\n`)
-              );
-            }
-          }
+      const send = (event: Record<string, unknown>) => {
+        if (!signal.aborted) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+      };
 
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'end', success: true })}\n\n`));
-          controller.close();
-          return;
-        } catch (error: unknown) {
-          const err = error as { status?: number; message?: string };
-          if (err.status === 429 && attempt < AI_RETRY_CONFIG.maxRetries) {
-            const delayMs = AI_RETRY_CONFIG.initialDelayMs * Math.pow(AI_RETRY_CONFIG.backoffMultiplier, attempt);
-            console.log(`Gemini stream rate limited, retrying in ${delayMs}ms (attempt ${attempt + 1}/${AI_RETRY_CONFIG.maxRetries})`);
-            await new Promise(resolve => setTimeout(resolve, delayMs));
-            attempt++;
-            continue;
+      const startTime = Date.now();
+      let output = '';
+      let servedBy: { provider: string; model: string } | null = null;
+      let recorded = false;
+      const record = (by: { provider: string; model: string }, usage?: TokenUsage) => {
+        recorded = true;
+        return recordUsage(userId, {
+          command,
+          provider: by.provider,
+          model: by.model,
+          latencyMs: Date.now() - startTime,
+          usage,
+          promptText: completionRequest.messages.map(m => m.content).join('\n'),
+          outputText: output,
+        });
+      };
+
+      try {
+        const served = await streamWithFailover(aiProvider, { ...completionRequest, signal });
+        servedBy = { provider: served.provider.id, model: served.model };
+        send({
+          type: 'start',
+          command,
+          provider: served.provider.id,
+          model: served.model,
+          failover: served.failedAttempts,
+        });
+        const notice = failoverNotice(aiProvider, served);
+        if (notice) warnings.push(notice);
+        for (const warning of warnings) {
+          send({ type: 'warning', content: warning });
+        }
+
+        for await (const chunk of served.result) {
+          if (signal.aborted) break;
+          if (chunk.type === 'delta') {
+            output += chunk.content;
+            send({ type: 'data', content: chunk.content });
+          } else {
+            const usage = record(servedBy, chunk.usage);
+            setCachedResponse<CachedStream>(cacheKey, {
+              output,
+              provider: served.provider.id,
+              model: served.model,
+              warnings,
+            });
+            send({ type: 'end', success: true, finishReason: chunk.finishReason, usage });
           }
-          console.error('Gemini stream error:', err.message || error);
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ type: 'end', success: false, error: err.message || 'Gemini stream failed' })}\n\n`)
-          );
-          controller.close();
-          return;
+        }
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error(`${aiProvider.name} stream error:`, error);
+          const message = error instanceof Error ? error.message : `${aiProvider.name} stream failed`;
+          send({ type: 'end', success: false, error: message });
         }
       }
-    },
-  });
 
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
+      // Tokens spent before a cancel or error still count, estimated from
+      // the prompt and the text streamed so far
+      if (servedBy && !recorded) record(servedBy);
+
+      try {
+        controller.close();
+      } catch {
+        // Stream was already cancelled by the client
+      }
+    },
+    cancel() {
+      abortController.abort();
     },
   });
+
+  return sseResponse(stream);
 }
 
 /**
- * Stream from GitHub Models using @azure-rest/ai-inference SDK
+ * Replay a cached completion as the same event sequence a live stream produces
  */
-async function streamGitHubModels(
-  apiKey: string,
-  model: string,
-  systemPrompt: string,
-  userMessage: string,
-  command: string
-): Promise<Response> {
-  const client = ModelClient(
-    AI_PROVIDERS.github.endpoint,
-    new AzureKeyCredential(apiKey),
-  );
+function replayCachedStream(command: string, cached: CachedStream): Response {
   const encoder = new TextEncoder();
+  const events: Array<Record<string, unknown>> = [
+    { type: 'start', command, provider: cached.provider, model: cached.model, failover: [], cached: true },
+    ...cached.warnings.map(warning => ({ type: 'warning', content: warning })),
+    { type: 'data', content: cached.output },
+    { type: 'end', success: true, cached: true },
+  ];
 
-  // Non-streaming call, then simulate streaming by chunking the response
   const stream = new ReadableStream({
-    async start(controller) {
-      controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'start', command })}\n\n`));
-
-      let attempt = 0;
-      while (attempt <= AI_RETRY_CONFIG.maxRetries) {
-        try {
-          const response = await client.path('/chat/completions').post({
-            body: {
-              messages: [
-                { role: 'system', content: systemPrompt },
-                { role: 'user', content: userMessage },
-              ],
-              model,
-              temperature: command === 'fix' ? 0.2 : 0.4,
-              max_tokens: 4096,
-            },
-          });
-
-          if (isUnexpected(response)) {
-            const status = response.status;
-            if (status === '429' && attempt < AI_RETRY_CONFIG.maxRetries) {
-              const delayMs = AI_RETRY_CONFIG.initialDelayMs * Math.pow(AI_RETRY_CONFIG.backoffMultiplier, attempt);
-              console.log(`GitHub Models stream rate limited, retrying in ${delayMs}ms (attempt ${attempt + 1}/${AI_RETRY_CONFIG.maxRetries})`);
-              await new Promise(resolve => setTimeout(resolve, delayMs));
-              attempt++;
-              continue;
-            }
-            const errorMsg = response.body?.error?.message || `API error (${status})`;
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify({ type: 'end', success: false, error: errorMsg })}\n\n`)
-            );
-            controller.close();
-            return;
-          }
-
-          const content = response.body.choices[0].message.content || '';
-          // Simulate streaming by sending content in chunks
-          const chunkSize = 20;
-          for (let i = 0; i < content.length; i += chunkSize) {
-            const chunk = content.slice(i, i + chunkSize);
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify({ type: 'data', content: chunk })}\n\n`)
-            );
-          }
-
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'end', success: true })}\n\n`));
-          controller.close();
-          return;
-        } catch (error) {
-          if (attempt < AI_RETRY_CONFIG.maxRetries) {
-            const delayMs = AI_RETRY_CONFIG.initialDelayMs * Math.pow(AI_RETRY_CONFIG.backoffMultiplier, attempt);
-            console.log(`GitHub Models stream error, retrying in ${delayMs}ms (attempt ${attempt + 1}/${AI_RETRY_CONFIG.maxRetries})`);
-            await new Promise(resolve => setTimeout(resolve, delayMs));
-            attempt++;
-            continue;
-          }
-          console.error('GitHub Models stream error:', error);
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ type: 'end', success: false, error: 'GitHub Models stream failed' })}\n\n`)
-          );
-          controller.close();
-          return;
-        }
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
       }
+      controller.close();
     },
   });
 
+  return sseResponse(stream);
+}
+
+function sseResponse(stream: ReadableStream): Response {
   return new Response(stream, {
     headers: {
       'Content-Type': 'text/event-stream',
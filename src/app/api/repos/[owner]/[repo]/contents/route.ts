@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { GITHUB_CONFIG } from '@/lib/config';
+import { fetchContents } from '@/lib/github';
 
 /**
  * Helper: Get access token from session
@@ -47,54 +48,21 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   const ref = searchParams.get('ref') || 'main';
 
   try {
-    const url = path 
-      ? `${GITHUB_CONFIG.apiUrl}/repos/${owner}/${repo}/contents/${path}?ref=${ref}`
-      : `${GITHUB_CONFIG.apiUrl}/repos/${owner}/${repo}/contents?ref=${ref}`;
+    const contents = await fetchContents(accessToken, owner, repo, path, ref);
 
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`GitHub API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // If it's a file, decode content
-    if (!Array.isArray(data) && data.content) {
-      const content = Buffer.from(data.content, 'base64').toString('utf-8');
+    if (contents.type === 'file') {
       return NextResponse.json({
         success: true,
-        data: {
-          type: 'file',
-          name: data.name,
-          path: data.path,
-          content,
-          size: data.size,
-          sha: data.sha,
-        },
+        data: contents,
       });
     }
 
-    // If it's a directory, return file list
-    const files = data.map((item: any) => ({
-      name: item.name,
-      path: item.path,
-      type: item.type === 'dir' ? 'dir' : 'file',
-      size: item.size,
-      sha: item.sha,
-    }));
-
     return NextResponse.json({
       success: true,
       data: {
         type: 'dir',
         path: path || '/',
-        files,
+        files: contents.files,
       },
     });
   } catch (error) {
@@ -183,3 +151,73 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }, { status: 500 });
   }
 }
+
+/**
+ * DELETE /api/repos/[owner]/[repo]/contents
+ * Deletes a file from the repository
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const accessToken = await getAccessToken();
+  
+  if (!accessToken) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  const { owner, repo } = await params;
+  
+  try {
+    const body = await request.json();
+    const { path, message, branch, sha } = body;
+
+    if (!path || !message || !sha) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required fields: path, message, sha',
+      }, { status: 400 });
+    }
+
+    const url = `${GITHUB_CONFIG.apiUrl}/repos/${owner}/${repo}/contents/${path}`;
+
+    const response = await fetch(url, {
+      method: 'DELETE',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/vnd.github.v3+json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        message,
+        sha,
+        branch: branch || 'main',
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || `GitHub API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        path,
+        commit: {
+          sha: data.commit.sha,
+          message: data.commit.message,
+          url: data.commit.html_url,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Contents delete error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete file',
+    }, { status: 500 });
+  }
+}
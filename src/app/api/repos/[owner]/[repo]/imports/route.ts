@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { findImportedFiles } from '@/lib/imports';
+
+/**
+ * Helper: Get access token from session
+ */
+async function getAccessToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('session');
+  
+  if (!sessionCookie) return null;
+  
+  try {
+    const session = JSON.parse(sessionCookie.value);
+    if (Date.now() > session.expiresAt) return null;
+    return session.accessToken;
+  } catch {
+    return null;
+  }
+}
+
+interface RouteParams {
+  params: Promise<{
+    owner: string;
+    repo: string;
+  }>;
+}
+
+/**
+ * GET /api/repos/[owner]/[repo]/imports
+ * Lists the local modules a TypeScript/JavaScript file imports (resolved
+ * through tsconfig `paths`) with the size of the signatures sent for each
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const accessToken = await getAccessToken();
+  
+  if (!accessToken) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  const { owner, repo } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const path = searchParams.get('path') || '';
+  const ref = searchParams.get('ref') || 'main';
+
+  if (!path) {
+    return NextResponse.json({
+      success: false,
+      error: 'Missing required parameter: path',
+    }, { status: 400 });
+  }
+
+  try {
+    const files = await findImportedFiles({ accessToken, repository: `${owner}/${repo}`, ref, filePath: path });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        path,
+        imports: files.map(file => ({
+          path: file.path,
+          specifier: file.specifier,
+          names: file.names,
+          tokens: file.tokens,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Imports fetch error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to resolve imports',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { AI_STACKTRACE_CONFIG } from '@/lib/config';
+import { fetchRepoTree } from '@/lib/github';
+import { parseStackTrace, resolveFramePaths } from '@/lib/stacktrace';
+
+/**
+ * Helper: Get access token from session
+ */
+async function getAccessToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('session');
+
+  if (!sessionCookie) return null;
+
+  try {
+    const session = JSON.parse(sessionCookie.value);
+    if (Date.now() > session.expiresAt) return null;
+    return session.accessToken;
+  } catch {
+    return null;
+  }
+}
+
+interface RouteParams {
+  params: Promise<{
+    owner: string;
+    repo: string;
+  }>;
+}
+
+/**
+ * POST /api/repos/[owner]/[repo]/stacktrace
+ * Parses a pasted stack trace and resolves its application frames to files
+ * in the repository at `ref`. `files` lists the distinct resolved paths,
+ * innermost frame first, capped at the number the fix command sends.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const accessToken = await getAccessToken();
+
+  if (!accessToken) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  const { owner, repo } = await params;
+
+  try {
+    const body = await request.json();
+    const { trace, ref } = body;
+
+    if (typeof trace !== 'string' || !trace.trim()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required field: trace',
+      }, { status: 400 });
+    }
+
+    const parsed = parseStackTrace(trace);
+    if (parsed.frames.length === 0) {
+      return NextResponse.json({
+        success: true,
+        data: { ...parsed, files: [] },
+      });
+    }
+
+    const tree = await fetchRepoTree(accessToken, owner, repo, typeof ref === 'string' && ref ? ref : 'main', request.signal);
+    const paths = tree.entries.filter(entry => entry.type === 'blob').map(entry => entry.path);
+    const frames = resolveFramePaths(parsed.frames, paths);
+    const files = [...new Set(frames.flatMap(frame => frame.path ? [frame.path] : []))]
+      .slice(0, AI_STACKTRACE_CONFIG.maxFiles);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        message: parsed.message,
+        runtime: parsed.runtime,
+        frames,
+        skipped: parsed.skipped,
+        files,
+      },
+    });
+  } catch (error) {
+    console.error('Stack trace resolve error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to resolve stack trace',
+    }, { status: 500 });
+  }
+}
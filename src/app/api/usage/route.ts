@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getUsageSummary, getRecentUsage } from '@/lib/usage';
+
+/**
+ * Helper: Get session from cookie
+ */
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('session');
+
+  if (!sessionCookie) return null;
+
+  try {
+    const session = JSON.parse(sessionCookie.value);
+    if (Date.now() > session.expiresAt) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/usage
+ * Token usage, latency and estimated cost for the current user, broken down
+ * by command, provider and model. Optional `since` (ms timestamp) and `recent`
+ * (number of latest calls to include) query params.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not authenticated',
+    }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const since = parseInt(searchParams.get('since') || '0') || undefined;
+  const recent = Math.min(parseInt(searchParams.get('recent') || '20') || 20, 100);
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      ...getUsageSummary(session.user.id, since),
+      recent: getRecentUsage(session.user.id, recent),
+    },
+  });
+}
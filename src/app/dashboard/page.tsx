@@ -4,8 +4,8 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import { MainLayout } from '@/components/layout';
-import { CommandPanel, OutputConsole, DiffViewer, ActivityTimeline, FileExplorer, GitPanel } from '@/components/panels';
-import { RepositorySelector } from '@/components/features';
+import { CommandPanel, OutputConsole, DiffViewer, ActivityTimeline, FileExplorer, GitPanel, ReviewPanel } from '@/components/panels';
+import { RepositorySelector, UsageCard, CustomCommandsCard } from '@/components/features';
 import { useAuthStore } from '@/stores';
 import { Sparkles, BookOpen, Zap, FileCode, GitBranch, History as HistoryIcon, Settings as SettingsIcon } from 'lucide-react';
 import { Card } from '@/components/ui';
@@ -201,14 +201,19 @@ export default function DashboardPage() {
                 </div>
               </motion.div>
 
-              {/* Right - Activity Timeline */}
+              {/* Right - Code Review + Activity Timeline */}
               <motion.div
                 initial={{ opacity: 0, x: 20 }}
                 animate={{ opacity: 1, x: 0 }}
                 transition={{ delay: 0.2 }}
-                className="lg:col-span-3 overflow-hidden"
+                className="lg:col-span-3 flex flex-col gap-4 overflow-hidden"
               >
-                <ActivityTimeline />
+                <div className="flex-2 min-h-0 overflow-hidden">
+                  <ReviewPanel />
+                </div>
+                <div className="flex-1 min-h-0 overflow-hidden">
+                  <ActivityTimeline />
+                </div>
               </motion.div>
             </div>
           </div>
@@ -236,7 +241,7 @@ export default function DashboardPage() {
 
       case 'settings':
         return (
-          <div className="h-full p-4 overflow-auto">
+          <div className="h-full p-4 overflow-auto space-y-4">
             <Card className="p-6">
               <div className="flex items-center gap-3 mb-4">
                 <div className="p-3 rounded-lg bg-violet-500/10">
@@ -258,6 +263,8 @@ export default function DashboardPage() {
                 </div>
               </div>
             </Card>
+            <CustomCommandsCard />
+            <UsageCard />
           </div>
         );
 
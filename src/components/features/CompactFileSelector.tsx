@@ -77,7 +77,8 @@ export function CompactFileSelector() {
         setSelectedFile({
           name: data.data.name,
           path: data.data.path,
-          content: data.data.content
+          content: data.data.content,
+          sha: data.data.sha
         });
         setIsOpen(false);
         setSearchQuery('');
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Code, FileText, Loader2, MessageSquare, Pencil, Plus, Sparkles, TestTube, Trash2, Wand2, Wrench } from 'lucide-react';
+import { Button, Input, Card, Badge } from '@/components/ui';
+import { useCustomCommandStore } from '@/stores';
+import type { CommandIcon, CustomCommand } from '@/types';
+import { cn } from '@/lib/utils';
+
+const ICONS: Record<CommandIcon, React.ReactNode> = {
+  sparkles: <Sparkles size={14} />,
+  message: <MessageSquare size={14} />,
+  wrench: <Wrench size={14} />,
+  test: <TestTube size={14} />,
+  code: <Code size={14} />,
+  file: <FileText size={14} />,
+};
+
+interface CommandForm {
+  name: string;
+  description: string;
+  icon: CommandIcon;
+  systemPrompt: string;
+  template: string;
+  requiresFile: boolean;
+  producesDiff: boolean;
+  temperature: string;
+  repairRounds: string;
+}
+
+const EMPTY_FORM: CommandForm = {
+  name: '',
+  description: '',
+  icon: 'sparkles',
+  systemPrompt: '',
+  template: '{prompt}\n\n{code}',
+  requiresFile: true,
+  producesDiff: true,
+  temperature: '',
+  repairRounds: '',
+};
+
+function toForm(command: CustomCommand): CommandForm {
+  return {
+    name: command.name,
+    description: command.description,
+    icon: command.icon,
+    systemPrompt: command.systemPrompt,
+    template: command.template,
+    requiresFile: command.requiresFile,
+    producesDiff: command.producesDiff,
+    temperature: command.temperature?.toString() ?? '',
+    repairRounds: command.repairRounds?.toString() ?? '',
+  };
+}
+
+const textareaClass = 'w-full bg-zinc-900/50 border border-zinc-800 rounded-lg p-3 text-sm text-zinc-100 placeholder:text-zinc-500 resize-y focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500 transition-all';
+
+/**
+ * Create, edit and delete the user's own AI commands
+ */
+export function CustomCommandsCard() {
+  const { commands, setCommands, upsertCommand, removeCommand } = useCustomCommandStore();
+  const [isLoading, setIsLoading] = useState(true);
+  // null: list only, 'new': creating, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<CommandForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch saved commands on mount
+  useEffect(() => {
+    fetch('/api/copilot/commands')
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) setCommands(data.data);
+      })
+      .catch(err => console.error('Failed to fetch custom commands:', err))
+      .finally(() => setIsLoading(false));
+  }, [setCommands]);
+
+  const startEditing = (command: CustomCommand | null) => {
+    setEditing(command?.id ?? 'new');
+    setForm(command ? toForm(command) : EMPTY_FORM);
+    setError(null);
+  };
+
+  const updateForm = (changes: Partial<CommandForm>) => setForm(current => ({ ...current, ...changes }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const isNew = editing === 'new';
+      const response = await fetch(isNew ? '/api/copilot/commands' : `/api/copilot/commands/${editing}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          temperature: form.temperature.trim() ? Number(form.temperature) : undefined,
+          repairRounds: form.repairRounds.trim() ? Number(form.repairRounds) : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        upsertCommand(data.data);
+        setEditing(null);
+      } else {
+        setError(data.error || 'Failed to save command');
+      }
+    } catch {
+      setError('Failed to save command');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (command: CustomCommand) => {
+    if (!confirm(`Delete the "${command.name}" command?`)) return;
+
+    const response = await fetch(`/api/copilot/commands/${command.id}`, { method: 'DELETE' });
+    const data = await response.json();
+    if (data.success) {
+      removeCommand(command.id);
+      if (editing === command.id) setEditing(null);
+    }
+  };
+
+  const renderForm = () => (
+    <div className="space-y-3 p-4 rounded-lg border border-zinc-800 bg-zinc-900/30">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Input
+          value={form.name}
+          onChange={(e) => updateForm({ name: e.target.value })}
+          placeholder="Name, e.g. Use our logger"
+        />
+        <Input
+          value={form.description}
+          onChange={(e) => updateForm({ description: e.target.value })}
+          placeholder="Short description"
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-zinc-400">Icon</span>
+        {(Object.keys(ICONS) as CommandIcon[]).map(icon => (
+          <button
+            key={icon}
+            onClick={() => updateForm({ icon })}
+            className={cn(
+              'p-2 rounded-md border transition-colors',
+              form.icon === icon
+                ? 'bg-violet-500/10 border-violet-500/50 text-violet-400'
+                : 'border-zinc-800 text-zinc-400 hover:text-zinc-200'
+            )}
+            title={icon}
+          >
+            {ICONS[icon]}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-xs text-zinc-400 mb-1">System prompt</label>
+        <textarea
+          value={form.systemPrompt}
+          onChange={(e) => updateForm({ systemPrompt: e.target.value })}
+          placeholder="You are a senior engineer on our team. Replace console.* calls with our logger from @/lib/logger..."
+          className={cn(textareaClass, 'h-28')}
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-zinc-400 mb-1">
+          Template — use <code>{'{code}'}</code>, <code>{'{prompt}'}</code> and <code>{'{error}'}</code>
+        </label>
+        <textarea
+          value={form.template}
+          onChange={(e) => updateForm({ template: e.target.value })}
+          className={cn(textareaClass, 'h-20 font-mono')}
+        />
+      </div>
+
+      <div className="flex items-center gap-4 flex-wrap text-xs text-zinc-400">
+        <label className="flex items-center gap-1.5 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={form.requiresFile}
+            onChange={(e) => updateForm({ requiresFile: e.target.checked })}
+            className="accent-violet-500"
+          />
+          Requires a file
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={form.producesDiff}
+            onChange={(e) => updateForm({ producesDiff: e.target.checked })}
+            className="accent-violet-500"
+          />
+          Proposes file changes
+        </label>
+        <label className="flex items-center gap-1.5">
+          Temperature
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={form.temperature}
+            onChange={(e) => updateForm({ temperature: e.target.value })}
+            placeholder="default"
+            className="w-20 bg-zinc-900/50 border border-zinc-800 rounded-md px-2 py-1 text-zinc-100 focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+          />
+        </label>
+        {form.producesDiff && (
+          <label className="flex items-center gap-1.5">
+            Repair rounds
+            <input
+              type="number"
+              min={0}
+              max={3}
+              step={1}
+              value={form.repairRounds}
+              onChange={(e) => updateForm({ repairRounds: e.target.value })}
+              placeholder="default"
+              className="w-20 bg-zinc-900/50 border border-zinc-800 rounded-md px-2 py-1 text-zinc-100 focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+            />
+          </label>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => setEditing(null)} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? <Loader2 size={14} className="animate-spin" /> : 'Save command'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 rounded-lg bg-sky-500/10">
+            <Wand2 size={24} className="text-sky-400" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-zinc-100">Custom Commands</h2>
+            <p className="text-sm text-zinc-400">Your own prompts, one click away in the command panel</p>
+          </div>
+        </div>
+        {editing === null && (
+          <Button variant="outline" size="sm" onClick={() => startEditing(null)}>
+            <Plus size={14} />
+            <span className="ml-1">New command</span>
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-3 mt-6">
+        {editing === 'new' && renderForm()}
+
+        {commands.length === 0 && editing === null && (
+          <p className="text-sm text-zinc-500">
+            {isLoading ? 'Loading commands…' : 'No custom commands yet.'}
+          </p>
+        )}
+
+        {commands.map(command => (
+          editing === command.id ? (
+            <div key={command.id}>{renderForm()}</div>
+          ) : (
+            <div
+              key={command.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-lg bg-zinc-800/50"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <div className="p-2 rounded-lg bg-violet-500/10 text-violet-400">{ICONS[command.icon]}</div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-zinc-100 truncate">{command.name}</p>
+                  <p className="text-xs text-zinc-500 truncate">{command.description || command.template}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {command.producesDiff && <Badge size="sm" variant="info">Diff</Badge>}
+                {command.requiresFile && <Badge size="sm">File</Badge>}
+                <Button variant="ghost" size="sm" onClick={() => startEditing(command)} title="Edit">
+                  <Pencil size={14} />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(command)} title="Delete">
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            </div>
+          )
+        ))}
+      </div>
+    </Card>
+  );
+}
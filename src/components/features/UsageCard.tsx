@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BarChart3, Loader2, RefreshCw } from 'lucide-react';
+import { Button, Card, Badge } from '@/components/ui';
+import { formatDuration } from '@/lib/utils';
+import type { UsageSummary, UsageTotals } from '@/lib/usage';
+
+type Breakdown = 'byCommand' | 'byProvider' | 'byModel';
+
+const BREAKDOWNS: Array<{ id: Breakdown; label: string }> = [
+  { id: 'byCommand', label: 'Command' },
+  { id: 'byProvider', label: 'Provider' },
+  { id: 'byModel', label: 'Model' },
+];
+
+function formatCost(cost: number): string {
+  if (cost === 0) return '$0.00';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : tokens.toString();
+}
+
+async function fetchUsage(): Promise<UsageSummary | null> {
+  const response = await fetch('/api/usage');
+  const data = await response.json();
+  return data.success ? data.data : null;
+}
+
+/**
+ * Token usage and estimated AI spend for the signed-in user
+ */
+export function UsageCard() {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [breakdown, setBreakdown] = useState<Breakdown>('byCommand');
+
+  const loadUsage = () => {
+    setIsLoading(true);
+    fetchUsage()
+      .then(setSummary)
+      .catch(error => console.error('Failed to fetch usage:', error))
+      .finally(() => setIsLoading(false));
+  };
+
+  // Fetch usage on mount
+  useEffect(() => {
+    fetchUsage()
+      .then(setSummary)
+      .catch(error => console.error('Failed to fetch usage:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const rows = summary
+    ? Object.entries(summary[breakdown]).sort(([, a], [, b]) => b.cost - a.cost || b.totalTokens - a.totalTokens)
+    : [];
+
+  const renderStat = (label: string, value: string) => (
+    <div className="p-3 rounded-lg bg-zinc-800/50">
+      <p className="text-xs text-zinc-500">{label}</p>
+      <p className="text-lg font-semibold text-zinc-100">{value}</p>
+    </div>
+  );
+
+  const renderRow = (key: string, totals: UsageTotals) => (
+    <tr key={key} className="border-t border-zinc-800/50">
+      <td className="py-2 pr-2 text-zinc-300 truncate max-w-[200px]">{key}</td>
+      <td className="py-2 px-2 text-right text-zinc-400">{totals.requests}</td>
+      <td className="py-2 px-2 text-right text-zinc-400">
+        {formatTokens(totals.promptTokens)} / {formatTokens(totals.completionTokens)}
+      </td>
+      <td className="py-2 px-2 text-right text-zinc-400">{formatDuration(Math.round(totals.averageLatencyMs))}</td>
+      <td className="py-2 pl-2 text-right text-zinc-200">{formatCost(totals.cost)}</td>
+    </tr>
+  );
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 rounded-lg bg-emerald-500/10">
+            <BarChart3 size={24} className="text-emerald-400" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-zinc-100">Usage</h2>
+            <p className="text-sm text-zinc-400">Tokens and estimated cost of your AI commands</p>
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={loadUsage} disabled={isLoading}>
+          {isLoading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+        </Button>
+      </div>
+
+      {!summary || summary.totals.requests === 0 ? (
+        <p className="text-sm text-zinc-500 mt-6">
+          {isLoading ? 'Loading usage…' : 'No AI usage recorded yet. Run a command to get started.'}
+        </p>
+      ) : (
+        <div className="space-y-4 mt-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {renderStat('Requests', summary.totals.requests.toString())}
+            {renderStat('Prompt tokens', formatTokens(summary.totals.promptTokens))}
+            {renderStat('Completion tokens', formatTokens(summary.totals.completionTokens))}
+            {renderStat('Estimated cost', formatCost(summary.totals.cost))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            {BREAKDOWNS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setBreakdown(id)}
+                className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                  breakdown === id ? 'bg-violet-500/20 text-violet-300' : 'text-zinc-400 hover:text-zinc-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            {rows.length > 0 && <Badge size="sm">{rows.length}</Badge>}
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-zinc-500">
+                <th className="pb-2 pr-2 text-left font-medium">{BREAKDOWNS.find(b => b.id === breakdown)?.label}</th>
+                <th className="pb-2 px-2 text-right font-medium">Calls</th>
+                <th className="pb-2 px-2 text-right font-medium">In / Out</th>
+                <th className="pb-2 px-2 text-right font-medium">Avg latency</th>
+                <th className="pb-2 pl-2 text-right font-medium">Cost</th>
+              </tr>
+            </thead>
+            <tbody>{rows.map(([key, totals]) => renderRow(key, totals))}</tbody>
+          </table>
+
+          <p className="text-xs text-zinc-500">
+            Costs are estimates from list prices in <code>AI_USAGE_CONFIG</code>; self-hosted models count as free.
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,3 +1,5 @@
 export { RepositorySelector } from './RepositorySelector';
 export { LoginPage } from './LoginPage';
 export { CompactFileSelector } from './CompactFileSelector';
+export { UsageCard } from './UsageCard';
+export { CustomCommandsCard } from './CustomCommandsCard';
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Send, 
@@ -12,13 +12,27 @@ import {
   FileText,
   ChevronRight,
   Loader2,
-  Bot
+  Bot,
+  X,
+  MessagesSquare,
+  BookOpen,
+  Link2,
+  TextSelect,
+  Languages,
+  ArrowRight,
+  ShieldAlert,
+  Download,
+  Bug
 } from 'lucide-react';
 import { Button, Input, Card, Badge } from '@/components/ui';
-import { useCommandStore, useActivityStore, useAuthStore } from '@/stores';
+import { useCommandStore, useActivityStore, useAuthStore, usePreferencesStore, useCustomCommandStore, useAuditStore } from '@/stores';
 import { CompactFileSelector } from '@/components/features';
-import { Command } from '@/types';
+import { AgentStep, AuditSeverity, Command, CustomCommand, OutputLine, RepairRound, SecurityAudit, StackFrame } from '@/types';
 import { cn } from '@/lib/utils';
+import { describeSelection } from '@/lib/selection';
+import { languageFromPath, ProposedChange } from '@/lib/changes';
+import { listTranslationTargets, translatedPath } from '@/lib/translate';
+import { toSarif } from '@/lib/audit';
 
 const COMMANDS: Command[] = [
   { id: 'generate', name: 'Generate', description: 'Generate code from natural language', icon: 'sparkles', category: 'generate', requiresFile: false },
@@ -27,8 +41,21 @@ const COMMANDS: Command[] = [
   { id: 'test', name: 'Test', description: 'Generate unit tests for code', icon: 'test', category: 'test', requiresFile: true },
   { id: 'refactor', name: 'Refactor', description: 'Improve and optimize code', icon: 'code', category: 'refactor', requiresFile: true },
   { id: 'docs', name: 'Document', description: 'Generate documentation', icon: 'file', category: 'docs', requiresFile: false },
+  { id: 'translate', name: 'Translate', description: 'Convert a file to another language or framework', icon: 'languages', category: 'translate', requiresFile: true },
+  { id: 'audit', name: 'Audit', description: 'Scan for security vulnerabilities', icon: 'shield', category: 'audit', requiresFile: true },
 ];
 
+function toCommand(custom: CustomCommand): Command {
+  return {
+    id: custom.id,
+    name: custom.name,
+    description: custom.description || 'Custom command',
+    icon: custom.icon,
+    category: 'custom',
+    requiresFile: custom.requiresFile,
+  };
+}
+
 const iconMap = {
   sparkles: <Sparkles size={16} />,
   message: <MessageSquare size={16} />,
@@ -36,8 +63,157 @@ const iconMap = {
   test: <TestTube size={16} />,
   code: <Code size={16} />,
   file: <FileText size={16} />,
+  languages: <Languages size={16} />,
+  shield: <ShieldAlert size={16} />,
+};
+
+// Output console styling for audit findings by severity
+const AUDIT_LINE_TYPES: Record<AuditSeverity, OutputLine['type']> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'info',
 };
 
+/**
+ * Save an audit as a SARIF file for GitHub code scanning
+ */
+function downloadSarif(audit: SecurityAudit) {
+  const blob = new Blob([JSON.stringify(toSarif(audit), null, 2)], { type: 'application/sarif+json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${audit.repository.replace('/', '-')}-audit.sarif`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Conventions files checked in order; the first one found is used
+const REPO_INSTRUCTION_PATHS = ['.github/copilot-instructions.md', '.copilot-studio/instructions.md'];
+
+interface RepoInstructions {
+  /** Repository and branch the file was loaded for */
+  repoKey: string;
+  path: string;
+  content: string;
+}
+
+/**
+ * Load the first conventions file the repository has, through the contents route
+ */
+async function fetchRepoInstructions(owner: string, repo: string, ref: string): Promise<Omit<RepoInstructions, 'repoKey'> | null> {
+  for (const path of REPO_INSTRUCTION_PATHS) {
+    const response = await fetch(`/api/repos/${owner}/${repo}/contents?path=${encodeURIComponent(path)}&ref=${ref}`);
+    if (!response.ok) continue;
+    const data = await response.json();
+    if (data.success && data.data.type === 'file' && data.data.content.trim()) {
+      return { path, content: data.data.content };
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the `data:` events of a server-sent event stream as they arrive
+ */
+async function readEvents(response: Response, onEvent: (event: Record<string, unknown>) => void) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    for (const event of events) {
+      if (event.startsWith('data: ')) onEvent(JSON.parse(event.slice(6)));
+    }
+  }
+}
+
+/**
+ * One output line per proposed file the type check found new errors in
+ */
+function reportTypeErrors(executionId: string, changes: ProposedChange[], appendOutput: (id: string, content: string, type: OutputLine['type']) => void) {
+  for (const change of changes) {
+    const diagnostics = change.diagnostics ?? [];
+    if (diagnostics.length === 0) continue;
+    const first = diagnostics[0];
+    appendOutput(
+      executionId,
+      `🧪 ${change.newPath ?? change.file}: ${diagnostics.length} new type error${diagnostics.length === 1 ? '' : 's'} (line ${first.line}: ${first.message.split('\n')[0]})`,
+      'warning'
+    );
+  }
+}
+
+/**
+ * One output line per round the model was sent its failing changes back
+ */
+function reportRepairs(executionId: string, repairs: RepairRound[], appendOutput: (id: string, content: string, type: OutputLine['type']) => void) {
+  for (const repair of repairs) {
+    const outcome = !repair.kept
+      ? `no improvement${repair.remaining ? ` (${repair.remaining})` : ''}, kept the previous answer`
+      : repair.remaining ? `still ${repair.remaining}` : 'fixed';
+    appendOutput(executionId, `🔁 Repair round ${repair.round}: ${repair.problems} → ${outcome}`, repair.kept && !repair.remaining ? 'success' : 'warning');
+  }
+}
+
+// Final event of an agent run
+interface AgentEnd {
+  success: boolean;
+  error?: string;
+  output?: string;
+  changes?: ProposedChange[];
+  steps?: number;
+  tokens?: number;
+}
+
+interface TraceFile {
+  name: string;
+  path: string;
+  content: string;
+  sha?: string;
+}
+
+interface ResolvedTrace {
+  /** Repository, branch and trace text the frames were resolved for */
+  traceKey: string;
+  message: string;
+  /** Application frames, innermost first; `path` is set when it is in the repository */
+  frames: StackFrame[];
+  /** Frames in dependencies or runtime internals */
+  skipped: number;
+  /** Files the frames resolved to, innermost first */
+  files: TraceFile[];
+}
+
+/**
+ * Load a file a stack frame resolved to, through the contents route
+ */
+async function fetchTraceFile(owner: string, repo: string, ref: string, path: string): Promise<TraceFile | null> {
+  const response = await fetch(`/api/repos/${owner}/${repo}/contents?path=${encodeURIComponent(path)}&ref=${ref}`);
+  if (!response.ok) return null;
+  const data = await response.json();
+  return data.success && data.data.type === 'file'
+    ? { name: data.data.name, path: data.data.path, content: data.data.content, sha: data.data.sha }
+    : null;
+}
+
+interface ImportedFilePreview {
+  path: string;
+  specifier: string;
+  names: string[];
+  tokens: number;
+}
+
+interface ImportPreview {
+  /** File (with repository and branch) the imports were resolved for */
+  fileKey: string;
+  imports: ImportedFilePreview[];
+}
+
 interface AIProviderOption {
   id: string;
   name: string;
@@ -45,14 +221,41 @@ interface AIProviderOption {
   models: string[];
 }
 
+interface ActiveThread {
+  id: string;
+  filePath: string | null;
+  commandId: string;
+  turns: number;
+}
+
 export function CommandPanel() {
-  const [selectedCommand, setSelectedCommand] = useState<Command | null>(COMMANDS[0]);
+  const [selectedCommandId, setSelectedCommandId] = useState(COMMANDS[0].id);
   const [inputValue, setInputValue] = useState('');
+  const [bypassCache, setBypassCache] = useState(false);
+  const [agentMode, setAgentMode] = useState(false);
+  const [thread, setThread] = useState<ActiveThread | null>(null);
+  const [continueThread, setContinueThread] = useState(false);
+  const [repoInstructions, setRepoInstructions] = useState<RepoInstructions | null>(null);
+  const [useRepoInstructions, setUseRepoInstructions] = useState(true);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [includeImports, setIncludeImports] = useState(true);
+  const [excludedImports, setExcludedImports] = useState<string[]>([]);
+  const [translateTargetId, setTranslateTargetId] = useState<string | null>(null);
+  const [auditRepository, setAuditRepository] = useState(false);
+  const [errorInput, setErrorInput] = useState('');
+  const [resolvedTrace, setResolvedTrace] = useState<ResolvedTrace | null>(null);
+  const [isResolvingTrace, setIsResolvingTrace] = useState(false);
   const [providers, setProviders] = useState<AIProviderOption[]>([]);
-  const [selectedProvider, setSelectedProvider] = useState<string>('');
-  const { startExecution, appendOutput, completeExecution, isExecuting, addDiffChange } = useCommandStore();
+  const { commandModels, setCommandModel } = usePreferencesStore();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { startExecution, appendOutput, completeExecution, setExecutionThread, isExecuting, addDiffChange } = useCommandStore();
   const { addActivity } = useActivityStore();
-  const { selectedFile, selectedRepository } = useAuthStore();
+  const { selectedFile, selectedRange, selectedRepository, selectedBranch } = useAuthStore();
+  const { commands: customCommands, setCommands: setCustomCommands } = useCustomCommandStore();
+  const { audit, setAudit } = useAuditStore();
+  const commands = [...COMMANDS, ...customCommands.map(toCommand)];
+  // A deleted custom command falls back to the first built-in one
+  const selectedCommand = commands.find(c => c.id === selectedCommandId) ?? COMMANDS[0];
 
   // Fetch available AI providers on mount
   useEffect(() => {
@@ -61,17 +264,396 @@ export function CommandPanel() {
       .then(data => {
         if (data.success && data.data.length > 0) {
           setProviders(data.data);
-          setSelectedProvider(data.data[0].id);
         }
       })
       .catch(() => {});
   }, []);
 
+  // Fetch the user's custom commands on mount
+  useEffect(() => {
+    fetch('/api/copilot/commands')
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) {
+          setCustomCommands(data.data);
+        }
+      })
+      .catch(() => {});
+  }, [setCustomCommands]);
+
+  // Look for the repository's conventions file whenever the repo or branch changes
+  const repoOwner = selectedRepository?.owner;
+  const repoName = selectedRepository?.name;
+  const repoRef = selectedBranch || 'main';
+  const repoKey = repoOwner && repoName ? `${repoOwner}/${repoName}@${repoRef}` : null;
+  useEffect(() => {
+    if (!repoOwner || !repoName) return;
+    let cancelled = false;
+    fetchRepoInstructions(repoOwner, repoName, repoRef)
+      .then(found => {
+        if (!cancelled) {
+          setRepoInstructions(found ? { repoKey: `${repoOwner}/${repoName}@${repoRef}`, ...found } : null);
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [repoOwner, repoName, repoRef]);
+
+  // Instructions loaded for another repo or branch don't apply
+  const activeInstructions = repoInstructions && repoInstructions.repoKey === repoKey ? repoInstructions : null;
+
+  // Resolve the selected file's local imports so the user can see what gets attached
+  const selectedPath = selectedFile?.path;
+  const fileKey = repoKey && selectedPath ? `${repoKey}:${selectedPath}` : null;
+  useEffect(() => {
+    if (!repoOwner || !repoName || !selectedPath) return;
+    let cancelled = false;
+    fetch(`/api/repos/${repoOwner}/${repoName}/imports?path=${encodeURIComponent(selectedPath)}&ref=${repoRef}`)
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled && data.success) {
+          setImportPreview({ fileKey: `${repoOwner}/${repoName}@${repoRef}:${selectedPath}`, imports: data.data.imports });
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [repoOwner, repoName, repoRef, selectedPath]);
+
+  const activeImports = importPreview && importPreview.fileKey === fileKey ? importPreview.imports : [];
+
+  const toggleImport = (path: string, included: boolean) => {
+    setExcludedImports(prev => included ? prev.filter(p => p !== path) : [...prev, path]);
+  };
+
+  // Provider + model remembered for the selected command, falling back to the first provider's default
+  const preference = selectedCommand ? commandModels[selectedCommand.id] : undefined;
+  const providerOption = providers.find(p => p.id === preference?.provider) || providers[0];
+  const selectedProvider = providerOption?.id || '';
+  const selectedModel = preference && providerOption?.models.includes(preference.model)
+    ? preference.model
+    : providerOption?.defaultModel || '';
+
+  // Fix (and custom commands whose template has `{error}`) take a pasted error or stack trace
+  const usesError = selectedCommand.id === 'fix'
+    || !!customCommands.find(c => c.id === selectedCommand.id)?.template.includes('{error}');
+  const errorText = usesError ? errorInput.trim() : '';
+  const traceKey = repoKey && errorText ? `${repoKey}:${errorText}` : null;
+  const activeTrace = resolvedTrace && resolvedTrace.traceKey === traceKey ? resolvedTrace : null;
+  // Without a selected file, the command runs on the innermost frame's file
+  const targetFile = selectedFile ?? activeTrace?.files[0] ?? null;
+
+  // The last thread can be continued by the same command on the same file,
+  // and only when the user asks to; anything else starts a new thread
+  const availableThread = thread && thread.filePath === (targetFile?.path ?? null) && thread.commandId === selectedCommand.id
+    ? thread
+    : null;
+  const followUpThread = continueThread ? availableThread : null;
+
+  // Language from the file extension, and what translate can turn the file into
+  const fileLanguage = selectedFile ? languageFromPath(selectedFile.name) : null;
+  const isTranslate = selectedCommand.id === 'translate';
+  const translationTargets = selectedFile ? listTranslationTargets(selectedFile.path) : [];
+  const translationTarget = translationTargets.find(t => t.id === translateTargetId) ?? translationTargets[0] ?? null;
+
+  // Audits cover the selected file, or the whole repository without needing one
+  const isAudit = selectedCommand.id === 'audit';
+  const needsFile = !!selectedCommand.requiresFile && !(isAudit && auditRepository);
+  const activeAudit = audit && selectedRepository && audit.repository === `${selectedRepository.owner}/${selectedRepository.name}` ? audit : null;
+
+  // Translate and audit run without a request; the target or scope says what to do
+  const commandInput = inputValue.trim()
+    || (isTranslate && translationTarget ? `Convert to ${translationTarget.label}.` : '')
+    || (isAudit ? `Audit ${auditRepository ? 'the repository' : selectedFile?.name ?? 'the file'} for security issues.` : '')
+    || (errorText ? 'Find and fix the cause of this error.' : '');
+
+  // Agent mode explores the repository itself; translate and audit have their own flows
+  const canUseAgent = !!selectedRepository && !isTranslate && !isAudit;
+  const useAgent = agentMode && canUseAgent;
+
+  const handleSelectModel = (providerId: string, model: string) => {
+    if (selectedCommand) {
+      setCommandModel(selectedCommand.id, providerId, model);
+    }
+  };
+
+  const handleResolveTrace = async () => {
+    if (!selectedRepository || !traceKey || isResolvingTrace) return;
+    const { owner, name } = selectedRepository;
+    const ref = selectedBranch || selectedRepository.defaultBranch || 'main';
+
+    setIsResolvingTrace(true);
+    try {
+      const response = await fetch(`/api/repos/${owner}/${name}/stacktrace`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trace: errorText, ref }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        appendOutput('validation-' + Date.now(), `⚠️ Could not resolve the stack trace: ${data.error || 'Unknown error'}`, 'warning');
+        return;
+      }
+
+      const files = await Promise.all(
+        (data.data.files as string[]).map(path => fetchTraceFile(owner, name, ref, path).catch(() => null))
+      );
+      setResolvedTrace({
+        traceKey,
+        message: data.data.message,
+        frames: data.data.frames,
+        skipped: data.data.skipped,
+        files: files.filter((file): file is TraceFile => file !== null),
+      });
+    } catch (error) {
+      appendOutput('validation-' + Date.now(), `⚠️ Could not resolve the stack trace: ${error instanceof Error ? error.message : 'Unknown error'}`, 'warning');
+    } finally {
+      setIsResolvingTrace(false);
+    }
+  };
+
+  const handleAudit = async () => {
+    if (!selectedRepository) {
+      const tempId = 'validation-' + Date.now();
+      appendOutput(tempId, '⚠️ Select a repository to audit.', 'warning');
+      return;
+    }
+
+    const executionId = startExecution(selectedCommand.id, selectedCommand.name, commandInput);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    addActivity({
+      type: 'command',
+      title: 'Running security audit',
+      description: auditRepository ? `${selectedRepository.owner}/${selectedRepository.name}` : selectedFile?.path || '',
+    });
+
+    try {
+      const response = await fetch('/api/copilot/audit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: abortController.signal,
+        body: JSON.stringify({
+          repository: `${selectedRepository.owner}/${selectedRepository.name}`,
+          ref: selectedBranch || selectedRepository.defaultBranch || 'main',
+          scope: auditRepository ? 'repository' : 'file',
+          file: selectedFile?.path || null,
+          fileContent: selectedFile?.content ?? null,
+          input: inputValue.trim(),
+          instructions: activeInstructions && useRepoInstructions
+            ? { path: activeInstructions.path, content: activeInstructions.content }
+            : null,
+          provider: selectedProvider || undefined,
+          model: selectedModel || undefined,
+          bypassCache,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        const result: SecurityAudit = data.data;
+        setAudit(result);
+
+        for (const attempt of data.data.failover || []) {
+          appendOutput(executionId, `⚠️ ${attempt.provider} (${attempt.model}) unavailable: ${attempt.error}`, 'warning');
+        }
+        if (data.data.cached) {
+          appendOutput(executionId, `⚡ Served from cache (${data.data.provider}, ${data.data.model})`, 'info');
+        }
+        for (const warning of data.data.warnings || []) {
+          appendOutput(executionId, `⚠️ ${warning}`, 'warning');
+        }
+
+        appendOutput(executionId, `Audited ${result.files.length} file${result.files.length === 1 ? '' : 's'}`, 'info');
+        if (result.summary) appendOutput(executionId, result.summary, 'info');
+        for (const finding of result.findings) {
+          appendOutput(
+            executionId,
+            `🛡️ [${finding.severity.toUpperCase()}] ${finding.cwe} ${finding.title} — ${finding.file}:${finding.startLine}${finding.endLine !== finding.startLine ? `-${finding.endLine}` : ''}`,
+            AUDIT_LINE_TYPES[finding.severity]
+          );
+          appendOutput(executionId, `   ${finding.message}${finding.patched ? ' (patch in Code Changes)' : ''}`, 'info');
+        }
+
+        // One diff per finding, so each fix is reviewed and pushed on its own
+        for (const change of data.data.changes || []) {
+          addDiffChange({
+            filename: change.filename,
+            path: change.file,
+            operation: change.operation,
+            language: change.language,
+            before: change.before,
+            after: change.after,
+            additions: change.additions,
+            deletions: change.deletions,
+            applied: false,
+            executionId,
+          });
+        }
+
+        appendOutput(executionId, '', 'info');
+        appendOutput(executionId, `✓ Audit completed: ${result.findings.length} finding${result.findings.length === 1 ? '' : 's'}`, 'success');
+        completeExecution(executionId, 'success');
+
+        addActivity({
+          type: 'success',
+          title: 'Audit completed',
+          description: `${result.findings.length} finding${result.findings.length === 1 ? '' : 's'} in ${result.files.length} file${result.files.length === 1 ? '' : 's'}`,
+        });
+      } else {
+        appendOutput(executionId, `✗ Error: ${data.error || 'Audit failed'}`, 'error');
+        completeExecution(executionId, 'error');
+
+        addActivity({
+          type: 'error',
+          title: 'Audit failed',
+          description: data.error || 'Unknown error occurred',
+        });
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        appendOutput(executionId, '✗ Audit cancelled', 'warning');
+        completeExecution(executionId, 'cancelled');
+      } else {
+        appendOutput(executionId, `✗ Network error: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+        completeExecution(executionId, 'error');
+      }
+    } finally {
+      abortControllerRef.current = null;
+    }
+
+    setInputValue('');
+  };
+
+  const handleAgent = async () => {
+    if (!selectedRepository) return;
+
+    const executionId = startExecution(selectedCommand.id, `${selectedCommand.name} (agent)`, commandInput);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    addActivity({
+      type: 'command',
+      title: `Running ${selectedCommand.name} agent`,
+      description: commandInput,
+    });
+
+    try {
+      const response = await fetch('/api/copilot/agent', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: abortController.signal,
+        body: JSON.stringify({
+          command: selectedCommand.id,
+          input: commandInput,
+          provider: selectedProvider || undefined,
+          model: selectedModel || undefined,
+          context: {
+            file: targetFile?.path || null,
+            fileContent: targetFile?.content ?? null,
+            error: errorText || undefined,
+            instructions: activeInstructions && useRepoInstructions
+              ? { path: activeInstructions.path, content: activeInstructions.content }
+              : null,
+            repository: `${selectedRepository.owner}/${selectedRepository.name}`,
+            ref: selectedBranch || selectedRepository.defaultBranch || 'main',
+          },
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Agent run failed');
+      }
+
+      let result: AgentEnd | null = null;
+      await readEvents(response, event => {
+        if (event.type === 'warning') {
+          appendOutput(executionId, `⚠️ ${event.content}`, 'warning');
+        } else if (event.type === 'step') {
+          const step = event.step as AgentStep;
+          if (step.reasoning) appendOutput(executionId, `🤔 ${step.reasoning}`, 'ai');
+          if (step.tool && step.tool !== 'finish') {
+            appendOutput(executionId, `🔧 ${step.index}. ${step.call}`, 'command');
+            appendOutput(executionId, `   ↳ ${step.result}`, step.failed ? 'error' : 'info');
+          }
+        } else if (event.type === 'end') {
+          result = event as unknown as AgentEnd;
+        }
+      });
+
+      const end = result as AgentEnd | null;
+      if (!end?.success) {
+        throw new Error(end?.error || 'The agent stopped without a result');
+      }
+
+      if (end.output) {
+        for (const line of end.output.split('\n')) {
+          if (line.trim()) appendOutput(executionId, line, 'info');
+        }
+      }
+
+      const changes = end.changes || [];
+      reportTypeErrors(executionId, changes, appendOutput);
+      for (const change of changes) {
+        addDiffChange({
+          filename: change.filename,
+          path: change.file,
+          operation: change.operation,
+          language: change.language,
+          before: change.before,
+          after: change.after,
+          additions: change.additions,
+          deletions: change.deletions,
+          applied: false,
+          executionId,
+          diagnostics: change.diagnostics,
+        });
+      }
+
+      appendOutput(executionId, '', 'info');
+      appendOutput(
+        executionId,
+        `✓ Agent finished in ${end.steps} step${end.steps === 1 ? '' : 's'} (${(end.tokens ?? 0).toLocaleString()} tokens, ${changes.length} changed file${changes.length === 1 ? '' : 's'})`,
+        'success'
+      );
+      completeExecution(executionId, 'success');
+
+      addActivity({
+        type: 'success',
+        title: 'Agent completed',
+        description: `${selectedCommand.name} changed ${changes.length} file${changes.length === 1 ? '' : 's'}`,
+      });
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        appendOutput(executionId, `✗ ${selectedCommand.name} agent cancelled`, 'warning');
+        completeExecution(executionId, 'cancelled');
+      } else {
+        appendOutput(executionId, `✗ Error: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+        completeExecution(executionId, 'error');
+
+        addActivity({
+          type: 'error',
+          title: 'Agent failed',
+          description: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
+    }
+
+    setInputValue('');
+  };
+
   const handleExecute = async () => {
-    if (!selectedCommand || !inputValue.trim() || isExecuting) return;
+    if (!selectedCommand || !commandInput || isExecuting) return;
 
     // Check if command requires a file but none is selected
-    if (selectedCommand.requiresFile && !selectedFile) {
+    if (needsFile && !targetFile) {
       const tempId = 'validation-' + Date.now();
       appendOutput(tempId, '⚠️ This command requires a file to be selected. Please select a file from the Context section above.', 'warning');
       addActivity({
@@ -82,14 +664,42 @@ export function CommandPanel() {
       return;
     }
 
-    const executionId = startExecution(selectedCommand.id, selectedCommand.name, inputValue);
+    if (isAudit) {
+      await handleAudit();
+      return;
+    }
+
+    if (useAgent) {
+      await handleAgent();
+      return;
+    }
+
+    if (isTranslate && selectedFile && !translationTarget) {
+      const tempId = 'validation-' + Date.now();
+      appendOutput(tempId, `⚠️ No translation target applies to ${selectedFile.name}.`, 'warning');
+      return;
+    }
+
+    const executionId = startExecution(selectedCommand.id, selectedCommand.name, commandInput);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
     addActivity({
       type: 'command',
       title: `Executing ${selectedCommand.name}`,
-      description: inputValue,
+      description: commandInput,
     });
 
+    // Mark where the trace points, so the output shows what the fix was based on
+    if (activeTrace) {
+      const inRepo = activeTrace.frames.filter(frame => frame.path);
+      appendOutput(
+        executionId,
+        `🐞 Stack trace: ${inRepo.length} of ${activeTrace.frames.length} frame${activeTrace.frames.length === 1 ? '' : 's'} in the repository${inRepo.length > 0 ? ` (failing at ${inRepo[0].path}:${inRepo[0].line})` : ''}`,
+        'info'
+      );
+    }
+
     try {
       // Call the actual backend API
       const response = await fetch('/api/copilot/execute', {
@@ -97,16 +707,32 @@ export function CommandPanel() {
         headers: {
           'Content-Type': 'application/json',
         },
+        signal: abortController.signal,
         body: JSON.stringify({
-          command: selectedCommand.category,
-          input: inputValue,
+          command: selectedCommand.id,
+          input: commandInput,
           provider: selectedProvider || undefined,
+          model: selectedModel || undefined,
+          bypassCache,
+          threadId: followUpThread?.id,
           context: {
-            language: selectedFile?.name?.split('.').pop() || 'typescript',
-            file: selectedFile?.path || null,
-            fileName: selectedFile?.name || null,
-            fileContent: selectedFile?.content || null,
-            repository: selectedRepository ? `${selectedRepository.owner}/${selectedRepository.name}` : null
+            language: targetFile ? languageFromPath(targetFile.name) : 'typescript',
+            file: targetFile?.path || null,
+            fileName: targetFile?.name || null,
+            fileContent: targetFile?.content || null,
+            selection: selectedFile ? selectedRange : null,
+            error: errorText || undefined,
+            traceFiles: activeTrace
+              ? Object.fromEntries(activeTrace.files.filter(file => file.path !== targetFile?.path).map(file => [file.path, file.content]))
+              : undefined,
+            instructions: activeInstructions && useRepoInstructions
+              ? { path: activeInstructions.path, content: activeInstructions.content }
+              : null,
+            includeImports,
+            excludedImports,
+            target: isTranslate ? translationTarget?.id : undefined,
+            repository: selectedRepository ? `${selectedRepository.owner}/${selectedRepository.name}` : null,
+            ref: selectedBranch || selectedRepository?.defaultBranch || 'main'
           }
         }),
       });
@@ -114,12 +740,49 @@ export function CommandPanel() {
       const data = await response.json();
 
       if (response.ok && data.success) {
+        if (data.data.threadId) {
+          setExecutionThread(executionId, data.data.threadId, data.data.turn);
+          setThread({ id: data.data.threadId, filePath: targetFile?.path ?? null, commandId: selectedCommand.id, turns: data.data.turn });
+          // A fresh thread waits for the user to ask before it is continued
+          setContinueThread(Boolean(followUpThread));
+        }
+
+        // Report providers that failed before another one served the request
+        if (data.data.failover?.length > 0) {
+          for (const attempt of data.data.failover) {
+            appendOutput(executionId, `⚠️ ${attempt.provider} (${attempt.model}) unavailable: ${attempt.error}`, 'warning');
+          }
+          appendOutput(executionId, `↪ Served by ${data.data.provider} (${data.data.model})`, 'warning');
+        }
+
+        if (data.data.cached) {
+          appendOutput(executionId, `⚡ Served from cache (${data.data.provider}, ${data.data.model})`, 'info');
+        }
+
+        // Cite the repository code that was attached as context
+        if (data.data.related?.length > 0) {
+          const citations = data.data.related.map((chunk: { citation: string }) => chunk.citation);
+          appendOutput(executionId, `📎 Related code: ${citations.join(', ')}`, 'info');
+        }
+
+        if (data.data.imports?.length > 0) {
+          appendOutput(executionId, `🔗 Imported declarations: ${data.data.imports.join(', ')}`, 'info');
+        }
+
+        // Surface context trimming and similar notes before the output
+        for (const warning of data.data.warnings || []) {
+          appendOutput(executionId, `⚠️ ${warning}`, 'warning');
+        }
+
+        reportRepairs(executionId, data.data.repairs || [], appendOutput);
+
         // Stream the output
         if (data.data.output) {
           const lines = data.data.output.split('\n');
           for (const line of lines) {
             if (line.trim()) {
               await new Promise(resolve => setTimeout(resolve, 50));
+              abortController.signal.throwIfAborted();
               appendOutput(executionId, line, 'info');
             }
           }
@@ -127,6 +790,7 @@ export function CommandPanel() {
 
         // Add diff changes if any
         if (data.data.changes && data.data.changes.length > 0) {
+          reportTypeErrors(executionId, data.data.changes, appendOutput);
           for (const change of data.data.changes) {
             const before = change.before || '';
             const after = change.after || '';
@@ -136,14 +800,18 @@ export function CommandPanel() {
             const deletions = change.deletions || beforeLines.filter((line: string, i: number) => !afterLines[i] || line !== afterLines[i]).length;
             
             addDiffChange({
-              filename: change.filename || change.file || selectedFile?.name || 'untitled.ts',
-              language: change.language || selectedFile?.name?.split('.').pop() || 'typescript',
+              filename: change.filename || change.file || targetFile?.name || 'untitled.ts',
+              path: change.file || targetFile?.path,
+              operation: change.operation || 'modify',
+              newPath: change.newPath,
+              language: change.language || targetFile?.name?.split('.').pop() || 'typescript',
               before: before,
               after: after,
               additions: additions,
               deletions: deletions,
               applied: false,
               executionId: executionId,
+              diagnostics: change.diagnostics,
             });
           }
         }
@@ -158,6 +826,11 @@ export function CommandPanel() {
           description: `${selectedCommand.name} finished successfully`,
         });
       } else {
+        // The server forgot the thread (expired or restarted); the next run starts fresh
+        if (response.status === 404 && followUpThread) {
+          setThread(null);
+          setContinueThread(false);
+        }
         appendOutput(executionId, `✗ Error: ${data.error || 'Command failed'}`, 'error');
         completeExecution(executionId, 'error');
         
@@ -168,19 +841,36 @@ export function CommandPanel() {
         });
       }
     } catch (error) {
-      appendOutput(executionId, `✗ Network error: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
-      completeExecution(executionId, 'error');
-      
-      addActivity({
-        type: 'error',
-        title: 'Network error',
-        description: 'Failed to connect to server',
-      });
+      if (abortController.signal.aborted) {
+        appendOutput(executionId, `✗ ${selectedCommand.name} cancelled`, 'warning');
+        completeExecution(executionId, 'cancelled');
+
+        addActivity({
+          type: 'command',
+          title: 'Command cancelled',
+          description: `${selectedCommand.name} was cancelled`,
+        });
+      } else {
+        appendOutput(executionId, `✗ Network error: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+        completeExecution(executionId, 'error');
+
+        addActivity({
+          type: 'error',
+          title: 'Network error',
+          description: 'Failed to connect to server',
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
     }
 
     setInputValue('');
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -195,12 +885,12 @@ export function CommandPanel() {
       <div className="pb-4 border-b border-zinc-800">
         <h2 className="text-sm font-semibold text-zinc-100 mb-3">AI Commands</h2>
         <div className="grid grid-cols-3 gap-2">
-          {COMMANDS.map((cmd) => (
+          {commands.map((cmd) => (
             <motion.button
               key={cmd.id}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
-              onClick={() => setSelectedCommand(cmd)}
+              onClick={() => setSelectedCommandId(cmd.id)}
               className={cn(
                 'flex flex-col items-center gap-1.5 p-3 rounded-lg border transition-all duration-200',
                 selectedCommand?.id === cmd.id
@@ -225,7 +915,7 @@ export function CommandPanel() {
             <div>
               <h3 className="text-sm font-semibold text-zinc-100">{selectedCommand.name}</h3>
               <p className="text-xs text-zinc-500">{selectedCommand.description}</p>
-              {selectedCommand.requiresFile && (
+              {needsFile && (
                 <p className="text-xs text-amber-400 mt-1 flex items-center gap-1">
                   <FileText size={10} />
                   File selection required
@@ -233,6 +923,110 @@ export function CommandPanel() {
               )}
             </div>
           </div>
+          {isTranslate && selectedFile && (
+            translationTargets.length > 0 && translationTarget ? (
+              <div className="mt-3 space-y-2">
+                <select
+                  value={translationTarget.id}
+                  onChange={(e) => setTranslateTargetId(e.target.value)}
+                  className="w-full bg-zinc-900/50 border border-zinc-800 rounded-lg px-3 py-2 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500 transition-all"
+                  title="Language or framework to translate to"
+                >
+                  {translationTargets.map((target) => (
+                    <option key={target.id} value={target.id}>{target.label}</option>
+                  ))}
+                </select>
+                <p className="flex items-center gap-1.5 text-xs text-zinc-500 min-w-0" title="The translation is proposed as a new file; the source stays as it is">
+                  <span className="truncate">{selectedFile.path}</span>
+                  <ArrowRight size={10} className="shrink-0" />
+                  <span className="truncate text-emerald-400">{translatedPath(selectedFile.path, translationTarget)}</span>
+                </p>
+              </div>
+            ) : (
+              <p className="mt-3 text-xs text-zinc-500">No translation targets for {fileLanguage?.toUpperCase()} files.</p>
+            )
+          )}
+          {isAudit && (
+            <div className="mt-3 flex items-center justify-between gap-2 flex-wrap">
+              <label
+                className="flex items-center gap-1.5 text-xs text-zinc-400 cursor-pointer select-none"
+                title="Audit the repository's source files, most security-relevant first, instead of just the selected file"
+              >
+                <input
+                  type="checkbox"
+                  checked={auditRepository}
+                  onChange={(e) => setAuditRepository(e.target.checked)}
+                  className="accent-violet-500"
+                />
+                Whole repository
+              </label>
+              {activeAudit && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadSarif(activeAudit)}
+                  title="Download the last audit as SARIF for GitHub code scanning"
+                >
+                  <Download size={12} />
+                  <span className="ml-1">Export SARIF · {activeAudit.findings.length}</span>
+                </Button>
+              )}
+            </div>
+          )}
+          {usesError && (
+            <div className="mt-3 space-y-2">
+              <textarea
+                value={errorInput}
+                onChange={(e) => setErrorInput(e.target.value)}
+                placeholder="Paste an error message or stack trace (Node, browser, Python, Java)..."
+                className="w-full h-20 bg-zinc-900/50 border border-zinc-800 rounded-lg p-2 font-mono text-[11px] text-zinc-300 placeholder:text-zinc-500 resize-y focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500 transition-all"
+              />
+              {errorText && selectedRepository && (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-zinc-500 truncate">
+                    {activeTrace
+                      ? `${activeTrace.files.length} file${activeTrace.files.length === 1 ? '' : 's'} from the trace attached`
+                      : 'Resolve frames to attach the files they point at'}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleResolveTrace}
+                    disabled={isResolvingTrace || !!activeTrace}
+                    title="Match the trace's frames to files on this branch and load them"
+                  >
+                    {isResolvingTrace ? <Loader2 size={12} className="animate-spin" /> : <Bug size={12} />}
+                    <span className="ml-1">{activeTrace ? 'Resolved' : 'Resolve frames'}</span>
+                  </Button>
+                </div>
+              )}
+              {activeTrace && (
+                <div className="px-3 py-2 rounded-lg bg-zinc-900/50 border border-zinc-800 text-xs space-y-1">
+                  {activeTrace.message && (
+                    <p className="text-red-400 truncate" title={activeTrace.message}>{activeTrace.message}</p>
+                  )}
+                  {activeTrace.frames.length === 0 && (
+                    <p className="text-zinc-500">No application frames found; the error is sent as text.</p>
+                  )}
+                  {activeTrace.frames.map((frame, i) => (
+                    <p
+                      key={`${frame.file}:${frame.line}:${i}`}
+                      className={cn(
+                        'font-mono truncate',
+                        frame.path === targetFile?.path ? 'text-amber-300' : frame.path ? 'text-emerald-400' : 'text-zinc-600'
+                      )}
+                      title={frame.path ? `${frame.file} → ${frame.path}` : `${frame.file} (not found in the repository)`}
+                    >
+                      #{i + 1} {frame.path ?? frame.file}:{frame.line}{frame.fn ? ` in ${frame.fn}` : ''}
+                    </p>
+                  ))}
+                  {activeTrace.skipped > 0 && (
+                    <p className="text-zinc-600">{activeTrace.skipped} dependency or runtime frame{activeTrace.skipped === 1 ? '' : 's'} hidden</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -247,7 +1041,7 @@ export function CommandPanel() {
             {providers.map((p) => (
               <button
                 key={p.id}
-                onClick={() => setSelectedProvider(p.id)}
+                onClick={() => handleSelectModel(p.id, p.defaultModel)}
                 className={cn(
                   'flex-1 px-3 py-2 rounded-lg border text-xs font-medium transition-all duration-200',
                   selectedProvider === p.id
@@ -257,11 +1051,24 @@ export function CommandPanel() {
               >
                 <div className="text-center">
                   <div>{p.name}</div>
-                  <div className="text-[10px] text-zinc-500 mt-0.5">{p.defaultModel}</div>
+                  <div className="text-[10px] text-zinc-500 mt-0.5">
+                    {selectedProvider === p.id ? selectedModel : p.defaultModel}
+                  </div>
                 </div>
               </button>
             ))}
           </div>
+          {providerOption && providerOption.models.length > 1 && (
+            <select
+              value={selectedModel}
+              onChange={(e) => handleSelectModel(providerOption.id, e.target.value)}
+              className="mt-2 w-full bg-zinc-900/50 border border-zinc-800 rounded-lg px-3 py-2 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500 transition-all"
+            >
+              {providerOption.models.map((m) => (
+                <option key={m} value={m}>{m}</option>
+              ))}
+            </select>
+          )}
         </div>
       )}
 
@@ -269,22 +1076,118 @@ export function CommandPanel() {
       <div className="py-4 border-b border-zinc-800">
         <div className="mb-2 flex items-center justify-between">
           <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">Context</h3>
-          {selectedCommand?.requiresFile && !selectedFile && (
+          {needsFile && !targetFile && (
             <Badge variant="warning" size="sm">Required</Badge>
           )}
         </div>
         <CompactFileSelector />
+        {activeInstructions && (
+          <div className="mt-2 flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-zinc-900/50 border border-zinc-800 text-xs">
+            <span
+              className={cn('flex items-center gap-2 truncate', useRepoInstructions ? 'text-emerald-400' : 'text-zinc-500')}
+              title={activeInstructions.path}
+            >
+              <BookOpen size={12} className="shrink-0" />
+              <span className="truncate">
+                Repo instructions {useRepoInstructions ? 'active' : 'off'} · {activeInstructions.path}
+              </span>
+            </span>
+            <label
+              className="flex items-center gap-1.5 text-zinc-400 cursor-pointer select-none shrink-0"
+              title="Append the repository's conventions file to the system prompt"
+            >
+              <input
+                type="checkbox"
+                checked={useRepoInstructions}
+                onChange={(e) => setUseRepoInstructions(e.target.checked)}
+                className="accent-violet-500"
+              />
+              Use
+            </label>
+          </div>
+        )}
+        {activeImports.length > 0 && (
+          <div className="mt-2 px-3 py-2 rounded-lg bg-zinc-900/50 border border-zinc-800 text-xs space-y-1.5">
+            <div className="flex items-center justify-between gap-2">
+              <span className={cn('flex items-center gap-2', includeImports ? 'text-emerald-400' : 'text-zinc-500')}>
+                <Link2 size={12} className="shrink-0" />
+                Imported declarations · {activeImports.length} file{activeImports.length === 1 ? '' : 's'}
+              </span>
+              <label
+                className="flex items-center gap-1.5 text-zinc-400 cursor-pointer select-none shrink-0"
+                title="Send the signatures of the modules this file imports along with the prompt"
+              >
+                <input
+                  type="checkbox"
+                  checked={includeImports}
+                  onChange={(e) => setIncludeImports(e.target.checked)}
+                  className="accent-violet-500"
+                />
+                Use
+              </label>
+            </div>
+            {includeImports && activeImports.map((file) => (
+              <label
+                key={file.path}
+                className="flex items-center gap-2 text-zinc-400 cursor-pointer select-none"
+                title={`${file.specifier} → ${file.names.join(', ')}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={!excludedImports.includes(file.path)}
+                  onChange={(e) => toggleImport(file.path, e.target.checked)}
+                  className="accent-violet-500 shrink-0"
+                />
+                <span className="truncate flex-1">{file.path}</span>
+                <span className="text-zinc-600 shrink-0">~{file.tokens} tok</span>
+              </label>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Input Area */}
       <div className="pt-4">
         <div className="space-y-3">
+          {followUpThread ? (
+            <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-violet-500/10 border border-violet-500/20 text-xs">
+              <span className="flex items-center gap-2 text-violet-300">
+                <MessagesSquare size={12} />
+                Following up in thread · {followUpThread.turns} turn{followUpThread.turns === 1 ? '' : 's'}
+              </span>
+              <button
+                onClick={() => setContinueThread(false)}
+                className="flex items-center gap-1 text-zinc-400 hover:text-zinc-200 transition-colors"
+                title="Start a new conversation"
+              >
+                <X size={12} />
+                New thread
+              </button>
+            </div>
+          ) : availableThread && (
+            <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-zinc-900/50 border border-zinc-800 text-xs">
+              <span className="flex items-center gap-2 text-zinc-400">
+                <MessagesSquare size={12} />
+                Last {selectedCommand.name.toLowerCase()} run · {availableThread.turns} turn{availableThread.turns === 1 ? '' : 's'}
+              </span>
+              <button
+                onClick={() => setContinueThread(true)}
+                className="flex items-center gap-1 text-violet-300 hover:text-violet-200 transition-colors"
+                title="Send the next request as a follow-up to this conversation"
+              >
+                <MessagesSquare size={12} />
+                Continue thread
+              </button>
+            </div>
+          )}
           <div className="relative">
             <textarea
               value={inputValue}
               onChange={(e) => setInputValue(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder={`Enter your ${selectedCommand?.name.toLowerCase() || 'command'} request...`}
+              placeholder={followUpThread
+                ? 'Ask a follow-up, e.g. "now also handle the null case"...'
+                : `Enter your ${selectedCommand?.name.toLowerCase() || 'command'} request...`}
               className="w-full h-24 bg-zinc-900/50 border border-zinc-800 rounded-lg p-3 text-sm text-zinc-100 placeholder:text-zinc-500 resize-none focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500 transition-all"
             />
           </div>
@@ -293,15 +1196,21 @@ export function CommandPanel() {
             <div className="flex items-center gap-2 flex-wrap">
               <Badge variant="default" size="sm">
                 <Code size={12} />
-                <span className="ml-1">{selectedFile?.name?.split('.').pop()?.toUpperCase() || 'TypeScript'}</span>
+                <span className="ml-1">{fileLanguage?.toUpperCase() || 'TypeScript'}</span>
               </Badge>
-              <Badge variant={selectedFile ? 'info' : 'default'} size="sm">
-                <span>{selectedFile ? `File: ${selectedFile.name}` : 'No file selected'}</span>
+              <Badge variant={targetFile ? 'info' : 'default'} size="sm">
+                <span>{targetFile ? `File: ${targetFile.name}${selectedFile ? '' : ' (from trace)'}` : 'No file selected'}</span>
               </Badge>
+              {selectedFile && selectedRange && (
+                <Badge variant="info" size="sm">
+                  <TextSelect size={10} />
+                  <span className="ml-1">{describeSelection(selectedRange)}</span>
+                </Badge>
+              )}
               {selectedProvider && (
                 <Badge variant="info" size="sm">
                   <Bot size={10} />
-                  <span className="ml-1">{providers.find(p => p.id === selectedProvider)?.name || selectedProvider}</span>
+                  <span className="ml-1">{selectedModel || providerOption?.name || selectedProvider}</span>
                 </Badge>
               )}
               {selectedRepository && (
@@ -309,33 +1218,66 @@ export function CommandPanel() {
                   <span>{selectedRepository.name}</span>
                 </Badge>
               )}
+              <label
+                className="flex items-center gap-1.5 text-xs text-zinc-400 cursor-pointer select-none"
+                title="Call the provider even if an identical request was answered recently"
+              >
+                <input
+                  type="checkbox"
+                  checked={bypassCache}
+                  onChange={(e) => setBypassCache(e.target.checked)}
+                  className="accent-violet-500"
+                />
+                Bypass cache
+              </label>
+              {canUseAgent && (
+                <label
+                  className="flex items-center gap-1.5 text-xs text-zinc-400 cursor-pointer select-none"
+                  title="Let the model explore the repository with tools and edit several files over multiple steps"
+                >
+                  <input
+                    type="checkbox"
+                    checked={agentMode}
+                    onChange={(e) => setAgentMode(e.target.checked)}
+                    className="accent-violet-500"
+                  />
+                  Agent mode
+                </label>
+              )}
             </div>
 
-            <Button
-              variant="primary"
-              onClick={handleExecute}
-              disabled={!inputValue.trim() || isExecuting || (selectedCommand?.requiresFile && !selectedFile)}
-              isLoading={isExecuting}
-              className="flex items-center justify-center gap-2 px-4 py-2 min-w-30"
-              title={selectedCommand?.requiresFile && !selectedFile ? 'Select a file first' : ''}
-            >
-              {isExecuting ? (
-                <>
-                  <Loader2 size={16} className="animate-spin" />
-                  <span>Running...</span>
-                </>
-              ) : selectedCommand?.requiresFile && !selectedFile ? (
-                <>
-                  <FileText size={16} />
-                  <span>Select File First</span>
-                </>
-              ) : (
-                <>
-                  <span>Execute</span>
-                  <ChevronRight size={16} />
-                </>
-              )}
-            </Button>
+            {isExecuting ? (
+              <Button
+                variant="destructive"
+                onClick={handleCancel}
+                className="flex items-center justify-center gap-2 px-4 py-2 min-w-30"
+                title="Stop the running command"
+              >
+                <Loader2 size={16} className="animate-spin" />
+                <span>Cancel</span>
+                <X size={16} />
+              </Button>
+            ) : (
+              <Button
+                variant="primary"
+                onClick={handleExecute}
+                disabled={!commandInput || (needsFile && !targetFile)}
+                className="flex items-center justify-center gap-2 px-4 py-2 min-w-30"
+                title={needsFile && !targetFile ? 'Select a file first' : ''}
+              >
+                {needsFile && !targetFile ? (
+                  <>
+                    <FileText size={16} />
+                    <span>Select File First</span>
+                  </>
+                ) : (
+                  <>
+                    <span>Execute</span>
+                    <ChevronRight size={16} />
+                  </>
+                )}
+              </Button>
+            )}
           </div>
         </div>
       </div>
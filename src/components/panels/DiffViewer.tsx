@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   GitCompare, 
@@ -21,25 +21,64 @@ import {
   Trash2,
   Maximize2,
   X,
-  AlertTriangle
+  AlertTriangle,
+  Sparkles,
+  GitCommitHorizontal,
+  ShieldCheck
 } from 'lucide-react';
 import { Card, CardHeader, CardTitle, Button, Badge } from '@/components/ui';
-import { useCommandStore, useActivityStore, useAuthStore } from '@/stores';
+import { useCommandStore, useActivityStore, useAuthStore, usePreferencesStore } from '@/stores';
+import { DiffChange, TypeDiagnostic } from '@/types';
+import { CommitChange, defaultCommitMessage } from '@/lib/commits';
+import { rebaseEdit } from '@/lib/changes';
 import { cn } from '@/lib/utils';
 import { formatRelativeTime } from '@/lib/utils';
 
 type ViewMode = 'unified' | 'split';
 
+// Message being written for a diff before it is pushed
+interface CommitDraft {
+  diffId: string;
+  message: string;
+}
+
+// Type errors by line, for showing them under the line they point at
+function diagnosticsByLine(diagnostics: TypeDiagnostic[] | undefined): Map<number, TypeDiagnostic[]> {
+  const byLine = new Map<number, TypeDiagnostic[]>();
+  for (const diagnostic of diagnostics ?? []) {
+    byLine.set(diagnostic.line, [...(byLine.get(diagnostic.line) ?? []), diagnostic]);
+  }
+  return byLine;
+}
+
+function toCommitChange(diff: DiffChange, fallbackPath: string): CommitChange {
+  return {
+    path: diff.path || fallbackPath,
+    operation: diff.operation || 'modify',
+    newPath: diff.newPath,
+    before: diff.before,
+    after: diff.after,
+  };
+}
+
 export function DiffViewer() {
-  const { diffChanges, applyChange, rejectChange, undoChange, clearDiffs } = useCommandStore();
+  const { executions, diffChanges, applyChange, rejectChange, undoChange, clearDiffs } = useCommandStore();
   const { addActivity } = useActivityStore();
   const { selectedRepository, selectedBranch, selectedFile } = useAuthStore();
+  const { commandModels, conventionalCommits, setConventionalCommits } = usePreferencesStore();
   const [expandedDiff, setExpandedDiff] = useState<string | null>(diffChanges[0]?.id || null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('unified');
   const [isPushing, setIsPushing] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState(false);
   const [pushError, setPushError] = useState<string | null>(null);
+  const [commitDraft, setCommitDraft] = useState<CommitDraft | null>(null);
+  const [pushWithErrors, setPushWithErrors] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generateError, setGenerateError] = useState<string | null>(null);
+  const generateControllerRef = useRef<AbortController | null>(null);
+
+  const draftDiff = commitDraft ? diffChanges.find(d => d.id === commitDraft.diffId) ?? null : null;
 
   const handleCopy = (id: string, code: string) => {
     navigator.clipboard.writeText(code);
@@ -80,18 +119,96 @@ export function DiffViewer() {
     }
   };
 
-  // Close on escape key
+  // Close on escape key, the commit dialog first since it sits on top
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isExpanded) {
+      if (e.key !== 'Escape') return;
+      if (commitDraft) {
+        generateControllerRef.current?.abort();
+        setCommitDraft(null);
+      } else if (isExpanded) {
         setIsExpanded(false);
       }
     };
     window.addEventListener('keydown', handleEscape);
     return () => window.removeEventListener('keydown', handleEscape);
-  }, [isExpanded]);
+  }, [isExpanded, commitDraft]);
+
+  // Ask the model for a message from the diff and the prompt that produced it
+  const generateCommitMessage = async (diff: DiffChange, conventional: boolean) => {
+    generateControllerRef.current?.abort();
+    const abortController = new AbortController();
+    generateControllerRef.current = abortController;
+    setIsGenerating(true);
+    setGenerateError(null);
+
+    try {
+      const execution = executions.find(e => e.id === diff.executionId);
+      const preference = commandModels.commit;
+      const response = await fetch('/api/copilot/commit-message', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: abortController.signal,
+        body: JSON.stringify({
+          repository: selectedRepository ? `${selectedRepository.owner}/${selectedRepository.name}` : undefined,
+          changes: [toCommitChange(diff, selectedFile?.path || diff.filename)],
+          prompt: execution?.input,
+          conventional,
+          provider: preference?.provider,
+          model: preference?.model,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setCommitDraft(draft => draft && draft.diffId === diff.id ? { ...draft, message: data.data.message } : draft);
+      } else {
+        setGenerateError(data.error || 'Could not generate a commit message');
+      }
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        setGenerateError(error instanceof Error ? error.message : 'Failed to connect to server');
+      }
+    } finally {
+      if (generateControllerRef.current === abortController) {
+        generateControllerRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  // Push opens the message editor, prefilled with a plain message until the
+  // generated one arrives
+  const openCommitDialog = (diff: DiffChange) => {
+    const change = toCommitChange(diff, selectedFile?.path || diff.filename);
+    setCommitDraft({ diffId: diff.id, message: defaultCommitMessage([change], conventionalCommits) });
+    setPushWithErrors(false);
+    generateCommitMessage(diff, conventionalCommits);
+  };
+
+  const closeCommitDialog = () => {
+    generateControllerRef.current?.abort();
+    setCommitDraft(null);
+    setGenerateError(null);
+  };
+
+  const handleConventionalChange = (enabled: boolean) => {
+    setConventionalCommits(enabled);
+    if (draftDiff) generateCommitMessage(draftDiff, enabled);
+  };
+
+  // Changes that introduce type errors are only pushed once the user confirms
+  const draftErrors = draftDiff?.diagnostics?.length ?? 0;
+  const canPush = !!commitDraft?.message.trim() && (draftErrors === 0 || pushWithErrors);
 
-  const handlePushToGitHub = async (diffId: string, filename: string, newContent: string) => {
+  const handleCommitAndPush = async () => {
+    if (!draftDiff || !commitDraft || !canPush) return;
+    const message = commitDraft.message.trim();
+    closeCommitDialog();
+    await handlePushToGitHub(draftDiff, message);
+  };
+
+  const handlePushToGitHub = async (diff: DiffChange, message: string) => {
     if (!selectedRepository || !selectedBranch) {
       addActivity({
         type: 'error',
@@ -101,37 +218,80 @@ export function DiffViewer() {
       return;
     }
 
+    const { id: diffId, filename } = diff;
+    const contentsUrl = `/api/repos/${selectedRepository.owner}/${selectedRepository.name}/contents`;
+    const filePath = diff.path || selectedFile?.path || filename;
+    const operation = diff.operation || 'modify';
+
+    // Current file on the branch (its SHA is needed to update or delete it)
+    const getFile = async (path: string): Promise<{ sha: string; content: string } | undefined> => {
+      const response = await fetch(`${contentsUrl}?path=${encodeURIComponent(path)}&ref=${selectedBranch}`);
+      if (!response.ok) return undefined;
+      const data = await response.json();
+      return data.data?.sha ? { sha: data.data.sha, content: data.data.content ?? '' } : undefined;
+    };
+    const getSha = async (path: string) => (await getFile(path))?.sha;
+
+    const putFile = async (path: string, content: string, message: string, sha?: string) =>
+      fetch(contentsUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          path,
+          content: btoa(unescape(encodeURIComponent(content))),
+          message,
+          branch: selectedBranch,
+          sha: sha ?? await getSha(path),
+        }),
+      });
+
+    const deleteFile = async (path: string, message: string) =>
+      fetch(contentsUrl, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          path,
+          message,
+          branch: selectedBranch,
+          sha: await getSha(path),
+        }),
+      });
+
     setIsPushing(diffId);
     setPushError(null);
 
     try {
-      // Get the file SHA first (needed for update)
-      const filePath = selectedFile?.path || filename;
-      const response = await fetch(
-        `/api/repos/${selectedRepository.owner}/${selectedRepository.name}/contents?path=${encodeURIComponent(filePath)}&ref=${selectedBranch}`
-      );
-      
-      let sha: string | undefined;
-      if (response.ok) {
-        const data = await response.json();
-        sha = data.data?.sha;
-      }
-
-      // Push the new content
-      const pushResponse = await fetch(
-        `/api/repos/${selectedRepository.owner}/${selectedRepository.name}/contents`,
-        {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            path: filePath,
-            content: btoa(unescape(encodeURIComponent(newContent))),
-            message: `Update ${filename} via Copilot Studio`,
-            branch: selectedBranch,
-            sha: sha,
-          }),
+      let pushResponse: Response;
+      if (operation === 'delete') {
+        pushResponse = await deleteFile(filePath, message);
+      } else if (operation === 'rename' && diff.newPath) {
+        // GitHub has no rename endpoint: write the new path, then remove the old one
+        pushResponse = await putFile(diff.newPath, diff.after, message);
+        if (pushResponse.ok) {
+          pushResponse = await deleteFile(filePath, message);
+        }
+      } else {
+        // The file may have moved on since the change was proposed, for
+        // example by pushing another audit fix to it: replay this change's
+        // edits onto what is there now instead of overwriting it
+        const current = operation === 'modify' ? await getFile(filePath) : undefined;
+        let content = diff.after;
+        if (current && diff.before && current.content !== diff.before) {
+          const rebased = rebaseEdit(diff.before, diff.after, current.content);
+          if (rebased.failures.length > 0) {
+            const errorMessage = `${filename} changed on ${selectedBranch} since this change was proposed and it no longer applies (${rebased.failures.join('; ')}). Run the command again on the current file.`;
+            setPushError(errorMessage);
+            addActivity({
+              type: 'error',
+              title: 'Push Failed - Conflict',
+              description: errorMessage,
+            });
+            return;
+          }
+          content = rebased.content;
         }
-      );
+        pushResponse = await putFile(filePath, content, message, current?.sha);
+      }
 
       if (pushResponse.ok) {
         applyChange(diffId);
@@ -174,10 +334,54 @@ export function DiffViewer() {
     }
   };
 
+  // Badge for changes other than a plain in-place edit
+  const renderOperationBadge = (diff: DiffChange) => {
+    switch (diff.operation) {
+      case 'create':
+        return <Badge variant="success" size="sm">New file</Badge>;
+      case 'delete':
+        return <Badge variant="error" size="sm">Deleted</Badge>;
+      case 'rename':
+        return <Badge variant="info" size="sm" className="truncate">→ {diff.newPath}</Badge>;
+      default:
+        return null;
+    }
+  };
+
+  // Type check result: new errors, or a note that the file compiles
+  const renderTypeCheckBadge = (diff: DiffChange) => {
+    if (!diff.diagnostics) return null;
+    return diff.diagnostics.length > 0 ? (
+      <Badge variant="error" size="sm" className="shrink-0">
+        <AlertTriangle size={10} />
+        <span className="ml-1">{diff.diagnostics.length} type error{diff.diagnostics.length === 1 ? '' : 's'}</span>
+      </Badge>
+    ) : (
+      <Badge variant="success" size="sm" className="shrink-0">
+        <ShieldCheck size={10} />
+        <span className="ml-1">Compiles</span>
+      </Badge>
+    );
+  };
+
+  // Type errors shown under the line of the new code they point at
+  const renderLineDiagnostics = (diagnostics: TypeDiagnostic[] | undefined) => diagnostics?.map((diagnostic, i) => (
+    <div
+      key={i}
+      className="flex items-start gap-2 px-3 py-1 bg-red-500/10 border-l-4 border-red-500/60 text-xs text-red-300 font-sans"
+    >
+      <AlertTriangle size={12} className="shrink-0 mt-0.5 text-red-400" />
+      <span className="whitespace-pre-wrap">
+        TS{diagnostic.code} (col {diagnostic.column}): {diagnostic.message}
+      </span>
+    </div>
+  ));
+
   // Render unified diff view - more visible line-by-line changes
-  const renderUnifiedDiff = (before: string, after: string) => {
+  const renderUnifiedDiff = (before: string, after: string, diagnostics?: TypeDiagnostic[]) => {
     const beforeLines = before.split('\n');
     const afterLines = after.split('\n');
+    const lineDiagnostics = diagnosticsByLine(diagnostics);
     
     return (
       <div className="font-mono text-xs sm:text-sm">
@@ -217,27 +421,29 @@ export function DiffViewer() {
             const isUnchanged = beforeLines.includes(line);
             
             return (
-              <div 
-                key={`add-${i}`}
-                className={cn(
-                  'flex',
-                  isAdded && 'bg-emerald-500/20 border-l-4 border-emerald-500',
-                  isUnchanged && 'border-l-4 border-transparent hover:bg-zinc-900/50'
-                )}
-              >
-                <span className={cn(
-                  'w-10 sm:w-14 shrink-0 text-right pr-2 py-1.5 select-none font-medium',
-                  isAdded ? 'text-emerald-400/70 bg-emerald-500/10' : 'text-zinc-600'
-                )}>
-                  {i + 1}
-                </span>
-                <span className={cn(
-                  'px-3 py-1.5 whitespace-pre flex-1',
-                  isAdded ? 'text-emerald-300' : 'text-zinc-400'
-                )}>
-                  {isAdded && <Plus size={12} className="inline mr-2 text-emerald-500" />}
-                  {line || ' '}
-                </span>
+              <div key={`add-${i}`}>
+                <div 
+                  className={cn(
+                    'flex',
+                    isAdded && 'bg-emerald-500/20 border-l-4 border-emerald-500',
+                    isUnchanged && 'border-l-4 border-transparent hover:bg-zinc-900/50'
+                  )}
+                >
+                  <span className={cn(
+                    'w-10 sm:w-14 shrink-0 text-right pr-2 py-1.5 select-none font-medium',
+                    isAdded ? 'text-emerald-400/70 bg-emerald-500/10' : 'text-zinc-600'
+                  )}>
+                    {i + 1}
+                  </span>
+                  <span className={cn(
+                    'px-3 py-1.5 whitespace-pre flex-1',
+                    isAdded ? 'text-emerald-300' : 'text-zinc-400'
+                  )}>
+                    {isAdded && <Plus size={12} className="inline mr-2 text-emerald-500" />}
+                    {line || ' '}
+                  </span>
+                </div>
+                {renderLineDiagnostics(lineDiagnostics.get(i + 1))}
               </div>
             );
           })}
@@ -247,9 +453,10 @@ export function DiffViewer() {
   };
 
   // Render split (side-by-side) diff view
-  const renderSplitDiff = (before: string, after: string) => {
+  const renderSplitDiff = (before: string, after: string, diagnostics?: TypeDiagnostic[]) => {
     const beforeLines = before.split('\n');
     const afterLines = after.split('\n');
+    const lineDiagnostics = diagnosticsByLine(diagnostics);
     
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-zinc-800 font-mono text-xs sm:text-sm">
@@ -323,22 +530,24 @@ export function DiffViewer() {
             {afterLines.map((line, i) => {
               const isAdded = !beforeLines.includes(line);
               return (
-                <div 
-                  key={i}
-                  className={cn(
-                    'flex',
-                    isAdded && 'bg-emerald-500/20'
-                  )}
-                >
-                  <span className="w-8 sm:w-10 shrink-0 text-right pr-2 py-1.5 text-zinc-600 select-none border-r border-zinc-800 font-medium">
-                    {i + 1}
-                  </span>
-                  <pre className={cn(
-                    'px-2 py-1.5 whitespace-pre overflow-hidden text-ellipsis flex-1',
-                    isAdded ? 'text-emerald-300 font-medium' : 'text-zinc-400'
-                  )}>
-                    {line || ' '}
-                  </pre>
+                <div key={i}>
+                  <div 
+                    className={cn(
+                      'flex',
+                      isAdded && 'bg-emerald-500/20'
+                    )}
+                  >
+                    <span className="w-8 sm:w-10 shrink-0 text-right pr-2 py-1.5 text-zinc-600 select-none border-r border-zinc-800 font-medium">
+                      {i + 1}
+                    </span>
+                    <pre className={cn(
+                      'px-2 py-1.5 whitespace-pre overflow-hidden text-ellipsis flex-1',
+                      isAdded ? 'text-emerald-300 font-medium' : 'text-zinc-400'
+                    )}>
+                      {line || ' '}
+                    </pre>
+                  </div>
+                  {renderLineDiagnostics(lineDiagnostics.get(i + 1))}
                 </div>
               );
             })}
@@ -471,7 +680,11 @@ export function DiffViewer() {
                       <FileCode size={14} className={diff.applied ? 'text-emerald-400' : 'text-zinc-500'} />
                     </div>
                     <div className="min-w-0 text-left">
-                      <span className="text-sm font-medium text-zinc-200 block truncate">{diff.filename}</span>
+                      <span className="text-sm font-medium text-zinc-200 flex items-center gap-2 min-w-0">
+                        <span className="truncate" title={diff.path}>{diff.filename}</span>
+                        {renderOperationBadge(diff)}
+                        {renderTypeCheckBadge(diff)}
+                      </span>
                       <div className="flex items-center gap-2 text-xs mt-0.5">
                         <span className="text-emerald-400 flex items-center gap-0.5">
                           <Plus size={10} />
@@ -513,8 +726,8 @@ export function DiffViewer() {
                     >
                       {/* Diff Content */}
                       {viewMode === 'unified' 
-                        ? renderUnifiedDiff(diff.before, diff.after)
-                        : renderSplitDiff(diff.before, diff.after)
+                        ? renderUnifiedDiff(diff.before, diff.after, diff.diagnostics)
+                        : renderSplitDiff(diff.before, diff.after, diff.diagnostics)
                       }
 
                       {/* Action Buttons */}
@@ -583,7 +796,7 @@ export function DiffViewer() {
                                 <Button 
                                   variant="primary" 
                                   size="sm"
-                                  onClick={() => handlePushToGitHub(diff.id, diff.filename, diff.after)}
+                                  onClick={() => openCommitDialog(diff)}
                                   disabled={isPushing === diff.id}
                                   className="bg-emerald-600 hover:bg-emerald-500 flex-1 sm:flex-none"
                                 >
@@ -712,7 +925,9 @@ export function DiffViewer() {
                   <div className="flex items-center justify-between p-4 bg-zinc-900/50 border-b border-zinc-800">
                     <div className="flex items-center gap-3">
                       <FileCode size={18} className={diff.applied ? 'text-emerald-400' : 'text-zinc-500'} />
-                      <span className="text-base font-medium text-zinc-200">{diff.filename}</span>
+                      <span className="text-base font-medium text-zinc-200" title={diff.path}>{diff.filename}</span>
+                      {renderOperationBadge(diff)}
+                      {renderTypeCheckBadge(diff)}
                       <div className="flex items-center gap-3 text-sm">
                         <span className="text-emerald-400 flex items-center gap-1">
                           <Plus size={14} /> {diff.additions}
@@ -732,8 +947,8 @@ export function DiffViewer() {
                   {/* Diff Content - Expanded */}
                   <div className="max-h-96 overflow-auto custom-scrollbar">
                     {viewMode === 'unified' 
-                      ? renderUnifiedDiff(diff.before, diff.after)
-                      : renderSplitDiff(diff.before, diff.after)
+                      ? renderUnifiedDiff(diff.before, diff.after, diff.diagnostics)
+                      : renderSplitDiff(diff.before, diff.after, diff.diagnostics)
                     }
                   </div>
 
@@ -784,7 +999,7 @@ export function DiffViewer() {
                             <Button 
                               variant="primary" 
                               size="sm"
-                              onClick={() => handlePushToGitHub(diff.id, diff.filename, diff.after)}
+                              onClick={() => openCommitDialog(diff)}
                               disabled={isPushing === diff.id}
                               className="bg-emerald-600 hover:bg-emerald-500"
                             >
@@ -827,6 +1042,124 @@ export function DiffViewer() {
         </motion.div>
       )}
     </AnimatePresence>
+
+    {/* Commit Message Dialog */}
+    <AnimatePresence>
+      {commitDraft && draftDiff && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={closeCommitDialog}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            className="w-full max-w-xl bg-zinc-900 rounded-xl border border-zinc-800 flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+              <div className="flex items-center gap-2 min-w-0">
+                <GitCommitHorizontal size={18} className="text-violet-400 shrink-0" />
+                <h2 className="text-base font-semibold text-zinc-100">Commit message</h2>
+                <span className="text-sm text-zinc-500 truncate" title={draftDiff.path}>{draftDiff.filename}</span>
+                {renderOperationBadge(draftDiff)}
+              </div>
+              <Button variant="ghost" size="icon" onClick={closeCommitDialog}>
+                <X size={18} />
+              </Button>
+            </div>
+
+            <div className="p-4 space-y-3">
+              <textarea
+                value={commitDraft.message}
+                onChange={(e) => setCommitDraft({ ...commitDraft, message: e.target.value })}
+                rows={6}
+                className="w-full bg-zinc-950/60 border border-zinc-800 rounded-lg p-3 text-sm font-mono text-zinc-100 placeholder:text-zinc-500 resize-y focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500 transition-all"
+                placeholder="Describe the change"
+              />
+              {draftErrors > 0 && (
+                <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg space-y-2">
+                  <p className="text-sm text-red-300 flex items-center gap-1.5">
+                    <AlertTriangle size={14} className="shrink-0" />
+                    This change introduces {draftErrors} type error{draftErrors === 1 ? '' : 's'}.
+                  </p>
+                  <ul className="text-xs text-red-300/80 font-mono space-y-0.5 max-h-24 overflow-y-auto custom-scrollbar">
+                    {draftDiff.diagnostics!.map((diagnostic, i) => (
+                      <li key={i} className="truncate" title={diagnostic.message}>
+                        {diagnostic.line}:{diagnostic.column} {diagnostic.message.split('\n')[0]}
+                      </li>
+                    ))}
+                  </ul>
+                  <label className="flex items-center gap-1.5 text-xs text-zinc-300 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={pushWithErrors}
+                      onChange={(e) => setPushWithErrors(e.target.checked)}
+                      className="accent-red-500"
+                    />
+                    Push anyway
+                  </label>
+                </div>
+              )}
+              {generateError && (
+                <p className="text-xs text-amber-400 flex items-center gap-1.5">
+                  <AlertTriangle size={12} className="shrink-0" />
+                  {generateError}
+                </p>
+              )}
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <label className="flex items-center gap-1.5 text-xs text-zinc-400 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={conventionalCommits}
+                    onChange={(e) => handleConventionalChange(e.target.checked)}
+                    className="accent-violet-500"
+                  />
+                  Conventional Commits
+                </label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => generateCommitMessage(draftDiff, conventionalCommits)}
+                  disabled={isGenerating}
+                >
+                  {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                  <span className="ml-1">{isGenerating ? 'Generating...' : 'Regenerate'}</span>
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-2 p-4 border-t border-zinc-800 bg-zinc-900/50">
+              {selectedRepository && (
+                <span className="text-xs text-zinc-500 flex items-center gap-1 min-w-0 truncate">
+                  <GitBranch size={12} className="shrink-0" />
+                  {selectedRepository.name}/{selectedBranch || 'main'}
+                </span>
+              )}
+              <div className="flex items-center gap-2 ml-auto">
+                <Button variant="ghost" size="sm" onClick={closeCommitDialog}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={handleCommitAndPush}
+                  disabled={!canPush}
+                  title={draftErrors > 0 && !pushWithErrors ? 'Tick "Push anyway" to push a change with type errors' : undefined}
+                  className="bg-emerald-600 hover:bg-emerald-500"
+                >
+                  <Upload size={14} />
+                  <span className="ml-1">Commit & Push</span>
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
     </>
   );
 }
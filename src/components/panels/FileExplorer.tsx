@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   FileCode, 
@@ -18,11 +18,14 @@ import {
   FileJson,
   FileType,
   Code,
-  Image
+  Image,
+  TextSelect,
+  X
 } from 'lucide-react';
 import { Card, CardHeader, CardTitle, Button, Badge } from '@/components/ui';
-import { useAuthStore, useActivityStore } from '@/stores';
+import { useAuthStore, useActivityStore, useReviewStore } from '@/stores';
 import { cn } from '@/lib/utils';
+import { buildOutline, describeSelection } from '@/lib/selection';
 
 interface FileItem {
   name: string;
@@ -74,8 +77,9 @@ function getFileIcon(filename: string) {
 }
 
 export function FileExplorer() {
-  const { selectedRepository, selectedBranch, selectedFile, setSelectedFile } = useAuthStore();
+  const { selectedRepository, selectedBranch, selectedFile, setSelectedFile, selectedRange, setSelectedRange } = useAuthStore();
   const { addActivity } = useActivityStore();
+  const { jumpTarget, clearJump } = useReviewStore();
   
   const [files, setFiles] = useState<FileItem[]>([]);
   const [currentPath, setCurrentPath] = useState('');
@@ -85,6 +89,21 @@ export function FileExplorer() {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [fileContent, setFileContent] = useState<FileContent | null>(null);
   const [isLoadingFile, setIsLoadingFile] = useState(false);
+  // Line a shift-click extends the selection from
+  const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null);
+  // Line to bring into view once the preview renders (set by review jumps)
+  const [scrollLine, setScrollLine] = useState<number | null>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  const outline = useMemo(
+    () => fileContent ? buildOutline(fileContent.path, fileContent.content) : [],
+    [fileContent]
+  );
+  // The range belongs to the selected file, which the preview may not be showing
+  const previewRange = fileContent && selectedFile?.path === fileContent.path ? selectedRange : null;
+  const outlineIndex = previewRange?.symbol
+    ? outline.findIndex(s => s.symbol === previewRange.symbol && s.startLine === previewRange.startLine)
+    : -1;
 
   // Fetch files when repository or path changes
   useEffect(() => {
@@ -93,6 +112,40 @@ export function FileExplorer() {
     }
   }, [selectedRepository, selectedBranch, currentPath]);
 
+  // Open the file a review finding points at, with its line selected
+  useEffect(() => {
+    if (!jumpTarget || !selectedRepository) return;
+    let cancelled = false;
+    const url = `/api/repos/${selectedRepository.owner}/${selectedRepository.name}/contents?path=${encodeURIComponent(jumpTarget.path)}&ref=${encodeURIComponent(jumpTarget.ref)}`;
+    fetch(url)
+      .then(res => res.json())
+      .then(data => {
+        if (cancelled || !data.success || data.data.type !== 'file') return;
+        const directory = jumpTarget.path.includes('/') ? jumpTarget.path.slice(0, jumpTarget.path.lastIndexOf('/')) : '';
+        setCurrentPath(directory);
+        setFileContent(data.data);
+        setSelectedFile({
+          name: data.data.name,
+          path: data.data.path,
+          content: data.data.content,
+          sha: data.data.sha
+        });
+        setSelectedRange({ startLine: jumpTarget.line, endLine: jumpTarget.line });
+        setSelectionAnchor(jumpTarget.line);
+        setScrollLine(jumpTarget.line);
+        clearJump();
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [jumpTarget, selectedRepository, setSelectedFile, setSelectedRange, clearJump]);
+
+  useEffect(() => {
+    if (scrollLine === null || !fileContent) return;
+    previewRef.current?.querySelector(`[data-line="${scrollLine}"]`)?.scrollIntoView({ block: 'center' });
+  }, [scrollLine, fileContent]);
+
   const fetchFiles = async (path: string) => {
     if (!selectedRepository) return;
 
@@ -128,6 +181,7 @@ export function FileExplorer() {
 
     setIsLoadingFile(true);
     setFileContent(null);
+    setScrollLine(null);
 
     try {
       const url = `/api/repos/${selectedRepository.owner}/${selectedRepository.name}/contents?path=${encodeURIComponent(file.path)}&ref=${selectedBranch || 'main'}`;
@@ -139,7 +193,8 @@ export function FileExplorer() {
         setSelectedFile({
           name: data.data.name,
           path: data.data.path,
-          content: data.data.content
+          content: data.data.content,
+          sha: data.data.sha
         });
         
         addActivity({
@@ -190,6 +245,28 @@ export function FileExplorer() {
     fetchFiles(currentPath);
   };
 
+  // Click a line number to select it, shift-click to extend the range
+  const handleLineClick = (line: number, extend: boolean) => {
+    if (extend && selectionAnchor !== null && previewRange) {
+      setSelectedRange({ startLine: Math.min(selectionAnchor, line), endLine: Math.max(selectionAnchor, line) });
+    } else {
+      setSelectionAnchor(line);
+      setSelectedRange({ startLine: line, endLine: line });
+    }
+  };
+
+  const handleOutlineSelect = (index: string) => {
+    const symbol = outline[Number(index)];
+    if (!symbol) return;
+    setSelectionAnchor(symbol.startLine);
+    setSelectedRange({ startLine: symbol.startLine, endLine: symbol.endLine, symbol: symbol.symbol });
+  };
+
+  const clearSelection = () => {
+    setSelectionAnchor(null);
+    setSelectedRange(null);
+  };
+
   // Format file size
   const formatSize = (bytes?: number) => {
     if (!bytes) return '';
@@ -342,21 +419,66 @@ export function FileExplorer() {
                 {getFileIcon(fileContent.name)}
                 <span className="text-sm font-medium text-zinc-200 truncate">{fileContent.name}</span>
               </div>
-              <Badge variant="info" size="sm">{formatSize(fileContent.size)}</Badge>
+              <div className="flex items-center gap-2 shrink-0">
+                {outline.length > 0 && (
+                  <select
+                    value={outlineIndex >= 0 ? String(outlineIndex) : ''}
+                    onChange={(e) => handleOutlineSelect(e.target.value)}
+                    className="max-w-40 bg-zinc-900/50 border border-zinc-800 rounded-md px-2 py-1 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500 transition-all"
+                    title="Run commands on a function or class"
+                  >
+                    <option value="" disabled>Outline…</option>
+                    {outline.map((symbol, index) => (
+                      <option key={`${symbol.symbol}-${symbol.startLine}`} value={index}>
+                        {symbol.depth > 0 ? '\u00a0\u00a0' : ''}{symbol.symbol} · {symbol.kind}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <Badge variant="info" size="sm">{formatSize(fileContent.size)}</Badge>
+              </div>
             </div>
-            <div className="flex-1 overflow-auto custom-scrollbar">
+            {previewRange && (
+              <div className="flex items-center justify-between gap-2 px-3 py-1.5 bg-violet-500/10 border-b border-violet-500/20 text-xs">
+                <span className="flex items-center gap-2 text-violet-300 truncate">
+                  <TextSelect size={12} className="shrink-0" />
+                  <span className="truncate">Commands run on {describeSelection(previewRange)}</span>
+                </span>
+                <button
+                  onClick={clearSelection}
+                  className="flex items-center gap-1 text-zinc-400 hover:text-zinc-200 transition-colors shrink-0"
+                  title="Run commands on the whole file"
+                >
+                  <X size={12} />
+                  Whole file
+                </button>
+              </div>
+            )}
+            <div ref={previewRef} className="flex-1 overflow-auto custom-scrollbar">
               {isLoadingFile ? (
                 <div className="flex items-center justify-center h-32">
                   <Loader2 className="w-6 h-6 animate-spin text-violet-400" />
                 </div>
               ) : (
                 <pre className="p-3 text-xs font-mono text-zinc-300 whitespace-pre-wrap">
-                  {fileContent.content.split('\n').map((line, i) => (
-                    <div key={i} className="flex">
-                      <span className="w-8 text-zinc-600 select-none text-right pr-3">{i + 1}</span>
-                      <span className="flex-1">{line}</span>
-                    </div>
-                  ))}
+                  {fileContent.content.split('\n').map((line, i) => {
+                    const inRange = previewRange && i + 1 >= previewRange.startLine && i + 1 <= previewRange.endLine;
+                    return (
+                      <div key={i} data-line={i + 1} className={cn('flex', inRange && 'bg-violet-500/10')}>
+                        <span
+                          onClick={(e) => handleLineClick(i + 1, e.shiftKey)}
+                          className={cn(
+                            'w-8 select-none text-right pr-3 cursor-pointer hover:text-violet-400',
+                            inRange ? 'text-violet-400' : 'text-zinc-600'
+                          )}
+                          title="Click to select, shift-click to extend"
+                        >
+                          {i + 1}
+                        </span>
+                        <span className="flex-1">{line}</span>
+                      </div>
+                    );
+                  })}
                 </pre>
               )}
             </div>
@@ -2,15 +2,23 @@
 
 import { useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Terminal, Trash2, Download, Copy, Check, Maximize2, X } from 'lucide-react';
+import { Terminal, Trash2, Download, Copy, Check, Maximize2, X, MessagesSquare } from 'lucide-react';
 import { Card, CardHeader, CardTitle, Button } from '@/components/ui';
 import { useCommandStore } from '@/stores';
 import { formatTimestamp } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 import { useState } from 'react';
+import { OutputLine } from '@/types';
+
+interface OutputGroup {
+  key: string;
+  lines: OutputLine[];
+  /** Set for conversation threads with follow-ups */
+  thread?: { turns: number; title: string };
+}
 
 export function OutputConsole() {
-  const { outputLines, clearOutput } = useCommandStore();
+  const { outputLines, executions, clearOutput } = useCommandStore();
   const scrollRef = useRef<HTMLDivElement>(null);
   const [copied, setCopied] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
@@ -40,6 +48,32 @@ export function OutputConsole() {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Group output by conversation thread so follow-ups sit under their first turn
+  const groups: OutputGroup[] = [];
+  const executionById = new Map(executions.map(e => [e.id, e]));
+  const threadGroups = new Map<string, OutputGroup>();
+  for (const line of outputLines) {
+    const threadId = line.executionId ? executionById.get(line.executionId)?.threadId : undefined;
+    if (!threadId) {
+      groups.push({ key: line.id, lines: [line] });
+      continue;
+    }
+
+    let group = threadGroups.get(threadId);
+    if (!group) {
+      const turns = executions.filter(e => e.threadId === threadId);
+      const first = turns[turns.length - 1];
+      group = {
+        key: threadId,
+        lines: [],
+        thread: turns.length > 1 ? { turns: turns.length, title: `${first.commandName}: ${first.input}` } : undefined,
+      };
+      threadGroups.set(threadId, group);
+      groups.push(group);
+    }
+    group.lines.push(line);
+  }
+
   const getLineStyles = (type: string) => {
     switch (type) {
       case 'command':
@@ -76,22 +110,37 @@ export function OutputConsole() {
         ) : (
           <div className={cn("space-y-1", expanded ? "p-6" : "p-4")}>
             <AnimatePresence initial={false}>
-              {outputLines.map((line) => (
-                <motion.div
-                  key={line.id}
-                  initial={{ opacity: 0, x: -10 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ duration: 0.15 }}
-                  className={cn("flex gap-3 leading-relaxed", expanded && "text-base")}
-                >
-                  <span className={cn("text-zinc-600 shrink-0 tabular-nums", expanded ? "text-sm w-20" : "text-xs w-16")}>
-                    {formatTimestamp(line.timestamp)}
-                  </span>
-                  <pre className={cn('flex-1 whitespace-pre-wrap wrap-break-word', getLineStyles(line.type))}>
-                    {line.content || ' '}
-                  </pre>
-                </motion.div>
-              ))}
+              {groups.map((group) => {
+                const lines = group.lines.map((line) => (
+                  <motion.div
+                    key={line.id}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ duration: 0.15 }}
+                    className={cn("flex gap-3 leading-relaxed", expanded && "text-base")}
+                  >
+                    <span className={cn("text-zinc-600 shrink-0 tabular-nums", expanded ? "text-sm w-20" : "text-xs w-16")}>
+                      {formatTimestamp(line.timestamp)}
+                    </span>
+                    <pre className={cn('flex-1 whitespace-pre-wrap wrap-break-word', getLineStyles(line.type))}>
+                      {line.content || ' '}
+                    </pre>
+                  </motion.div>
+                ));
+
+                if (!group.thread) return lines;
+
+                return (
+                  <div key={group.key} className="border-l-2 border-violet-500/30 pl-3 space-y-1">
+                    <div className={cn("flex items-center gap-2 text-violet-300/80 font-sans", expanded ? "text-sm" : "text-xs")}>
+                      <MessagesSquare size={12} />
+                      <span className="truncate">{group.thread.title}</span>
+                      <span className="text-zinc-500 shrink-0">· {group.thread.turns} turns</span>
+                    </div>
+                    {lines}
+                  </div>
+                );
+              })}
             </AnimatePresence>
 
             {/* Blinking cursor */}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { motion } from 'framer-motion';
+import {
+  GitPullRequest,
+  GitCompare,
+  ScanSearch,
+  Loader2,
+  X,
+  AlertCircle,
+  AlertTriangle,
+  Lightbulb,
+  CheckCircle,
+  FileCode
+} from 'lucide-react';
+import { Card, CardHeader, CardTitle, Button, Input, Badge } from '@/components/ui';
+import { useAuthStore, useActivityStore, usePreferencesStore, useReviewStore } from '@/stores';
+import { CodeReview, ReviewFinding, ReviewSeverity } from '@/types';
+import { cn } from '@/lib/utils';
+
+const severityStyles: Record<ReviewSeverity, { icon: React.ReactNode; badge: 'error' | 'warning' | 'info'; label: string }> = {
+  critical: { icon: <AlertCircle size={12} />, badge: 'error', label: 'Critical' },
+  warning: { icon: <AlertTriangle size={12} />, badge: 'warning', label: 'Warning' },
+  suggestion: { icon: <Lightbulb size={12} />, badge: 'info', label: 'Suggestion' },
+};
+
+const SEVERITY_ORDER: ReviewSeverity[] = ['critical', 'warning', 'suggestion'];
+
+export function ReviewPanel() {
+  const { selectedRepository, selectedBranch } = useAuthStore();
+  const { addActivity } = useActivityStore();
+  const { commandModels } = usePreferencesStore();
+  const { review, setReview, jumpTo } = useReviewStore();
+
+  const [mode, setMode] = useState<'pull' | 'refs'>('pull');
+  const [pullNumber, setPullNumber] = useState('');
+  const [baseRef, setBaseRef] = useState('');
+  const [headRef, setHeadRef] = useState('');
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Blank ref fields fall back to the default branch and the selected branch
+  const base = baseRef.trim() || selectedRepository?.defaultBranch || 'main';
+  const head = headRef.trim() || selectedBranch || '';
+  const canReview = mode === 'pull' ? /^\d+$/.test(pullNumber.trim()) : !!head && base !== head;
+
+  // A review of another repository doesn't belong here
+  const repository = selectedRepository ? `${selectedRepository.owner}/${selectedRepository.name}` : null;
+  const activeReview = review && review.repository === repository ? review : null;
+
+  const handleReview = async () => {
+    if (!repository || !canReview || isReviewing) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsReviewing(true);
+    setError(null);
+    setWarnings([]);
+
+    const target = mode === 'pull' ? `#${pullNumber.trim()}` : `${base}...${head}`;
+    addActivity({
+      type: 'command',
+      title: 'Reviewing changes',
+      description: `${repository} ${target}`,
+    });
+
+    try {
+      const preference = commandModels.review;
+      const response = await fetch('/api/copilot/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: abortController.signal,
+        body: JSON.stringify({
+          repository,
+          ...(mode === 'pull' ? { pullNumber: Number(pullNumber.trim()) } : { base, head }),
+          provider: preference?.provider,
+          model: preference?.model,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        const result: CodeReview = data.data;
+        setReview(result);
+        setWarnings(data.data.warnings || []);
+        addActivity({
+          type: 'success',
+          title: 'Review completed',
+          description: `${result.findings.length} finding${result.findings.length === 1 ? '' : 's'} in ${result.files.length} file${result.files.length === 1 ? '' : 's'}`,
+        });
+      } else {
+        setError(data.error || 'Review failed');
+        addActivity({
+          type: 'error',
+          title: 'Review failed',
+          description: data.error || 'Unknown error occurred',
+        });
+      }
+    } catch (err) {
+      if (!abortController.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Failed to connect to server');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsReviewing(false);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleJump = (finding: ReviewFinding) => {
+    if (!activeReview) return;
+    jumpTo(finding.file, finding.line, activeReview.headSha);
+  };
+
+  // Findings grouped by file, most severe first within each file
+  const findingsByFile = new Map<string, ReviewFinding[]>();
+  for (const finding of activeReview?.findings ?? []) {
+    findingsByFile.set(finding.file, [...(findingsByFile.get(finding.file) ?? []), finding]);
+  }
+  for (const findings of findingsByFile.values()) {
+    findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.line - b.line);
+  }
+
+  if (!selectedRepository) {
+    return (
+      <Card className="h-full flex flex-col">
+        <CardHeader className="shrink-0">
+          <div className="flex items-center gap-2">
+            <ScanSearch size={16} className="text-violet-400" />
+            <CardTitle>Code Review</CardTitle>
+          </div>
+        </CardHeader>
+        <div className="flex-1 flex items-center justify-center text-zinc-500">
+          <div className="text-center p-6">
+            <ScanSearch size={48} className="mx-auto mb-3 opacity-30" />
+            <p className="text-sm">Select a repository to review changes</p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="h-full flex flex-col">
+      <CardHeader className="shrink-0 pb-2">
+        <div className="flex items-center gap-2">
+          <ScanSearch size={16} className="text-violet-400" />
+          <CardTitle>Code Review</CardTitle>
+        </div>
+      </CardHeader>
+
+      {/* Target */}
+      <div className="shrink-0 space-y-2 pb-3 border-b border-zinc-800">
+        <div className="flex gap-2">
+          {([['pull', 'Pull request', <GitPullRequest key="pull" size={12} />], ['refs', 'Branches', <GitCompare key="refs" size={12} />]] as const).map(([value, label, icon]) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={cn(
+                'flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg border text-xs font-medium transition-all duration-200',
+                mode === value
+                  ? 'bg-violet-500/10 border-violet-500/50 text-violet-400'
+                  : 'bg-zinc-900/50 border-zinc-800 text-zinc-400 hover:text-zinc-200 hover:border-zinc-700'
+              )}
+            >
+              {icon}
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'pull' ? (
+          <Input
+            value={pullNumber}
+            onChange={(e) => setPullNumber(e.target.value)}
+            placeholder="Pull request number, e.g. 42"
+            inputMode="numeric"
+            className="h-9 text-xs"
+          />
+        ) : (
+          <div className="flex items-center gap-2">
+            <Input
+              value={baseRef}
+              onChange={(e) => setBaseRef(e.target.value)}
+              placeholder={selectedRepository.defaultBranch || 'main'}
+              className="h-9 text-xs"
+              title="Base ref"
+            />
+            <span className="text-xs text-zinc-500 shrink-0">...</span>
+            <Input
+              value={headRef}
+              onChange={(e) => setHeadRef(e.target.value)}
+              placeholder={selectedBranch || 'head branch'}
+              className="h-9 text-xs"
+              title="Head ref"
+            />
+          </div>
+        )}
+
+        {isReviewing ? (
+          <Button variant="destructive" size="sm" onClick={handleCancel} className="w-full flex items-center justify-center gap-2">
+            <Loader2 size={14} className="animate-spin" />
+            Cancel review
+            <X size={14} />
+          </Button>
+        ) : (
+          <Button variant="primary" size="sm" onClick={handleReview} disabled={!canReview} className="w-full flex items-center justify-center gap-2">
+            <ScanSearch size={14} />
+            Review {mode === 'pull' ? 'pull request' : 'changes'}
+          </Button>
+        )}
+      </div>
+
+      {/* Findings */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar pt-3 space-y-3">
+        {error && (
+          <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-xs text-red-400">
+            <AlertCircle size={12} className="shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!activeReview && !error && (
+          <div className="h-full flex items-center justify-center text-zinc-600">
+            <div className="text-center">
+              <ScanSearch size={32} className="mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No review yet</p>
+              <p className="text-xs mt-1">Findings will appear here</p>
+            </div>
+          </div>
+        )}
+
+        {activeReview && (
+          <>
+            <div className="space-y-2">
+              <p className="text-xs text-zinc-500">
+                {activeReview.pullNumber ? `#${activeReview.pullNumber} ${activeReview.title ?? ''}` : `${activeReview.base}...${activeReview.head}`}
+                {' · '}{activeReview.files.length} file{activeReview.files.length === 1 ? '' : 's'} reviewed
+              </p>
+              {activeReview.summary && (
+                <p className="text-sm text-zinc-300 whitespace-pre-wrap">{activeReview.summary}</p>
+              )}
+              <div className="flex items-center gap-2 flex-wrap">
+                {activeReview.findings.length === 0 ? (
+                  <Badge variant="success" size="sm">
+                    <CheckCircle size={10} />
+                    <span className="ml-1">No findings</span>
+                  </Badge>
+                ) : SEVERITY_ORDER.map(severity => {
+                  const count = activeReview.findings.filter(f => f.severity === severity).length;
+                  return count > 0 && (
+                    <Badge key={severity} variant={severityStyles[severity].badge} size="sm">
+                      {severityStyles[severity].icon}
+                      <span className="ml-1">{count} {severityStyles[severity].label.toLowerCase()}</span>
+                    </Badge>
+                  );
+                })}
+              </div>
+            </div>
+
+            {warnings.map((warning, i) => (
+              <p key={i} className="text-xs text-amber-400">⚠️ {warning}</p>
+            ))}
+
+            {[...findingsByFile.entries()].map(([file, findings]) => (
+              <div key={file} className="rounded-lg border border-zinc-800 overflow-hidden">
+                <div className="flex items-center gap-2 px-3 py-1.5 bg-zinc-900/50 border-b border-zinc-800 text-xs text-zinc-300">
+                  <FileCode size={12} className="text-zinc-500 shrink-0" />
+                  <span className="truncate" title={file}>{file}</span>
+                </div>
+                {findings.map(finding => (
+                  <motion.button
+                    key={finding.id}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    onClick={() => handleJump(finding)}
+                    className="w-full text-left px-3 py-2 border-b border-zinc-800/50 last:border-b-0 hover:bg-zinc-800/40 transition-colors"
+                    title="Open in File Explorer"
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant={severityStyles[finding.severity].badge} size="sm">
+                        {severityStyles[finding.severity].icon}
+                        <span className="ml-1">{severityStyles[finding.severity].label}</span>
+                      </Badge>
+                      <span className="text-xs font-mono text-violet-400">L{finding.line}</span>
+                    </div>
+                    <p className="text-xs text-zinc-300 whitespace-pre-wrap">{finding.message}</p>
+                    {finding.suggestion && (
+                      <pre className="mt-2 p-2 rounded bg-zinc-950/60 border border-zinc-800 text-[11px] font-mono text-emerald-300 whitespace-pre-wrap overflow-x-auto">
+                        {finding.suggestion}
+                      </pre>
+                    )}
+                  </motion.button>
+                ))}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
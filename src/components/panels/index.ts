@@ -4,3 +4,4 @@ export { DiffViewer } from './DiffViewer';
 export { ActivityTimeline } from './ActivityTimeline';
 export { FileExplorer } from './FileExplorer';
 export { GitPanel } from './GitPanel';
+export { ReviewPanel } from './ReviewPanel';
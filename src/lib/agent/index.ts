@@ -0,0 +1,3 @@
+export * from './tools';
+export * from './protocol';
+export * from './loop';
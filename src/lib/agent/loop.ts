@@ -0,0 +1,122 @@
+import { AI_AGENT_CONFIG } from '@/lib/config';
+import { estimateTokens } from '@/lib/context';
+import { ProposedChange } from '@/lib/changes';
+import { ChatMessage } from '@/lib/providers';
+import { AgentStep } from '@/types';
+import { parseAgentReply } from './protocol';
+import { AgentWorkspace, describeToolCall, runAgentTool, workspaceChanges } from './tools';
+
+export interface AgentReply {
+  text: string;
+  /** Prompt and completion tokens the call used */
+  tokens: number;
+}
+
+export interface AgentRunResult {
+  summary: string;
+  changes: ProposedChange[];
+  steps: number;
+  tokens: number;
+  /** Why the run ended before the model called `finish` */
+  stopped?: string;
+}
+
+const OMITTED_RESULT = 'Tool result omitted to save space; call the tool again if you still need it.';
+
+function messagesTokens(messages: ChatMessage[], model: string): number {
+  return messages.reduce((sum, message) => sum + estimateTokens(message.content, model) + 4, 0);
+}
+
+/**
+ * Drop the oldest tool results until the conversation fits `maxTokens`; the
+ * latest result is always kept. Returns false when it still doesn't fit.
+ */
+function compactHistory(messages: ChatMessage[], results: number[], maxTokens: number, model: string): boolean {
+  for (const index of results.slice(0, -1)) {
+    if (messagesTokens(messages, model) <= maxTokens) return true;
+    messages[index] = { role: 'user', content: OMITTED_RESULT };
+  }
+  return messagesTokens(messages, model) <= maxTokens;
+}
+
+/**
+ * Run an agent: call the model, run the tool it asks for, send the result
+ * back, and repeat until it finishes, replies without a tool call, or the
+ * step or token cap is reached. Each step is reported through `onStep` as it
+ * completes. The edits in the workspace are the change set either way.
+ */
+export async function runAgent(options: {
+  workspace: AgentWorkspace;
+  systemPrompt: string;
+  /** First user message: the task and any starting context */
+  task: string;
+  /** Command label for change descriptions */
+  label: string;
+  model: string;
+  /** Prompt tokens a single call may use */
+  maxInputTokens: number;
+  complete: (messages: ChatMessage[]) => Promise<AgentReply>;
+  onStep: (step: AgentStep) => void;
+}): Promise<AgentRunResult> {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: options.systemPrompt },
+    { role: 'user', content: options.task },
+  ];
+  // Indexes of tool result messages, oldest first
+  const results: number[] = [];
+  let tokens = 0;
+  let summary = '';
+  let stopped: string | undefined = `Stopped after ${AI_AGENT_CONFIG.maxSteps} steps without finishing.`;
+  let steps = 0;
+
+  for (let index = 1; index <= AI_AGENT_CONFIG.maxSteps; index++) {
+    if (tokens >= AI_AGENT_CONFIG.maxTokens) {
+      stopped = `Stopped after ${steps} steps: the run used its ${AI_AGENT_CONFIG.maxTokens.toLocaleString()} token budget.`;
+      break;
+    }
+    if (!compactHistory(messages, results, options.maxInputTokens, options.model)) {
+      stopped = `Stopped after ${steps} steps: the conversation no longer fits ${options.model}.`;
+      break;
+    }
+
+    const reply = await options.complete(messages);
+    tokens += reply.tokens;
+    steps = index;
+    messages.push({ role: 'assistant', content: reply.text });
+
+    const parsed = parseAgentReply(reply.text);
+    if (!parsed.call && !parsed.error) {
+      // A plain answer ends the run
+      summary = parsed.reasoning;
+      stopped = undefined;
+      options.onStep({ index, reasoning: '', tool: null, call: 'answer', result: 'finished', failed: false });
+      break;
+    }
+    if (parsed.call?.tool === 'finish') {
+      const finishSummary = parsed.call.args.summary;
+      summary = typeof finishSummary === 'string' && finishSummary.trim() ? finishSummary.trim() : parsed.reasoning;
+      stopped = undefined;
+      options.onStep({ index, reasoning: parsed.reasoning, tool: 'finish', call: 'finish', result: 'finished', failed: false });
+      break;
+    }
+
+    const call = parsed.call;
+    const result = call
+      ? await runAgentTool(options.workspace, call)
+      : { output: `Error: ${parsed.error}`, summary: parsed.error!, failed: true };
+    const label = call ? describeToolCall(call) : 'invalid tool call';
+    options.onStep({ index, reasoning: parsed.reasoning, tool: call?.tool ?? null, call: label, result: result.summary, failed: result.failed });
+
+    results.push(messages.length);
+    messages.push({ role: 'user', content: `Result of ${label}:\n${result.output}` });
+    summary = parsed.reasoning;
+  }
+
+  return {
+    summary,
+    changes: workspaceChanges(options.workspace, options.label),
+    steps,
+    tokens,
+    stopped,
+  };
+}
@@ -0,0 +1,58 @@
+import { AI_AGENT_CONFIG } from '@/lib/config';
+import { AgentToolName } from '@/types';
+import { AGENT_TOOLS, AgentToolCall } from './tools';
+
+export interface ParsedAgentReply {
+  /** What the model wrote around the tool call */
+  reasoning: string;
+  /** Null when the reply has no tool call; the run then ends with `reasoning` as its summary */
+  call: AgentToolCall | null;
+  /** Why a tool call block was rejected, for the model to correct */
+  error?: string;
+}
+
+/**
+ * Appended to the agent system prompt
+ */
+export function buildAgentInstructions(): string {
+  return `
+Work in steps. In every reply, say in a sentence or two what you are doing next and why, then call exactly one tool with a single fenced \`\`\`json block:
+{"tool": "<name>", "args": {...}}
+Tools:
+- list_directory {"path": "<directory, \\"\\" for the root>"} — files and subdirectories
+- read_file {"path": "<file>", "startLine": <optional>, "endLine": <optional>} — the file with numbered lines ("12 | code"; the numbers are not part of the code). Long files are cut; read the rest by range.
+- search_code {"query": "<exact text, e.g. an identifier>"} — matching lines across the repository as "path:line: code", including your edits. Lowercase queries ignore case.
+- propose_edit {"path": "<file>", "edits": [{"search": "<exact lines from the file, without line numbers>", "replace": "<new lines>"}]} — edits your working copy of an existing file. Use {"path": "<file>", "content": "<whole file>"} to create a file.
+- finish {"summary": "<what you changed and why>"} — ends the run; your edits become the proposed change set.
+Rules:
+- Read a file before editing it, and search for usages before changing a name, type or signature, so every affected file is updated.
+- Keep edits minimal and in the style of the surrounding code.
+- You have at most ${AI_AGENT_CONFIG.maxSteps} steps; finish as soon as the task is done.
+- The user sees each tool call and the final summary, not the tool results.`;
+}
+
+/**
+ * The tool call at the end of an agent reply, with the prose around it
+ */
+export function parseAgentReply(text: string): ParsedAgentReply {
+  const blocks = [...text.matchAll(/```json\s*\n([\s\S]*?)```/g)];
+  const block = blocks[blocks.length - 1];
+  if (!block) return { reasoning: text.trim(), call: null };
+
+  const reasoning = (text.slice(0, block.index) + text.slice(block.index! + block[0].length)).trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(block[1]);
+  } catch {
+    return { reasoning, call: null, error: 'The tool call is not valid JSON.' };
+  }
+
+  const body = parsed as { tool?: unknown; args?: unknown };
+  if (!body || !AGENT_TOOLS.includes(body.tool as AgentToolName)) {
+    return { reasoning, call: null, error: `Unknown tool "${String(body?.tool)}". Use one of: ${AGENT_TOOLS.join(', ')}.` };
+  }
+  const args = body.args && typeof body.args === 'object' && !Array.isArray(body.args)
+    ? body.args as Record<string, unknown>
+    : {};
+  return { reasoning, call: { tool: body.tool as AgentToolName, args } };
+}
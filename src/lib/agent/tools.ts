@@ -0,0 +1,307 @@
+import { AI_AGENT_CONFIG } from '@/lib/config';
+import { fetchContents } from '@/lib/github';
+import { getRepoIndex, searchBm25, tokenize, citation } from '@/lib/retrieval';
+import { applySearchReplace, countDiffLines, isSafePath, languageFromPath, normalizePath, ProposedChange, SearchReplaceEdit } from '@/lib/changes';
+import { AgentToolName } from '@/types';
+
+/**
+ * A file the agent has read or edited during a run
+ */
+interface WorkspaceFile {
+  /** Content in the repository, null for a file the agent created */
+  original: string | null;
+  /** Content with the agent's edits applied */
+  current: string;
+}
+
+/**
+ * The repository an agent run works on, with its working copy of the files
+ * it touched. Reads go through the contents API; edits only ever change the
+ * working copy, which becomes the run's change set.
+ */
+export interface AgentWorkspace {
+  accessToken: string;
+  owner: string;
+  repo: string;
+  ref: string;
+  signal?: AbortSignal;
+  files: Map<string, WorkspaceFile>;
+  /** Set once the session's token has read the repository at `ref` */
+  accessChecked?: boolean;
+}
+
+export interface AgentToolCall {
+  tool: AgentToolName;
+  args: Record<string, unknown>;
+}
+
+export interface AgentToolResult {
+  /** Sent back to the model */
+  output: string;
+  /** Shown to the user, e.g. `120 lines` */
+  summary: string;
+  failed: boolean;
+}
+
+export const AGENT_TOOLS: AgentToolName[] = ['list_directory', 'read_file', 'search_code', 'propose_edit', 'finish'];
+
+function failure(message: string): AgentToolResult {
+  return { output: `Error: ${message}`, summary: message, failed: true };
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+function stringArg(args: Record<string, unknown>, name: string): string {
+  return typeof args[name] === 'string' ? (args[name] as string).trim() : '';
+}
+
+function cut(text: string, note: string): string {
+  return text.length > AI_AGENT_CONFIG.maxToolResultChars
+    ? `${text.slice(0, AI_AGENT_CONFIG.maxToolResultChars)}\n… ${note}`
+    : text;
+}
+
+/**
+ * Repository path from a tool argument, or null when it is missing or unsafe
+ */
+function toolPath(args: Record<string, unknown>): string | null {
+  const path = normalizePath(stringArg(args, 'path')).replace(/\/+$/, '');
+  return isSafePath(path) ? path : null;
+}
+
+/**
+ * Working copy of a file, loaded from the repository on first use; null
+ * when the file doesn't exist
+ */
+async function loadFile(workspace: AgentWorkspace, path: string): Promise<WorkspaceFile | null> {
+  const known = workspace.files.get(path);
+  if (known) return known;
+
+  try {
+    const contents = await fetchContents(workspace.accessToken, workspace.owner, workspace.repo, path, workspace.ref, workspace.signal);
+    if (contents.type !== 'file') return null;
+    const file = { original: contents.content, current: contents.content };
+    workspace.files.set(path, file);
+    return file;
+  } catch (error) {
+    if (workspace.signal?.aborted || !(error instanceof Error) || !error.message.includes('404')) throw error;
+    return null;
+  }
+}
+
+async function listDirectory(workspace: AgentWorkspace, args: Record<string, unknown>): Promise<AgentToolResult> {
+  const raw = stringArg(args, 'path');
+  const path = raw === '' || raw === '.' || raw === '/' ? '' : toolPath(args);
+  if (path === null) return failure(`invalid path "${raw}"`);
+
+  const contents = await fetchContents(workspace.accessToken, workspace.owner, workspace.repo, path, workspace.ref, workspace.signal);
+  if (contents.type !== 'dir') return failure(`${path} is a file; use read_file`);
+
+  // Files the agent created here aren't in the repository listing yet
+  const created = [...workspace.files.entries()]
+    .filter(([filePath, file]) => file.original === null && filePath.slice(0, filePath.lastIndexOf('/') + 1) === (path ? `${path}/` : ''))
+    .map(([filePath]) => `${filePath.slice(filePath.lastIndexOf('/') + 1)} (created by you)`);
+  const entries = [
+    ...contents.files.map(entry => entry.type === 'dir' ? `${entry.name}/` : `${entry.name} (${entry.size} bytes)`),
+    ...created,
+  ];
+  const shown = entries.slice(0, AI_AGENT_CONFIG.maxListEntries);
+  const more = entries.length > shown.length ? `\n… ${entries.length - shown.length} more entries` : '';
+
+  return {
+    output: `${path || '/'}:\n${shown.join('\n')}${more}`,
+    summary: plural(entries.length, 'entry', 'entries'),
+    failed: false,
+  };
+}
+
+async function readFile(workspace: AgentWorkspace, args: Record<string, unknown>): Promise<AgentToolResult> {
+  const path = toolPath(args);
+  if (!path) return failure(`invalid path "${stringArg(args, 'path')}"`);
+
+  const file = await loadFile(workspace, path);
+  if (!file) return failure(`${path} does not exist`);
+
+  const lines = file.current.split('\n');
+  const start = Number.isInteger(args.startLine) ? Math.max(1, args.startLine as number) : 1;
+  const end = Number.isInteger(args.endLine) ? Math.min(lines.length, args.endLine as number) : lines.length;
+  if (start > end) return failure(`${path} has ${plural(lines.length, 'line')}`);
+
+  const width = String(end).length;
+  const numbered = lines.slice(start - 1, end).map((line, i) => `${String(start + i).padStart(width)} | ${line}`).join('\n');
+  const range = start === 1 && end === lines.length ? '' : ` (lines ${start}-${end} of ${lines.length})`;
+  const edited = file.original !== file.current ? ', with your edits' : '';
+
+  return {
+    output: cut(`${path}${range}${edited}:\n${numbered}`, 'cut here; read the rest with startLine/endLine'),
+    summary: plural(end - start + 1, 'line'),
+    failed: false,
+  };
+}
+
+async function searchCode(workspace: AgentWorkspace, args: Record<string, unknown>): Promise<AgentToolResult> {
+  const query = stringArg(args, 'query');
+  if (!query) return failure('query is required');
+
+  // The index is shared between users, so the session's own token has to
+  // read the repository before the search may use it
+  if (!workspace.accessChecked) {
+    try {
+      await fetchContents(workspace.accessToken, workspace.owner, workspace.repo, '', workspace.ref, workspace.signal);
+    } catch (error) {
+      if (workspace.signal?.aborted) throw error;
+      return failure(`cannot read ${workspace.owner}/${workspace.repo} at ${workspace.ref}`);
+    }
+    workspace.accessChecked = true;
+  }
+
+  const index = await getRepoIndex(workspace.accessToken, workspace.owner, workspace.repo, workspace.ref);
+  // Smart case: lowercase queries match any case
+  const matches = query === query.toLowerCase()
+    ? (line: string) => line.toLowerCase().includes(query)
+    : (line: string) => line.includes(query);
+
+  const hits: string[] = [];
+  const collect = (path: string, content: string, firstLine: number) => {
+    content.split('\n').forEach((line, i) => {
+      if (hits.length <= AI_AGENT_CONFIG.maxSearchResults && matches(line)) {
+        hits.push(`${path}:${firstLine + i}: ${line.trim().slice(0, 200)}`);
+      }
+    });
+  };
+  // The working copy wins over the indexed version of files the agent touched
+  for (const [path, file] of workspace.files) collect(path, file.current, 1);
+  for (const chunk of index.chunks) {
+    if (!workspace.files.has(chunk.path)) collect(chunk.path, chunk.content, chunk.startLine);
+  }
+
+  const coverage = index.skippedFiles > 0 ? `\n(The search covers the first ${index.files.size} files of the repository.)` : '';
+  if (hits.length > 0) {
+    const shown = hits.slice(0, AI_AGENT_CONFIG.maxSearchResults);
+    const more = hits.length > shown.length ? `\n… more matches; narrow the query` : '';
+    return { output: `${shown.join('\n')}${more}${coverage}`, summary: `${plural(shown.length, 'match', 'matches')}${more ? '+' : ''}`, failed: false };
+  }
+
+  // No literal match: fall back to ranked chunks for the query's terms
+  const ranked = searchBm25(index.bm25, new Map(tokenize(query).map(term => [term, 1])))
+    .slice(0, 5)
+    .map(match => index.chunks[match.index]);
+  if (ranked.length === 0) return { output: `No matches for "${query}".${coverage}`, summary: 'no matches', failed: false };
+  return {
+    output: `No exact matches for "${query}". Closest code:\n${ranked.map(chunk => chunk.symbol ? `${citation(chunk)} (${chunk.symbol})` : citation(chunk)).join('\n')}${coverage}`,
+    summary: `no exact matches, ${plural(ranked.length, 'related chunk')}`,
+    failed: false,
+  };
+}
+
+function parseEdits(raw: unknown): SearchReplaceEdit[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  return raw.every(edit => edit && typeof edit.search === 'string' && typeof edit.replace === 'string')
+    ? raw as SearchReplaceEdit[]
+    : null;
+}
+
+async function proposeEdit(workspace: AgentWorkspace, args: Record<string, unknown>): Promise<AgentToolResult> {
+  const path = toolPath(args);
+  if (!path) return failure(`invalid path "${stringArg(args, 'path')}"`);
+
+  const file = await loadFile(workspace, path);
+  const edited = [...workspace.files.values()].filter(f => f.current !== f.original).length;
+  const alreadyEdited = !!file && file.current !== file.original;
+  if (!alreadyEdited && edited >= AI_AGENT_CONFIG.maxEditedFiles) {
+    return failure(`a run may edit at most ${AI_AGENT_CONFIG.maxEditedFiles} files`);
+  }
+
+  if (typeof args.content === 'string') {
+    if (file) file.current = args.content;
+    else workspace.files.set(path, { original: null, current: args.content });
+  } else {
+    const edits = parseEdits(args.edits);
+    if (!edits) return failure('propose_edit needs "edits" ([{"search", "replace"}]) or "content"');
+    if (!file) return failure(`${path} does not exist; create it with "content"`);
+
+    const result = applySearchReplace(file.current, edits);
+    if (result.failures.length > 0) {
+      return failure(`nothing applied to ${path}: ${result.failures.join('; ')}. Read the file again and copy the search lines exactly.`);
+    }
+    file.current = result.content;
+  }
+
+  const current = workspace.files.get(path)!;
+  const counts = countDiffLines(current.original ?? '', current.current);
+  const summary = `${current.original === null ? 'created' : 'edited'} ${path} (+${counts.added} -${counts.removed})`;
+  return { output: `OK, ${summary} in your working copy.`, summary, failed: false };
+}
+
+/**
+ * Short form of a call for the output console
+ */
+export function describeToolCall(call: AgentToolCall): string {
+  const path = stringArg(call.args, 'path');
+  switch (call.tool) {
+    case 'list_directory':
+      return `list_directory ${path || '/'}`;
+    case 'read_file': {
+      const range = Number.isInteger(call.args.startLine) || Number.isInteger(call.args.endLine)
+        ? `:${call.args.startLine ?? 1}-${call.args.endLine ?? 'end'}`
+        : '';
+      return `read_file ${path}${range}`;
+    }
+    case 'search_code':
+      return `search_code "${stringArg(call.args, 'query').slice(0, 80)}"`;
+    case 'propose_edit':
+      return `propose_edit ${path}`;
+    case 'finish':
+      return 'finish';
+  }
+}
+
+/**
+ * Run one tool call against the workspace. Problems the model can fix (bad
+ * paths, edits that don't apply, GitHub errors) come back as failed results
+ * for it to read; cancellation is rethrown.
+ */
+export async function runAgentTool(workspace: AgentWorkspace, call: AgentToolCall): Promise<AgentToolResult> {
+  try {
+    switch (call.tool) {
+      case 'list_directory':
+        return await listDirectory(workspace, call.args);
+      case 'read_file':
+        return await readFile(workspace, call.args);
+      case 'search_code':
+        return await searchCode(workspace, call.args);
+      case 'propose_edit':
+        return await proposeEdit(workspace, call.args);
+      case 'finish':
+        return { output: '', summary: 'finished', failed: false };
+    }
+  } catch (error) {
+    if (workspace.signal?.aborted) throw error;
+    return failure(error instanceof Error ? error.message : `${call.tool} failed`);
+  }
+}
+
+/**
+ * The run's change set: every file whose working copy differs from the repository
+ */
+export function workspaceChanges(workspace: AgentWorkspace, label: string): ProposedChange[] {
+  return [...workspace.files.entries()]
+    .filter(([, file]) => file.current !== file.original)
+    .map(([path, file]) => {
+      const before = file.original ?? '';
+      const counts = countDiffLines(before, file.current);
+      return {
+        operation: file.original === null ? 'create' : 'modify',
+        file: path,
+        filename: path.split('/').pop() || path,
+        language: languageFromPath(path),
+        before,
+        after: file.current,
+        additions: counts.added,
+        deletions: counts.removed,
+        description: `${label} (agent) ${file.original === null ? 'created' : 'updated'} ${path}`,
+      };
+    });
+}
@@ -0,0 +1,168 @@
+import { AI_AUDIT_CONFIG } from '@/lib/config';
+import { applySearchReplace, countDiffLines, languageFromPath, ProposedChange, SearchReplaceEdit } from '@/lib/changes';
+import { AuditFinding, AuditSeverity } from '@/types';
+import { AuditSource } from './sources';
+
+export const AUDIT_SEVERITIES: AuditSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+export interface ParsedAudit {
+  summary: string;
+  findings: AuditFinding[];
+  /** One change per finding whose patch applied, in finding order */
+  changes: ProposedChange[];
+  /** Why findings or patches were dropped (unknown file, bad CWE, patch didn't apply) */
+  errors: string[];
+}
+
+/**
+ * Appended to the audit system prompt
+ */
+export function buildAuditInstructions(): string {
+  return `
+Every file is shown with its line numbers ("12 | code"); the numbers are not part of the code.
+After a short overall assessment, list your findings in a single fenced \`\`\`json block with this exact shape:
+{"summary": "<one or two sentences>", "findings": [
+  {"file": "<path as shown>", "startLine": <first line>, "endLine": <last line>, "cwe": "CWE-<number>", "title": "<short name of the weakness>", "severity": "critical" | "high" | "medium" | "low", "message": "<how it can be exploited and what to do>",
+   "edits": [{"search": "<exact lines from the file, without line numbers>", "replace": "<fixed lines>"}]}
+]}
+Rules:
+- Look for injection (SQL, command, path traversal, XSS, template), unsafe deserialization, missing authentication or authorization checks, hard-coded secrets and credentials, weak cryptography, SSRF and insecure defaults.
+- Only report issues you can point at in the code shown, with the most specific CWE id. No generic advice, no style issues.
+- "edits" is a minimal fix for that finding alone: each "search" copies a few consecutive lines verbatim, "replace" is what they become. Leave "edits" out when the fix needs changes outside the file, and say so in the message.
+- At most ${AI_AUDIT_CONFIG.maxFindings} findings; an empty list is fine when nothing stands out.
+- Emit the JSON block exactly once and nothing after it.`;
+}
+
+/**
+ * `CWE-89`, `cwe 89` or `89` → `CWE-89`
+ */
+function normalizeCwe(raw: unknown): string | null {
+  const match = String(raw ?? '').match(/^\s*(?:cwe[\s-]*)?(\d{1,4})\s*$/i);
+  return match ? `CWE-${Number(match[1])}` : null;
+}
+
+function parseEdits(raw: unknown): SearchReplaceEdit[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((edit): edit is SearchReplaceEdit =>
+    !!edit && typeof edit.search === 'string' && edit.search.trim() !== '' && typeof edit.replace === 'string');
+}
+
+function basename(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/**
+ * Find the findings JSON block in an audit reply, validate each finding
+ * against the files that were sent and turn its edits into a change of its
+ * own, so each fix can be reviewed and pushed separately
+ */
+export function parseAuditFindings(text: string, sources: AuditSource[]): ParsedAudit {
+  const files = new Map(sources.map(source => [source.path, source.content]));
+  const blocks = [...text.matchAll(/```json\s*\n([\s\S]*?)```/g)];
+
+  for (const block of blocks.reverse()) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(block[1]);
+    } catch {
+      continue;
+    }
+
+    const body = parsed as { summary?: unknown; findings?: unknown };
+    if (!body || !Array.isArray(body.findings)) continue;
+
+    const errors: string[] = [];
+    const findings: AuditFinding[] = [];
+    const changes: ProposedChange[] = [];
+
+    body.findings.forEach((raw, index) => {
+      const finding = raw as Record<string, unknown>;
+      const label = `findings[${index}]`;
+      if (!finding || typeof finding !== 'object') {
+        errors.push(`${label} is not an object`);
+        return;
+      }
+
+      const file = typeof finding.file === 'string' ? finding.file.trim().replace(/^\.\//, '') : '';
+      const content = files.get(file);
+      if (content === undefined) {
+        errors.push(`${label} refers to ${file || 'no file'}, which was not audited`);
+        return;
+      }
+      const lineCount = content.split('\n').length;
+      const start = Number(finding.startLine);
+      const end = Number(finding.endLine ?? finding.startLine);
+      if (!Number.isInteger(start) || start < 1 || start > lineCount) {
+        errors.push(`${label} (${file}) has no valid line range`);
+        return;
+      }
+      const cwe = normalizeCwe(finding.cwe);
+      if (!cwe) {
+        errors.push(`${label} (${file}:${start}) has no CWE id`);
+        return;
+      }
+      if (typeof finding.message !== 'string' || !finding.message.trim()) {
+        errors.push(`${label} (${file}:${start}) has no message`);
+        return;
+      }
+      if (findings.length >= AI_AUDIT_CONFIG.maxFindings) {
+        errors.push(`${label} is over the limit of ${AI_AUDIT_CONFIG.maxFindings} findings`);
+        return;
+      }
+
+      const endLine = Number.isInteger(end) ? Math.min(Math.max(end, start), lineCount) : start;
+      const id = `${file}:${start}:${index}`;
+      const title = typeof finding.title === 'string' && finding.title.trim() ? finding.title.trim() : cwe;
+
+      // Each patch is applied to the file as audited, independent of the
+      // others; pushing replays it onto whatever earlier fixes left behind
+      let patched = false;
+      const edits = parseEdits(finding.edits);
+      if (edits.length > 0) {
+        const result = applySearchReplace(content, edits);
+        if (result.failures.length > 0) {
+          errors.push(`Patch for ${cwe} at ${file}:${start} did not apply: ${result.failures.join('; ')}`);
+        } else if (result.content !== content) {
+          const counts = countDiffLines(content, result.content);
+          changes.push({
+            operation: 'modify',
+            file,
+            filename: basename(file),
+            language: languageFromPath(file),
+            before: content,
+            after: result.content,
+            additions: counts.added,
+            deletions: counts.removed,
+            description: `${cwe} ${title} (${file}:${start === endLine ? start : `${start}-${endLine}`})`,
+          });
+          patched = true;
+        }
+      }
+
+      findings.push({
+        id,
+        cwe,
+        title,
+        file,
+        startLine: start,
+        endLine,
+        severity: AUDIT_SEVERITIES.includes(finding.severity as AuditSeverity)
+          ? finding.severity as AuditSeverity
+          : 'medium',
+        message: finding.message.trim(),
+        patched,
+      });
+    });
+
+    const prose = (text.slice(0, block.index) + text.slice(block.index! + block[0].length)).trim();
+    return {
+      summary: typeof body.summary === 'string' && body.summary.trim() ? body.summary.trim() : prose,
+      findings,
+      changes,
+      errors,
+    };
+  }
+
+  // No findings block — keep the prose so the audit isn't lost
+  return { summary: text.trim(), findings: [], changes: [], errors: ['The reply did not include a findings block.'] };
+}
@@ -0,0 +1,3 @@
+export * from './sources';
+export * from './findings';
+export * from './sarif';
@@ -0,0 +1,74 @@
+import { AuditSeverity, SecurityAudit } from '@/types';
+
+// GitHub code scanning ranks alerts by a rule's `security-severity` (0–10)
+const SECURITY_SEVERITY: Record<AuditSeverity, number> = {
+  critical: 9.5,
+  high: 8.0,
+  medium: 5.5,
+  low: 3.0,
+};
+
+const LEVELS: Record<AuditSeverity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+function cweNumber(cwe: string): string {
+  return cwe.replace(/^CWE-/, '');
+}
+
+/**
+ * SARIF 2.1.0 log for an audit, in the shape GitHub code scanning accepts
+ * from the upload-sarif action. One rule per CWE, one result per finding.
+ */
+export function toSarif(audit: SecurityAudit): object {
+  const ruleIds = [...new Set(audit.findings.map(finding => finding.cwe))];
+  const rules = ruleIds.map(cwe => {
+    const findings = audit.findings.filter(finding => finding.cwe === cwe);
+    const score = Math.max(...findings.map(finding => SECURITY_SEVERITY[finding.severity]));
+    return {
+      id: cwe,
+      name: findings[0].title,
+      shortDescription: { text: findings[0].title },
+      helpUri: `https://cwe.mitre.org/data/definitions/${cweNumber(cwe)}.html`,
+      properties: {
+        tags: ['security', `external/cwe/cwe-${cweNumber(cwe)}`],
+        'security-severity': score.toFixed(1),
+        precision: 'medium',
+      },
+    };
+  });
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'Copilot Studio Audit',
+          rules,
+        },
+      },
+      automationDetails: { id: `copilot-studio-audit/${audit.scope}/` },
+      versionControlProvenance: [{
+        repositoryUri: `https://github.com/${audit.repository}`,
+        branch: audit.ref,
+      }],
+      results: audit.findings.map(finding => ({
+        ruleId: finding.cwe,
+        ruleIndex: ruleIds.indexOf(finding.cwe),
+        level: LEVELS[finding.severity],
+        message: { text: `${finding.title}: ${finding.message}` },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: finding.file, uriBaseId: '%SRCROOT%' },
+            region: { startLine: finding.startLine, endLine: finding.endLine },
+          },
+        }],
+        properties: { severity: finding.severity },
+      })),
+    }],
+  };
+}
@@ -0,0 +1,123 @@
+import { AI_AUDIT_CONFIG } from '@/lib/config';
+import { estimateTokens } from '@/lib/context';
+import { fetchBlobContent, fetchRepoTree, TreeEntry } from '@/lib/github';
+import { mapConcurrent } from '@/lib/utils';
+
+/**
+ * A file sent for auditing, as it is in the repository
+ */
+export interface AuditSource {
+  path: string;
+  content: string;
+}
+
+export interface AuditSources {
+  /** Prompt section with every file's numbered lines */
+  text: string;
+  files: AuditSource[];
+  skippedFiles: string[];
+}
+
+function isAuditable(entry: TreeEntry): boolean {
+  if (entry.type !== 'blob') return false;
+  if ((entry.size ?? 0) > AI_AUDIT_CONFIG.maxFileBytes) return false;
+  if (AI_AUDIT_CONFIG.ignoredPaths.some(pattern => pattern.test(entry.path))) return false;
+  const extension = entry.path.split('.').pop()?.toLowerCase() ?? '';
+  return AI_AUDIT_CONFIG.extensions.includes(extension);
+}
+
+/**
+ * A file with each line prefixed by its number, so findings can cite ranges
+ */
+export function formatAuditSource(source: AuditSource): string {
+  const lines = source.content.split('\n');
+  const width = String(lines.length).length;
+  const numbered = lines.map((line, i) => `${String(i + 1).padStart(width)} | ${line}`).join('\n');
+  return `File: ${source.path}\n\`\`\`\n${numbered}\n\`\`\``;
+}
+
+/**
+ * Fit sources into `maxTokens` in order; the rest are listed as skipped
+ */
+export function fitAuditSources(sources: AuditSource[], options: { maxTokens: number; model: string }): AuditSources {
+  const files: AuditSource[] = [];
+  const blocks: string[] = [];
+  const skippedFiles: string[] = [];
+  let tokens = 0;
+
+  for (const source of sources) {
+    const block = formatAuditSource(source);
+    const cost = estimateTokens(block, options.model);
+    if (files.length >= AI_AUDIT_CONFIG.maxFiles || tokens + cost > options.maxTokens) {
+      skippedFiles.push(source.path);
+      continue;
+    }
+    tokens += cost;
+    files.push(source);
+    blocks.push(block);
+  }
+
+  return { text: blocks.join('\n\n'), files, skippedFiles };
+}
+
+/**
+ * Source files of a repository for a repository-wide audit. Security-relevant
+ * paths come first, then shallow ones; blobs are fetched in that order until
+ * the token budget is spent, so a large repository costs no more requests
+ * than the files that end up in the prompt. `selected` (the file open in the
+ * editor, possibly with unsaved content) always goes first.
+ */
+export async function collectRepoAuditSources(options: {
+  accessToken: string;
+  repository: string;
+  ref: string;
+  selected: AuditSource | null;
+  maxTokens: number;
+  model: string;
+  signal?: AbortSignal;
+}): Promise<AuditSources> {
+  const [owner, repo] = options.repository.split('/');
+  const tree = await fetchRepoTree(options.accessToken, owner, repo, options.ref, options.signal);
+
+  const candidates = tree.entries
+    .filter(entry => isAuditable(entry) && entry.path !== options.selected?.path)
+    .sort((a, b) =>
+      Number(AI_AUDIT_CONFIG.priorityPaths.test(b.path)) - Number(AI_AUDIT_CONFIG.priorityPaths.test(a.path))
+      || a.path.split('/').length - b.path.split('/').length
+      || a.path.localeCompare(b.path));
+
+  const sources: AuditSource[] = options.selected ? [options.selected] : [];
+  const skippedFiles: string[] = [];
+  let tokens = options.selected ? estimateTokens(formatAuditSource(options.selected), options.model) : 0;
+
+  // Fetch a batch at a time and stop once the budget is spent
+  for (let start = 0; start < candidates.length; start += AI_AUDIT_CONFIG.fetchConcurrency) {
+    const batch = candidates.slice(start, start + AI_AUDIT_CONFIG.fetchConcurrency);
+    if (sources.length >= AI_AUDIT_CONFIG.maxFiles || tokens >= options.maxTokens) {
+      skippedFiles.push(...candidates.slice(start).map(entry => entry.path));
+      break;
+    }
+
+    const fetched = await mapConcurrent(batch, AI_AUDIT_CONFIG.fetchConcurrency, async entry => {
+      try {
+        return { path: entry.path, content: await fetchBlobContent(options.accessToken, owner, repo, entry.sha, options.signal) };
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        // One unreadable file shouldn't sink the whole audit
+        console.error(`Audit: failed to fetch ${entry.path}:`, error);
+        return null;
+      }
+    });
+    for (const source of fetched) {
+      if (!source) continue;
+      sources.push(source);
+      tokens += estimateTokens(formatAuditSource(source), options.model);
+    }
+  }
+
+  const fitted = fitAuditSources(sources, { maxTokens: options.maxTokens, model: options.model });
+  return {
+    ...fitted,
+    skippedFiles: [...fitted.skippedFiles, ...skippedFiles],
+  };
+}
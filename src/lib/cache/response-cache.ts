@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import { AI_CACHE_CONFIG } from '@/lib/config';
+
+export interface CacheKeyParts {
+  /** Entries are never shared between users */
+  userId: string;
+  /** Route that produced the response — prompts differ between execute and stream */
+  route: string;
+  command: string;
+  provider: string;
+  model: string;
+  prompt: string;
+  /** Where the file lives; change sets name its path, so identical content elsewhere can't share them */
+  repository?: string | null;
+  ref?: string | null;
+  filePath?: string | null;
+  fileName?: string | null;
+  language?: string | null;
+  /** File content as sent; hashed, never trusted from a client-supplied sha */
+  fileContent?: string | null;
+  /** Repository instructions appended to the system prompt */
+  instructions?: string | null;
+  /** Repository context attached to the prompt (related code, imported declarations) */
+  repoContext?: string | null;
+  /** Selected line range, when the command runs on part of the file */
+  selection?: string | null;
+  /** Translation target and the path the result is created at */
+  target?: string | null;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// In-memory response cache, keyed per user (use Redis in production)
+const responseCache = new Map<string, CacheEntry<unknown>>();
+
+/**
+ * Collapse whitespace so trivially different prompts share an entry
+ */
+function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Stable cache key for an invocation by one user. The file is identified by
+ * a hash of the content that was actually sent.
+ */
+export function buildCacheKey(parts: CacheKeyParts): string {
+  const fileVersion = parts.fileContent ? createHash('sha256').update(parts.fileContent).digest('hex') : '';
+
+  return createHash('sha256')
+    .update(JSON.stringify([
+      parts.userId,
+      parts.route,
+      parts.command,
+      parts.provider,
+      parts.model,
+      normalizePrompt(parts.prompt),
+      parts.repository || '',
+      parts.ref || '',
+      parts.filePath || '',
+      parts.fileName || '',
+      parts.language || '',
+      fileVersion,
+      parts.instructions || '',
+      parts.repoContext || '',
+      parts.selection || '',
+      parts.target || '',
+    ]))
+    .digest('hex');
+}
+
+export function getCachedResponse<T>(key: string): T | null {
+  if (!AI_CACHE_CONFIG.enabled) return null;
+
+  const entry = responseCache.get(key);
+  if (!entry) return null;
+  if (Date.now() > entry.expiresAt) {
+    responseCache.delete(key);
+    return null;
+  }
+  return entry.value as T;
+}
+
+export function setCachedResponse<T>(key: string, value: T): void {
+  if (!AI_CACHE_CONFIG.enabled) return;
+
+  // Re-insert so a refreshed entry moves to the back, then evict the oldest
+  responseCache.delete(key);
+  responseCache.set(key, { value, expiresAt: Date.now() + AI_CACHE_CONFIG.ttlMs });
+  while (responseCache.size > AI_CACHE_CONFIG.maxEntries) {
+    const oldest = responseCache.keys().next().value;
+    if (oldest === undefined) break;
+    responseCache.delete(oldest);
+  }
+}
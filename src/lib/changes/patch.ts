@@ -0,0 +1,302 @@
+/**
+ * Patch applier for patch-mode edits. The model sends search/replace blocks
+ * or unified-diff hunks instead of whole files; each block is located in the
+ * current file (exact, then whitespace-insensitive, then fuzzy) and spliced in.
+ */
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+export interface PatchResult {
+  content: string;
+  /** Number of edits/hunks applied */
+  applied: number;
+  /** One message per edit/hunk that could not be located */
+  failures: string[];
+}
+
+interface Replacement {
+  oldLines: string[];
+  newLines: string[];
+  /** 0-based line where the block is expected to start */
+  hint: number;
+  label: string;
+}
+
+// Fraction of lines that must match for a fuzzy hit, and the minimum block size to try
+const FUZZY_THRESHOLD = 0.75;
+const FUZZY_MIN_LINES = 3;
+
+const normalizeLine = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+/**
+ * Start positions ordered by distance from the hint, so repeated snippets
+ * resolve to the occurrence nearest where the model said it would be
+ */
+function* positionsNear(hint: number, max: number): Generator<number> {
+  const start = Math.min(Math.max(hint, 0), max);
+  yield start;
+  for (let distance = 1; start - distance >= 0 || start + distance <= max; distance++) {
+    if (start + distance <= max) yield start + distance;
+    if (start - distance >= 0) yield start - distance;
+  }
+}
+
+function matchesAt(lines: string[], target: string[], pos: number, compare: (a: string, b: string) => boolean): boolean {
+  for (let i = 0; i < target.length; i++) {
+    if (!compare(lines[pos + i], target[i])) return false;
+  }
+  return true;
+}
+
+/**
+ * Find where `target` sits in `lines`. Returns the start index and whether
+ * the match was exact (so callers know whether to re-indent the replacement).
+ * With `exactOnly`, loose matches are not tried.
+ */
+function locateBlock(lines: string[], target: string[], hint: number, exactOnly = false): { index: number; exact: boolean } | null {
+  if (target.length === 0) return { index: Math.min(Math.max(hint, 0), lines.length), exact: true };
+  const max = lines.length - target.length;
+  if (max < 0) return null;
+
+  for (const pos of positionsNear(hint, max)) {
+    if (matchesAt(lines, target, pos, (a, b) => a === b)) return { index: pos, exact: true };
+  }
+  if (exactOnly) return null;
+
+  const normalized = target.map(normalizeLine);
+  for (const pos of positionsNear(hint, max)) {
+    if (matchesAt(lines, normalized, pos, (a, b) => normalizeLine(a) === b)) return { index: pos, exact: false };
+  }
+
+  if (target.length < FUZZY_MIN_LINES) return null;
+
+  let best: { index: number; score: number } | null = null;
+  for (const pos of positionsNear(hint, max)) {
+    let matching = 0;
+    for (let i = 0; i < target.length; i++) {
+      if (normalizeLine(lines[pos + i]) === normalized[i]) matching++;
+    }
+    const score = matching / target.length;
+    // Strictly greater keeps the candidate closest to the hint on ties
+    if (score >= FUZZY_THRESHOLD && (!best || score > best.score)) {
+      best = { index: pos, score };
+    }
+  }
+
+  return best ? { index: best.index, exact: false } : null;
+}
+
+const leadingWhitespace = (line: string) => line.match(/^\s*/)![0];
+
+/**
+ * When a block matched loosely, shift the replacement's indentation by the
+ * first difference between the model's indentation and the file's
+ */
+function reindent(newLines: string[], oldLines: string[], fileLines: string[]): string[] {
+  const index = oldLines.findIndex((line, i) =>
+    line.trim() && leadingWhitespace(line) !== leadingWhitespace(fileLines[i])
+  );
+  if (index === -1) return newLines;
+
+  const from = leadingWhitespace(oldLines[index]);
+  const to = leadingWhitespace(fileLines[index]);
+  return newLines.map(line => (line.startsWith(from) ? to + line.slice(from.length) : line));
+}
+
+function applyReplacements(content: string, replacements: Replacement[], exactOnly = false): PatchResult {
+  const lines = content.split('\n');
+  const failures: string[] = [];
+  let applied = 0;
+  let offset = 0;
+
+  for (const replacement of replacements) {
+    const match = locateBlock(lines, replacement.oldLines, replacement.hint + offset, exactOnly);
+    if (!match) {
+      failures.push(`${replacement.label} did not match the file`);
+      continue;
+    }
+
+    const matched = lines.slice(match.index, match.index + replacement.oldLines.length);
+    const newLines = match.exact ? replacement.newLines : reindent(replacement.newLines, replacement.oldLines, matched);
+    lines.splice(match.index, replacement.oldLines.length, ...newLines);
+    offset = match.index - replacement.hint + newLines.length - replacement.oldLines.length;
+    applied++;
+  }
+
+  return { content: lines.join('\n'), applied, failures };
+}
+
+/**
+ * Strip the blank lines models tend to pad blocks with
+ */
+function toLines(text: string): string[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  while (lines.length > 0 && lines[0].trim() === '') lines.shift();
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Apply search/replace blocks in order
+ */
+export function applySearchReplace(content: string, edits: SearchReplaceEdit[]): PatchResult {
+  return applyReplacements(content, edits.map((edit, i) => ({
+    oldLines: toLines(edit.search),
+    newLines: toLines(edit.replace),
+    hint: 0,
+    label: `Edit ${i + 1}`,
+  })));
+}
+
+// Unchanged lines kept around each hunk when re-applying an edit, and the
+// largest line table the diff will build before falling back to one hunk
+const REBASE_CONTEXT_LINES = 3;
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Changed line ranges between two versions, as [beforeStart, beforeEnd,
+ * afterStart, afterEnd] with exclusive ends. The common prefix and suffix are
+ * skipped before a longest-common-subsequence pass over what is left.
+ */
+function diffBlocks(before: string[], after: string[]): [number, number, number, number][] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix && suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const n = before.length - prefix - suffix;
+  const m = after.length - prefix - suffix;
+  if (n === 0 && m === 0) return [];
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return [[prefix, prefix + n, prefix, prefix + m]];
+  }
+
+  // lengths[i * (m + 1) + j]: LCS of before[prefix + i..] and after[prefix + j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = before[prefix + i] === after[prefix + j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const blocks: [number, number, number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[prefix + i] === after[prefix + j]) {
+      i++;
+      j++;
+      continue;
+    }
+    const start: [number, number] = [i, j];
+    while ((i < n || j < m) && !(i < n && j < m && before[prefix + i] === after[prefix + j])) {
+      if (j >= m || (i < n && lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) i++;
+      else j++;
+    }
+    blocks.push([prefix + start[0], prefix + i, prefix + start[1], prefix + j]);
+  }
+  return blocks;
+}
+
+/**
+ * The edit that turned `before` into `after` as hunks with surrounding
+ * context, merging changes close enough for their context to overlap
+ */
+function diffReplacements(before: string[], after: string[]): Replacement[] {
+  const hunks: Replacement[] = [];
+  let pending: [number, number, number, number] | null = null;
+
+  const flush = () => {
+    if (!pending) return;
+    const [beforeStart, beforeEnd, afterStart, afterEnd] = pending;
+    const leading = Math.min(REBASE_CONTEXT_LINES, beforeStart);
+    const trailing = Math.min(REBASE_CONTEXT_LINES, before.length - beforeEnd);
+    hunks.push({
+      oldLines: before.slice(beforeStart - leading, beforeEnd + trailing),
+      newLines: after.slice(afterStart - leading, afterEnd + trailing),
+      hint: beforeStart - leading,
+      label: `Hunk ${hunks.length + 1}`,
+    });
+  };
+
+  for (const block of diffBlocks(before, after)) {
+    if (pending && block[0] - pending[1] <= 2 * REBASE_CONTEXT_LINES) {
+      pending = [pending[0], block[1], pending[2], block[3]];
+    } else {
+      flush();
+      pending = block;
+    }
+  }
+  flush();
+  return hunks;
+}
+
+/**
+ * Re-apply the edit that turned `before` into `after` onto `current`, a
+ * newer version of the same file. Hunks must match exactly; one that doesn't
+ * is a failure, because the file changed underneath the edit.
+ */
+export function rebaseEdit(before: string, after: string, current: string): PatchResult {
+  if (current === before) return { content: after, applied: 1, failures: [] };
+  const hunks = diffReplacements(before.split('\n'), after.split('\n'));
+  return applyReplacements(current, hunks, true);
+}
+
+/**
+ * Parse unified-diff hunks. File headers are ignored; a hunk's old side is
+ * its context plus removed lines, the new side its context plus added lines.
+ */
+function parseUnifiedDiff(patch: string): Replacement[] {
+  const hunks: Replacement[] = [];
+  let current: Replacement | null = null;
+
+  for (const line of patch.replace(/\r\n/g, '\n').split('\n')) {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      current = { oldLines: [], newLines: [], hint: Math.max(parseInt(header[1]) - 1, 0), label: `Hunk ${hunks.length + 1}` };
+      hunks.push(current);
+      continue;
+    }
+    if (!current || line.startsWith('---') || line.startsWith('+++') || line.startsWith('\\')) continue;
+
+    if (line.startsWith('-')) {
+      current.oldLines.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      current.newLines.push(line.slice(1));
+    } else {
+      // Context line; models often drop the leading space on blank lines
+      const text = line.startsWith(' ') ? line.slice(1) : line;
+      current.oldLines.push(text);
+      current.newLines.push(text);
+    }
+  }
+
+  // Trailing blank context is usually an artifact of the closing fence
+  for (const hunk of hunks) {
+    while (hunk.oldLines.at(-1) === '' && hunk.newLines.at(-1) === '') {
+      hunk.oldLines.pop();
+      hunk.newLines.pop();
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Apply a unified diff, tolerating drifted line numbers and whitespace changes
+ */
+export function applyUnifiedDiff(content: string, patch: string): PatchResult {
+  const hunks = parseUnifiedDiff(patch);
+  if (hunks.length === 0) {
+    return { content, applied: 0, failures: ['Patch contains no hunks'] };
+  }
+  return applyReplacements(content, hunks);
+}
@@ -0,0 +1,329 @@
+/**
+ * Structured change protocol: code-modifying commands answer with a fenced
+ * JSON block listing file operations, which is validated here before it is
+ * turned into diff changes for the client.
+ */
+import type { EditMode } from '@/lib/config';
+import type { TypeDiagnostic } from '@/types';
+import { applySearchReplace, applyUnifiedDiff, SearchReplaceEdit } from './patch';
+
+export type FileOperationType = 'modify' | 'create' | 'delete' | 'rename';
+
+/**
+ * A modify carries either the complete new `content` or, in patch mode,
+ * `edits` / a unified-diff `patch` that `resolvePatches` turns into content
+ */
+export interface ModifyOperation {
+  type: 'modify';
+  path: string;
+  content?: string;
+  edits?: SearchReplaceEdit[];
+  patch?: string;
+}
+
+export type FileOperation =
+  | ModifyOperation
+  | { type: 'create'; path: string; content: string }
+  | { type: 'delete'; path: string }
+  | { type: 'rename'; path: string; newPath: string; content?: string };
+
+export interface ChangeSet {
+  summary?: string;
+  operations: FileOperation[];
+}
+
+export interface ParsedChangeSet {
+  changeSet: ChangeSet | null;
+  /** Validation problems; operations that failed are dropped from the change set */
+  errors: string[];
+  /** The model's reply with the JSON block removed */
+  text: string;
+}
+
+/**
+ * A proposed file change as returned to the client (becomes a `DiffChange`)
+ */
+export interface ProposedChange {
+  operation: FileOperationType;
+  file: string;
+  filename: string;
+  newPath?: string;
+  language: string;
+  before: string;
+  after: string;
+  additions: number;
+  deletions: number;
+  description: string;
+  /** Set by the type check: errors the change introduces */
+  diagnostics?: TypeDiagnostic[];
+}
+
+const OPERATION_TYPES: FileOperationType[] = ['modify', 'create', 'delete', 'rename'];
+
+const MODIFY_SHAPES: Record<EditMode, string> = {
+  full: `{"type": "modify", "path": "<existing path>", "content": "<complete new file content>"},`,
+  patch: `{"type": "modify", "path": "<existing path>", "edits": [{"search": "<exact lines from the file>", "replace": "<new lines>"}]},`,
+};
+
+const CONTENT_RULES: Record<EditMode, string> = {
+  full: `- "content" is always the complete file, never a fragment or placeholder.`,
+  patch: `- For "modify", send only "edits": each "search" copies a few consecutive lines from the file verbatim (enough to be unique), "replace" is what they become. A unified diff in "patch" is also accepted. Do not send the whole file.
+- "content" for "create" and "rename" is always the complete file, never a fragment or placeholder.`,
+};
+
+/**
+ * Appended to the system prompt of commands that produce file changes
+ */
+export function buildChangeSetInstructions(editMode: EditMode): string {
+  return `
+After your explanation, describe every file change in a single fenced \`\`\`json block with this exact shape:
+{"summary": "<one line>", "changes": [
+  ${MODIFY_SHAPES[editMode]}
+  {"type": "create", "path": "<new path>", "content": "<complete file content>"},
+  {"type": "delete", "path": "<existing path>"},
+  {"type": "rename", "path": "<existing path>", "newPath": "<new path>", "content": "<optional new content>"}
+]}
+Rules:
+- Paths are relative to the repository root and use forward slashes.
+- Only modify, delete or rename files you were given; put new code (tests, helpers) in "create" operations instead of overwriting the source file.
+${CONTENT_RULES[editMode]}
+- Emit the JSON block exactly once and nothing after it.`;
+}
+
+/**
+ * Reject absolute paths, parent traversal and empty segments
+ */
+export function isSafePath(path: string): boolean {
+  if (!path || path.startsWith('/') || path.includes('\\') || /^[a-zA-Z]:/.test(path)) return false;
+  return path.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+/**
+ * Trim a path and drop a leading `./`
+ */
+export function normalizePath(path: string): string {
+  return path.trim().replace(/^\.\//, '');
+}
+
+/**
+ * Validate one raw operation. Modify, delete and rename may only target
+ * files the model was actually shown.
+ */
+function validateOperation(
+  raw: unknown,
+  index: number,
+  knownFiles: Record<string, string>
+): { operation?: FileOperation; error?: string } {
+  const op = raw as Record<string, unknown>;
+  const label = `changes[${index}]`;
+
+  if (!op || typeof op !== 'object') return { error: `${label} is not an object` };
+  if (!OPERATION_TYPES.includes(op.type as FileOperationType)) {
+    return { error: `${label} has unknown type "${String(op.type)}"` };
+  }
+  if (typeof op.path !== 'string' || !isSafePath(normalizePath(op.path))) {
+    return { error: `${label} has an invalid path` };
+  }
+
+  const path = normalizePath(op.path);
+  const type = op.type as FileOperationType;
+  const isKnown = path in knownFiles;
+
+  switch (type) {
+    case 'modify': {
+      if (!isKnown) return { error: `${label} modifies ${path}, which was not provided` };
+      if (typeof op.content === 'string') return { operation: { type, path, content: op.content } };
+      if (typeof op.patch === 'string') return { operation: { type, path, patch: op.patch } };
+      const edits = op.edits as Array<Record<string, unknown>> | undefined;
+      if (Array.isArray(edits) && edits.length > 0 &&
+          edits.every(e => e && typeof e.search === 'string' && typeof e.replace === 'string')) {
+        return { operation: { type, path, edits: edits as unknown as SearchReplaceEdit[] } };
+      }
+      return { error: `${label} (modify ${path}) needs content, edits or a patch` };
+    }
+
+    case 'create':
+      if (typeof op.content !== 'string') return { error: `${label} (create ${path}) is missing content` };
+      if (isKnown) return { operation: { type: 'modify', path, content: op.content } };
+      return { operation: { type, path, content: op.content } };
+
+    case 'delete':
+      if (!isKnown) return { error: `${label} deletes ${path}, which was not provided` };
+      return { operation: { type, path } };
+
+    case 'rename': {
+      if (!isKnown) return { error: `${label} renames ${path}, which was not provided` };
+      if (typeof op.newPath !== 'string' || !isSafePath(normalizePath(op.newPath))) {
+        return { error: `${label} (rename ${path}) has an invalid newPath` };
+      }
+      if (op.content !== undefined && typeof op.content !== 'string') {
+        return { error: `${label} (rename ${path}) has non-string content` };
+      }
+      return { operation: { type, path, newPath: normalizePath(op.newPath), content: op.content as string | undefined } };
+    }
+  }
+}
+
+/**
+ * Find the change set JSON block in a model reply and validate it against
+ * the files that were in context. Returns a null change set when the reply
+ * has no parseable block, so callers can fall back to plain code blocks.
+ */
+export function parseChangeSet(text: string, knownFiles: Record<string, string>): ParsedChangeSet {
+  const blocks = [...text.matchAll(/```json\s*\n([\s\S]*?)```/g)];
+
+  for (const block of blocks.reverse()) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(block[1]);
+    } catch {
+      continue;
+    }
+
+    const body = parsed as { summary?: unknown; changes?: unknown };
+    if (!body || !Array.isArray(body.changes)) continue;
+
+    const errors: string[] = [];
+    const operations: FileOperation[] = [];
+    const touched = new Set<string>();
+
+    body.changes.forEach((raw, index) => {
+      const { operation, error } = validateOperation(raw, index, knownFiles);
+      if (error) {
+        errors.push(error);
+      } else if (operation) {
+        if (touched.has(operation.path)) {
+          errors.push(`changes[${index}] touches ${operation.path} more than once`);
+          return;
+        }
+        touched.add(operation.path);
+        operations.push(operation);
+      }
+    });
+
+    return {
+      changeSet: {
+        summary: typeof body.summary === 'string' ? body.summary : undefined,
+        operations,
+      },
+      errors,
+      text: (text.slice(0, block.index) + text.slice(block.index! + block[0].length)).trim(),
+    };
+  }
+
+  return { changeSet: null, errors: [], text };
+}
+
+/**
+ * Count added/removed lines between two strings
+ */
+export function countDiffLines(before: string, after: string): { added: number; removed: number } {
+  const beforeLines = before.split('\n');
+  const afterLines = after.split('\n');
+  const beforeSet = new Set(beforeLines.map(l => l.trim()));
+  const afterSet = new Set(afterLines.map(l => l.trim()));
+  let added = 0;
+  let removed = 0;
+  for (const line of afterLines) {
+    if (line.trim() && !beforeSet.has(line.trim())) added++;
+  }
+  for (const line of beforeLines) {
+    if (line.trim() && !afterSet.has(line.trim())) removed++;
+  }
+  return { added: added || 1, removed: removed || 0 };
+}
+
+function basename(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/**
+ * Language id from a path's extension, matching what the client sends
+ */
+export function languageFromPath(path: string): string {
+  const name = basename(path);
+  return name.includes('.') ? name.split('.').pop()! : 'text';
+}
+
+/**
+ * Apply patch-mode edits against the known files so every modify carries its
+ * final content. Failed edits are reported and their operations dropped.
+ */
+export function resolvePatches(
+  changeSet: ChangeSet,
+  knownFiles: Record<string, string>
+): { changeSet: ChangeSet; failures: string[] } {
+  const failures: string[] = [];
+  const operations = changeSet.operations.flatMap((op): FileOperation[] => {
+    if (op.type !== 'modify' || op.content !== undefined) return [op];
+
+    const before = knownFiles[op.path];
+    const result = op.patch !== undefined
+      ? applyUnifiedDiff(before, op.patch)
+      : applySearchReplace(before, op.edits ?? []);
+
+    if (result.failures.length > 0) {
+      failures.push(...result.failures.map(failure => `${op.path}: ${failure}`));
+      return [];
+    }
+    return [{ type: 'modify', path: op.path, content: result.content }];
+  });
+
+  return { changeSet: { ...changeSet, operations }, failures };
+}
+
+/**
+ * Turn validated operations into proposed changes with before/after content
+ */
+export function toProposedChanges(
+  changeSet: ChangeSet,
+  knownFiles: Record<string, string>,
+  command: string
+): ProposedChange[] {
+  return changeSet.operations.flatMap((op): ProposedChange[] => {
+    const before = knownFiles[op.path] ?? '';
+    let after: string;
+    let description: string;
+
+    switch (op.type) {
+      case 'modify':
+        if (op.content === undefined || op.content === before) return [];
+        after = op.content;
+        description = `${command} applied to ${basename(op.path)}`;
+        break;
+      case 'create':
+        after = op.content;
+        description = `${command} created ${op.path}`;
+        break;
+      case 'delete':
+        after = '';
+        description = `${command} deleted ${op.path}`;
+        break;
+      case 'rename':
+        after = op.content ?? before;
+        description = `${command} renamed ${op.path} to ${op.newPath}`;
+        break;
+    }
+
+    const counts = op.type === 'delete'
+      ? { added: 0, removed: before.split('\n').length }
+      : op.type === 'create'
+        ? { added: after.split('\n').length, removed: 0 }
+        : after === before
+          ? { added: 0, removed: 0 }
+          : countDiffLines(before, after);
+
+    return [{
+      operation: op.type,
+      file: op.path,
+      filename: basename(op.type === 'rename' ? op.newPath : op.path),
+      newPath: op.type === 'rename' ? op.newPath : undefined,
+      language: languageFromPath(op.type === 'rename' ? op.newPath : op.path),
+      before,
+      after,
+      additions: counts.added,
+      deletions: counts.removed,
+      description,
+    }];
+  });
+}
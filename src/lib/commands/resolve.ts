@@ -0,0 +1,89 @@
+import { AI_REPAIR_CONFIG, COPILOT_COMMANDS, EditMode } from '@/lib/config';
+import { getCustomCommand, isCustomCommandId } from './store';
+
+/**
+ * A built-in or user-defined command, in the shape the AI routes run
+ */
+export interface CommandDefinition {
+  id: string;
+  name: string;
+  /** Name used in usage records and change descriptions */
+  label: string;
+  template: string;
+  producesDiff: boolean;
+  editMode: EditMode;
+  /** Replaces the built-in system prompt for custom commands */
+  systemPrompt?: string;
+  temperature?: number;
+  /** Attach related code retrieved from the rest of the repository */
+  retrieval: boolean;
+  /** Times a change that fails validation is sent back to the model */
+  repairRounds: number;
+  /** Changes whenever the definition does, so cached responses don't outlive an edit */
+  revision: string;
+}
+
+type BuiltInCommandId = keyof typeof COPILOT_COMMANDS;
+
+/**
+ * Look up a command id among the built-in commands and the user's own, for
+ * the generic execute, stream and agent routes
+ */
+export function resolveCommand(userId: string, id: unknown): CommandDefinition | null {
+  if (typeof id !== 'string' || !id) return null;
+
+  if (isCustomCommandId(id)) {
+    const custom = getCustomCommand(userId, id);
+    if (!custom) return null;
+    return {
+      id: custom.id,
+      name: custom.name,
+      label: custom.name,
+      template: custom.template,
+      producesDiff: custom.producesDiff,
+      // House prompts mostly edit existing files, where patches are cheaper
+      editMode: 'patch',
+      systemPrompt: custom.systemPrompt,
+      temperature: custom.temperature,
+      retrieval: false,
+      repairRounds: custom.repairRounds ?? AI_REPAIR_CONFIG.defaultRounds,
+      revision: `${custom.id}@${custom.updatedAt}`,
+    };
+  }
+
+  if (!Object.hasOwn(COPILOT_COMMANDS, id)) return null;
+  const builtIn = COPILOT_COMMANDS[id as BuiltInCommandId];
+  if ((builtIn as { generic?: boolean }).generic === false) return null;
+  return resolveRouteCommand(id as BuiltInCommandId);
+}
+
+/**
+ * A built-in command for the route it belongs to, including the ones the
+ * generic routes don't accept
+ */
+export function resolveRouteCommand(id: BuiltInCommandId): CommandDefinition {
+  const builtIn = COPILOT_COMMANDS[id];
+  const config = builtIn as { editMode?: EditMode; temperature?: number; retrieval?: boolean; repairRounds?: number };
+  return {
+    id: builtIn.id,
+    name: builtIn.name,
+    label: builtIn.id,
+    template: builtIn.template,
+    producesDiff: builtIn.producesDiff,
+    editMode: config.editMode ?? 'full',
+    temperature: config.temperature,
+    retrieval: config.retrieval ?? false,
+    repairRounds: Math.min(config.repairRounds ?? AI_REPAIR_CONFIG.defaultRounds, AI_REPAIR_CONFIG.maxRounds),
+    revision: builtIn.id,
+  };
+}
+
+/**
+ * Fill a command template's `{code}`, `{prompt}` and `{error}` placeholders
+ */
+export function fillTemplate(template: string, input: string, error: string): string {
+  return template
+    .replaceAll('{code}', input)
+    .replaceAll('{prompt}', input)
+    .replaceAll('{error}', error);
+}
@@ -0,0 +1,123 @@
+import { AI_REPAIR_CONFIG, CUSTOM_COMMAND_CONFIG } from '@/lib/config';
+import { generateId } from '@/lib/utils';
+import type { CommandIcon, CustomCommand } from '@/types';
+
+export type CustomCommandInput = Omit<CustomCommand, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const COMMAND_ICONS: CommandIcon[] = ['sparkles', 'message', 'wrench', 'test', 'code', 'file'];
+
+// Custom ids never collide with the built-in command ids
+const ID_PREFIX = 'custom-';
+
+// In-memory custom commands per user (use Redis in production)
+const customCommands = new Map<string, CustomCommand[]>();
+
+export function isCustomCommandId(id: string): boolean {
+  return id.startsWith(ID_PREFIX);
+}
+
+function requireString(
+  body: Record<string, unknown>,
+  field: string,
+  maxChars: number,
+  optional = false
+): { value?: string; error?: string } {
+  const value = body[field];
+  if (value === undefined && optional) return { value: '' };
+  if (typeof value !== 'string' || (!optional && !value.trim())) {
+    return { error: `${field} is required` };
+  }
+  if (value.length > maxChars) {
+    return { error: `${field} must be at most ${maxChars} characters` };
+  }
+  return { value: value.trim() };
+}
+
+/**
+ * Validate a create/update request body
+ */
+export function validateCustomCommand(raw: unknown): { input?: CustomCommandInput; error?: string } {
+  if (!raw || typeof raw !== 'object') return { error: 'Invalid command definition' };
+  const body = raw as Record<string, unknown>;
+
+  const name = requireString(body, 'name', CUSTOM_COMMAND_CONFIG.maxNameChars);
+  const description = requireString(body, 'description', CUSTOM_COMMAND_CONFIG.maxDescriptionChars, true);
+  const systemPrompt = requireString(body, 'systemPrompt', CUSTOM_COMMAND_CONFIG.maxSystemPromptChars);
+  const template = requireString(body, 'template', CUSTOM_COMMAND_CONFIG.maxTemplateChars);
+  const error = name.error || description.error || systemPrompt.error || template.error;
+  if (error) return { error };
+
+  // Without an input placeholder the user's request would never reach the model
+  if (!template.value!.includes('{code}') && !template.value!.includes('{prompt}')) {
+    return { error: 'template must contain {code} or {prompt}' };
+  }
+
+  const icon = body.icon ?? 'sparkles';
+  if (!COMMAND_ICONS.includes(icon as CommandIcon)) {
+    return { error: `icon must be one of: ${COMMAND_ICONS.join(', ')}` };
+  }
+
+  const temperature = body.temperature;
+  if (temperature !== undefined && temperature !== null &&
+      (typeof temperature !== 'number' || !Number.isFinite(temperature) || temperature < 0 || temperature > 2)) {
+    return { error: 'temperature must be a number between 0 and 2' };
+  }
+
+  const repairRounds = body.repairRounds;
+  if (repairRounds !== undefined && repairRounds !== null &&
+      (!Number.isInteger(repairRounds) || (repairRounds as number) < 0 || (repairRounds as number) > AI_REPAIR_CONFIG.maxRounds)) {
+    return { error: `repairRounds must be a whole number between 0 and ${AI_REPAIR_CONFIG.maxRounds}` };
+  }
+
+  return {
+    input: {
+      name: name.value!,
+      description: description.value!,
+      icon: icon as CommandIcon,
+      systemPrompt: systemPrompt.value!,
+      template: template.value!,
+      requiresFile: body.requiresFile === true,
+      producesDiff: body.producesDiff === true,
+      temperature: typeof temperature === 'number' ? temperature : undefined,
+      repairRounds: typeof repairRounds === 'number' ? repairRounds : undefined,
+    },
+  };
+}
+
+export function listCustomCommands(userId: string): CustomCommand[] {
+  return customCommands.get(userId) ?? [];
+}
+
+export function getCustomCommand(userId: string, id: string): CustomCommand | null {
+  return listCustomCommands(userId).find(command => command.id === id) ?? null;
+}
+
+/**
+ * Save a new command. Returns null when the user is at `maxPerUser`.
+ */
+export function createCustomCommand(userId: string, input: CustomCommandInput): CustomCommand | null {
+  const commands = listCustomCommands(userId);
+  if (commands.length >= CUSTOM_COMMAND_CONFIG.maxPerUser) return null;
+
+  const now = Date.now();
+  const command: CustomCommand = { ...input, id: ID_PREFIX + generateId(), createdAt: now, updatedAt: now };
+  customCommands.set(userId, [...commands, command]);
+  return command;
+}
+
+export function updateCustomCommand(userId: string, id: string, input: CustomCommandInput): CustomCommand | null {
+  const existing = getCustomCommand(userId, id);
+  if (!existing) return null;
+
+  const updated: CustomCommand = { ...existing, ...input, updatedAt: Date.now() };
+  customCommands.set(userId, listCustomCommands(userId).map(command => (command.id === id ? updated : command)));
+  return updated;
+}
+
+export function deleteCustomCommand(userId: string, id: string): boolean {
+  const commands = listCustomCommands(userId);
+  const remaining = commands.filter(command => command.id !== id);
+  if (remaining.length === commands.length) return false;
+  customCommands.set(userId, remaining);
+  return true;
+}
@@ -0,0 +1,103 @@
+import { AI_COMMIT_MESSAGE_CONFIG } from '@/lib/config';
+import { estimateTokens } from '@/lib/context';
+import { DiffOperation } from '@/types';
+
+/**
+ * A pending change as the client sends it for a commit message
+ */
+export interface CommitChange {
+  path: string;
+  operation: DiffOperation;
+  /** Destination path for renames */
+  newPath?: string;
+  before: string;
+  after: string;
+}
+
+export interface CommitDiff {
+  /** Prompt section with the changed lines of each file */
+  text: string;
+  /** Files whose lines didn't fit the budget and are listed by path only */
+  summarizedFiles: string[];
+}
+
+/**
+ * The changed region of a file: lines shared at the start and end are
+ * trimmed, keeping `contextLines` of them on each side. Good enough to tell
+ * the model what changed without running a full diff.
+ */
+export function formatChangedLines(before: string, after: string, contextLines: number): string {
+  const beforeLines = before.split('\n');
+  const afterLines = after.split('\n');
+
+  let start = 0;
+  while (start < beforeLines.length && start < afterLines.length && beforeLines[start] === afterLines[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < beforeLines.length - start &&
+    end < afterLines.length - start &&
+    beforeLines[beforeLines.length - 1 - end] === afterLines[afterLines.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const from = Math.max(0, start - contextLines);
+  const output = [`@@ line ${from + 1} @@`];
+  for (const line of afterLines.slice(from, start)) output.push(` ${line}`);
+  for (const line of beforeLines.slice(start, beforeLines.length - end)) output.push(`-${line}`);
+  for (const line of afterLines.slice(start, afterLines.length - end)) output.push(`+${line}`);
+  for (const line of afterLines.slice(afterLines.length - end, afterLines.length - end + contextLines)) output.push(` ${line}`);
+
+  return output.join('\n');
+}
+
+function describeChange(change: CommitChange): string {
+  switch (change.operation) {
+    case 'create':
+      return `${change.path} (new file)`;
+    case 'delete':
+      return `${change.path} (deleted)`;
+    case 'rename':
+      return `${change.newPath ?? change.path} (renamed from ${change.path})`;
+    default:
+      return `${change.path} (modified)`;
+  }
+}
+
+/**
+ * Changed lines of each pending change that fit `maxTokens`. Deletions and
+ * files over the budget are listed by their heading alone.
+ */
+export function formatCommitDiff(changes: CommitChange[], options: { maxTokens: number; model: string }): CommitDiff {
+  const blocks: string[] = [];
+  const summarizedFiles: string[] = [];
+  let tokens = 0;
+
+  for (const change of changes) {
+    const heading = `File: ${describeChange(change)}`;
+    const unchanged = change.operation === 'rename' && change.before === change.after;
+    if (change.operation === 'delete' || unchanged) {
+      blocks.push(heading);
+      tokens += estimateTokens(heading, options.model);
+      continue;
+    }
+
+    const lines = change.operation === 'create'
+      ? change.after.split('\n').map(line => `+${line}`).join('\n')
+      : formatChangedLines(change.before, change.after, AI_COMMIT_MESSAGE_CONFIG.contextLines);
+    const block = `${heading}\n\`\`\`diff\n${lines}\n\`\`\``;
+    const cost = estimateTokens(block, options.model);
+    if (tokens + cost > options.maxTokens) {
+      summarizedFiles.push(change.newPath ?? change.path);
+      blocks.push(`${heading} — too large to show`);
+      continue;
+    }
+
+    tokens += cost;
+    blocks.push(block);
+  }
+
+  return { text: blocks.join('\n\n'), summarizedFiles };
+}
@@ -0,0 +1,76 @@
+import { AI_COMMIT_MESSAGE_CONFIG } from '@/lib/config';
+import { CommitChange } from './diff';
+
+/**
+ * Conventional Commits types the model may pick from
+ */
+export const CONVENTIONAL_COMMIT_TYPES = ['feat', 'fix', 'refactor', 'docs', 'test', 'perf', 'style', 'build', 'ci', 'chore'];
+
+/**
+ * Appended to the commit message system prompt
+ */
+export function buildCommitMessageInstructions(conventional: boolean): string {
+  const subject = conventional
+    ? `Follow the Conventional Commits format: "<type>(<optional scope>): <description>", where type is one of ${CONVENTIONAL_COMMIT_TYPES.join(', ')}. Use a lowercase description and add "!" after the type or scope for breaking changes.`
+    : 'Start the subject with a capital letter and use the imperative mood ("Add", "Fix", "Remove").';
+
+  return `
+Write a single git commit message for the changes.
+- The first line is the subject: at most ${AI_COMMIT_MESSAGE_CONFIG.maxSubjectChars} characters, no trailing period.
+- ${subject}
+- If the change needs explaining, add a blank line and a short body wrapped at 72 characters that says what changed and why. Leave the body out for small, obvious changes.
+- Describe the code change itself, not the request or the tool that made it.
+Reply with the commit message only: no code fences, quotes or preamble.`;
+}
+
+/**
+ * Clean a model reply into a commit message: drop fences, quotes and
+ * "Commit message:" preambles, and cut an overlong subject
+ */
+export function parseCommitMessage(text: string): string {
+  let message = text.trim();
+
+  const fenced = message.match(/```[\w-]*\s*\n([\s\S]*?)```/);
+  if (fenced) message = fenced[1].trim();
+
+  message = message.replace(/^(?:\*\*)?(?:suggested\s+)?commit message(?:\*\*)?:?\s*/i, '').trim();
+  if (/^(["'`])[\s\S]*\1$/.test(message)) message = message.slice(1, -1).trim();
+
+  const [subject = '', ...body] = message.split('\n');
+  let cleanSubject = subject.trim().replace(/\.$/, '');
+  if (cleanSubject.length > AI_COMMIT_MESSAGE_CONFIG.maxSubjectChars) {
+    const cut = cleanSubject.slice(0, AI_COMMIT_MESSAGE_CONFIG.maxSubjectChars);
+    const lastSpace = cut.lastIndexOf(' ');
+    cleanSubject = (lastSpace > 20 ? cut.slice(0, lastSpace) : cut).trimEnd();
+  }
+
+  const cleanBody = body.join('\n').trim();
+  return cleanBody ? `${cleanSubject}\n\n${cleanBody}` : cleanSubject;
+}
+
+function basename(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/**
+ * Plain message used until one is generated, and when generation fails
+ */
+export function defaultCommitMessage(changes: CommitChange[], conventional: boolean): string {
+  const describe = (change: CommitChange): string => {
+    switch (change.operation) {
+      case 'create':
+        return `${conventional ? 'add' : 'Add'} ${basename(change.path)}`;
+      case 'delete':
+        return `${conventional ? 'remove' : 'Remove'} ${basename(change.path)}`;
+      case 'rename':
+        return `${conventional ? 'rename' : 'Rename'} ${change.path} to ${change.newPath ?? change.path}`;
+      default:
+        return `${conventional ? 'update' : 'Update'} ${basename(change.path)}`;
+    }
+  };
+
+  const subject = changes.length === 1
+    ? describe(changes[0])
+    : `${conventional ? 'update' : 'Update'} ${changes.length} files`;
+  return conventional ? `chore: ${subject}` : subject;
+}
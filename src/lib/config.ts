@@ -26,15 +26,24 @@ export const SESSION_CONFIG = {
 /**
  * AI Provider Configuration
  * 
- * Supports two providers:
+ * Each entry is backed by a provider module in `src/lib/providers`:
  * 1. Google Gemini — primary AI provider using native @google/genai SDK
  * 2. GitHub Models — OpenAI models via @azure-rest/ai-inference SDK
+ * 3. OpenAI-compatible — any self-hosted `/chat/completions` server (Ollama, llama.cpp, vLLM)
  * 
  * Environment variables:
  * - GEMINI_API_KEY (recommended) — API key from Google AI Studio
  * - GITHUB_TOKEN (optional) — GitHub personal access token for GitHub Models
+ * - OPENAI_COMPATIBLE_BASE_URL (optional) — e.g. http://localhost:11434/v1 for Ollama
+ * - OPENAI_COMPATIBLE_MODELS (optional) — comma-separated model names, first is the default
+ * - OPENAI_COMPATIBLE_API_KEY (optional) — bearer token, if the server requires one
+ * - OPENAI_COMPATIBLE_NAME (optional) — display name in the provider picker
+ * - OPENAI_COMPATIBLE_CONTEXT_WINDOW (optional) — context size in tokens, defaults to 8192
  */
-export type AIProvider = 'gemini' | 'github';
+const openAICompatibleModels = (process.env.OPENAI_COMPATIBLE_MODELS || '')
+  .split(',')
+  .map(m => m.trim())
+  .filter(Boolean);
 
 export const AI_PROVIDERS = {
   gemini: {
@@ -48,6 +57,8 @@ export const AI_PROVIDERS = {
     temperature: 0.7,
     topP: 0.95,
     topK: 64,
+    // Token limits
+    contextWindow: 1_048_576,
   },
   github: {
     id: 'github' as const,
@@ -56,9 +67,338 @@ export const AI_PROVIDERS = {
     apiKey: process.env.GITHUB_TOKEN || '',
     defaultModel: 'openai/gpt-4o-mini',
     models: ['openai/gpt-4o-mini', 'openai/gpt-4o', 'openai/gpt-5', 'meta-llama/Meta-Llama-3.1-70B-Instruct', 'mistralai/Mistral-Large-2411'],
+    // Generation config
+    maxTokens: 4096,
+    temperature: 0.4,
+    // Token limits — GitHub Models caps each request's input well below the model window
+    contextWindow: 128_000,
+    maxInputTokens: 8000,
+  },
+  'openai-compatible': {
+    id: 'openai-compatible' as const,
+    name: process.env.OPENAI_COMPATIBLE_NAME || 'Self-hosted (OpenAI-compatible)',
+    baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || '',
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+    defaultModel: openAICompatibleModels[0] || '',
+    models: openAICompatibleModels,
+    // Generation config
+    maxTokens: 4096,
+    temperature: 0.4,
+    // Token limits — match the server's configured context (e.g. Ollama num_ctx)
+    contextWindow: Number(process.env.OPENAI_COMPATIBLE_CONTEXT_WINDOW) || 8192,
   },
 } as const;
 
+export type AIProvider = keyof typeof AI_PROVIDERS;
+
+/**
+ * Context budgeting
+ * 
+ * File context is fitted into the selected model's window after reserving
+ * room for the completion. `modelContextWindows` overrides the provider's
+ * `contextWindow` for specific models; `maxFileTokens` caps file context even
+ * on very large windows to keep requests cheap. When the user selects a line
+ * range, `selectionContextLines` of surrounding code go along as read-only.
+ */
+export const AI_CONTEXT_CONFIG = {
+  maxFileTokens: 32_000,
+  maxInputChars: 5000,
+  // Repository instructions appended to every system prompt
+  maxInstructionsChars: 8000,
+  // Read-only lines sent above and below a selected range
+  selectionContextLines: 20,
+  modelContextWindows: {
+    'gemini-1.5-pro': 2_097_152,
+    'openai/gpt-5': 200_000,
+    'mistralai/Mistral-Large-2411': 32_000,
+  } as Record<string, number>,
+};
+
+/**
+ * Usage accounting
+ *
+ * Estimated cost in USD per million tokens. Models not listed fall back to
+ * the provider's default rate; self-hosted servers cost nothing per token.
+ * `maxRecordsPerUser` bounds the in-memory history kept for each user.
+ */
+export const AI_USAGE_CONFIG = {
+  maxRecordsPerUser: 1000,
+  pricing: {
+    'gemini-3-flash-preview': { input: 0.5, output: 3 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'openai/gpt-4o': { input: 2.5, output: 10 },
+    'openai/gpt-5': { input: 1.25, output: 10 },
+    'meta-llama/Meta-Llama-3.1-70B-Instruct': { input: 0.27, output: 0.27 },
+    'mistralai/Mistral-Large-2411': { input: 2, output: 6 },
+  } as Record<string, { input: number; output: number }>,
+  providerDefaults: {
+    gemini: { input: 0.5, output: 3 },
+    github: { input: 0.15, output: 0.6 },
+    'openai-compatible': { input: 0, output: 0 },
+  } as Record<string, { input: number; output: number }>,
+};
+
+/**
+ * Response cache
+ *
+ * Identical invocations (same command, provider, model, normalized prompt and
+ * file sha) reuse the previous response for `ttlMs` instead of calling the
+ * provider again. Clients can bypass the cache per request.
+ *
+ * Environment variables:
+ * - AI_CACHE (optional) — set to "false" to disable the cache
+ * - AI_CACHE_TTL_SECONDS (optional) — defaults to one hour
+ */
+export const AI_CACHE_CONFIG = {
+  enabled: process.env.AI_CACHE !== 'false',
+  ttlMs: (parseInt(process.env.AI_CACHE_TTL_SECONDS || '') || 60 * 60) * 1000,
+  maxEntries: 500,
+};
+
+/**
+ * Provider failover
+ *
+ * When a provider fails with a rate limit, server or auth error (after its own
+ * retries), the request moves on to the next configured provider in `order`.
+ * Each provider has a circuit breaker: after `failureThreshold` consecutive
+ * failures it is skipped for `cooldownMs`, then a single probe request decides
+ * whether it closes again.
+ *
+ * `targets` limits where each provider may fail over to; `null` means any
+ * provider in `order`. The self-hosted provider exists so code can stay off
+ * cloud models, so it fails over nowhere unless its targets are set.
+ * 
+ * Environment variables:
+ * - AI_FAILOVER (optional) — set to "false" to disable failover
+ * - AI_FAILOVER_ORDER (optional) — comma-separated provider ids
+ * - AI_FAILOVER_TARGETS_<PROVIDER> (optional) — comma-separated provider ids
+ *   that provider may fail over to, e.g. AI_FAILOVER_TARGETS_OPENAI_COMPATIBLE=github
+ */
+function failoverTargets(provider: AIProvider): string[] | null {
+  const raw = process.env[`AI_FAILOVER_TARGETS_${provider.toUpperCase().replace(/-/g, '_')}`];
+  return raw === undefined ? null : raw.split(',').map(id => id.trim()).filter(Boolean);
+}
+
+export const AI_FAILOVER_CONFIG = {
+  enabled: process.env.AI_FAILOVER !== 'false',
+  order: (process.env.AI_FAILOVER_ORDER || 'gemini,github,openai-compatible')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean),
+  targets: {
+    gemini: failoverTargets('gemini'),
+    github: failoverTargets('github'),
+    'openai-compatible': failoverTargets('openai-compatible') ?? [],
+  } as Record<AIProvider, string[] | null>,
+  failureThreshold: 3,
+  cooldownMs: 60 * 1000,
+};
+
+/**
+ * Conversation threads
+ *
+ * Follow-up commands carry the thread's earlier turns and the code proposed
+ * so far. Only the last `maxTurns` exchanges are sent; threads idle for
+ * longer than `ttlMs` are dropped.
+ */
+export const AI_THREAD_CONFIG = {
+  maxTurns: 10,
+  maxThreadsPerUser: 20,
+  ttlMs: 2 * 60 * 60 * 1000,
+};
+
+/**
+ * Repository retrieval
+ *
+ * Commands with `retrieval` enabled get the best-matching chunks from the rest
+ * of the repository attached to their prompt, so generated code reuses helpers
+ * that already exist. Each repo + ref is indexed from the git trees API and
+ * re-checked after `ttlMs`; unchanged blobs are not fetched again. Retrieved
+ * context takes at most `maxContextTokens`, or `maxContextShare` of the
+ * model's input budget when that is smaller.
+ *
+ * Environment variables:
+ * - AI_RETRIEVAL (optional) — set to "false" to disable retrieval
+ */
+export const AI_RETRIEVAL_CONFIG = {
+  enabled: process.env.AI_RETRIEVAL !== 'false',
+  ttlMs: 10 * 60 * 1000,
+  maxIndexes: 20,
+  maxFiles: 400,
+  maxFileBytes: 100_000,
+  fetchConcurrency: 6,
+  maxChunkLines: 60,
+  topK: 6,
+  maxContextTokens: 4000,
+  maxContextShare: 0.25,
+  extensions: ['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'py', 'go', 'rs', 'java', 'kt', 'rb', 'php', 'cs', 'swift', 'c', 'h', 'cpp', 'hpp', 'vue', 'svelte', 'md'],
+  ignoredPaths: [/(^|\/)(node_modules|dist|build|out|vendor|coverage|\.next|\.git)\//, /\.min\.\w+$/],
+};
+
+/**
+ * Import context
+ *
+ * For TypeScript/JavaScript files, local imports (relative or through
+ * tsconfig `paths`) are resolved against the repository and the signatures
+ * of the imported declarations are sent along, so edits keep call sites and
+ * types intact. Barrel re-exports are followed `maxReExportDepth` levels deep.
+ * Import context takes at most `maxContextTokens`, or `maxContextShare` of
+ * the model's input budget when that is smaller.
+ */
+export const AI_IMPORT_CONTEXT_CONFIG = {
+  ttlMs: 10 * 60 * 1000,
+  maxFiles: 12,
+  maxReExportDepth: 3,
+  maxDeclarationLines: 40,
+  maxContextTokens: 3000,
+  maxContextShare: 0.2,
+};
+
+/**
+ * Code review
+ *
+ * The review command sends the compare diff between two refs (or a pull
+ * request's base and head). Patches are added file by file until
+ * `maxDiffTokens` or the model's window runs out; the rest are listed as
+ * skipped. `maxFindings` caps what the model may report.
+ */
+export const AI_REVIEW_CONFIG = {
+  maxFiles: 100,
+  maxDiffTokens: 24_000,
+  maxFindings: 50,
+};
+
+/**
+ * Security audit
+ *
+ * The audit command sends the selected file, or with the repository scope as
+ * many source files as fit, with numbered lines. Repository files are picked
+ * by `priorityPaths` first (auth, routes, queries, config), then shallowest
+ * path, until `maxFiles` or `maxSourceTokens` (or the model's window) runs
+ * out. `maxFindings` caps what the model may report.
+ */
+export const AI_AUDIT_CONFIG = {
+  maxFiles: 40,
+  maxFileBytes: 60_000,
+  maxSourceTokens: 24_000,
+  maxFindings: 40,
+  fetchConcurrency: 6,
+  extensions: ['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'py', 'go', 'rs', 'java', 'kt', 'rb', 'php', 'cs', 'swift', 'c', 'h', 'cpp', 'vue', 'svelte', 'sql', 'sh', 'yml', 'yaml', 'json', 'xml', 'env', 'tf'],
+  priorityPaths: /auth|login|session|token|secret|password|crypt|api|route|controller|handler|middleware|server|db|sql|query|model|upload|serial|config|settings|env/i,
+  ignoredPaths: [/(^|\/)(node_modules|dist|build|out|vendor|coverage|\.next|\.git|test|tests|__tests__|fixtures)\//, /\.min\.\w+$/, /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml)$/],
+};
+
+/**
+ * Stack traces
+ *
+ * Pasted traces are cut to `maxTraceChars` and their application frames
+ * (dependencies and runtime internals are skipped) are matched to repository
+ * paths. Up to `maxFiles` distinct files are fetched and sent with the fix
+ * command, in full while they fit in `maxFileTokens`; each of the first
+ * `maxFrames` frames is shown with `excerptLines` lines on each side of the
+ * failing line.
+ */
+export const AI_STACKTRACE_CONFIG = {
+  maxTraceChars: 20_000,
+  maxFrames: 12,
+  maxFiles: 5,
+  maxFileTokens: 12_000,
+  excerptLines: 4,
+};
+
+/**
+ * Agent mode
+ *
+ * In agent mode a command runs as a loop: the model lists directories, reads
+ * files, searches code and proposes edits through tools, one call per step,
+ * until it finishes with a change set. A run stops after `maxSteps` model
+ * calls or once `maxTokens` prompt and completion tokens are spent, keeping
+ * the edits made so far. Tool results are cut to `maxToolResultChars`; older
+ * ones are dropped from the conversation when it outgrows the model's window.
+ */
+export const AI_AGENT_CONFIG = {
+  maxSteps: 12,
+  maxTokens: 150_000,
+  maxToolResultChars: 12_000,
+  maxListEntries: 200,
+  maxSearchResults: 30,
+  maxEditedFiles: 20,
+};
+
+/**
+ * Type checking
+ *
+ * Proposed TypeScript files are compiled in memory against the repository's
+ * nearest tsconfig, before and after the change, and only errors the change
+ * introduces are reported. The changed files' local imports are loaded
+ * (transitively, up to `maxModules` files) along with up to
+ * `maxDeclarationFiles` of the repository's own `.d.ts` files. Packages are
+ * not installed, so errors caused by their missing types are ignored. Each
+ * file reports at most `maxDiagnostics` errors.
+ *
+ * The compiler runs on the request's event loop, so the work is capped: at
+ * most `maxTotalBytes` of source are loaded, and a compile whose checking
+ * takes longer than `timeBudgetMs` is cancelled and the check reported as
+ * skipped. Results for the unchanged files are reused across repair rounds.
+ */
+export const AI_TYPECHECK_CONFIG = {
+  maxModules: 40,
+  maxDeclarationFiles: 10,
+  maxFileBytes: 200_000,
+  maxTotalBytes: 600_000,
+  timeBudgetMs: 1_500,
+  maxDiagnostics: 20,
+};
+
+/**
+ * Self-repair
+ *
+ * A proposed change that fails validation (syntax or type errors it
+ * introduces, or edits that don't apply) is sent back to the model with the
+ * problems, for up to the command's `repairRounds` (`defaultRounds` when the
+ * command doesn't set it, never more than `maxRounds`). A round is kept only
+ * when it leaves fewer problems than before. Each file lists at most
+ * `maxDiagnosticsPerFile` errors in the repair prompt.
+ */
+export const AI_REPAIR_CONFIG = {
+  defaultRounds: 1,
+  maxRounds: 3,
+  maxDiagnosticsPerFile: 10,
+};
+
+/**
+ * Commit messages
+ *
+ * Generated from the pending changes' before/after and the prompt of the
+ * command that produced them. Each file contributes its changed lines with
+ * `contextLines` around them until `maxDiffTokens` runs out; the rest are
+ * listed by path only. Subjects longer than `maxSubjectChars` are cut.
+ */
+export const AI_COMMIT_MESSAGE_CONFIG = {
+  maxDiffTokens: 8_000,
+  contextLines: 3,
+  maxPromptChars: 2000,
+  maxSubjectChars: 72,
+};
+
+/**
+ * User-defined commands
+ *
+ * Each user can save up to `maxPerUser` commands of their own alongside the
+ * built-in ones. Prompts are capped so a saved command can't crowd the
+ * model's context out.
+ */
+export const CUSTOM_COMMAND_CONFIG = {
+  maxPerUser: 50,
+  maxNameChars: 40,
+  maxDescriptionChars: 200,
+  maxSystemPromptChars: 4000,
+  maxTemplateChars: 2000,
+};
+
 /** Max retries for rate-limited requests */
 export const AI_RETRY_CONFIG = {
   maxRetries: 3,
@@ -67,55 +407,95 @@ export const AI_RETRY_CONFIG = {
 };
 
 /**
- * Get the config for a specific provider. Defaults to Gemini.
+ * How diff-producing commands edit existing files: `full` asks for whole
+ * files, `patch` for search/replace edits applied on the server (falling
+ * back to `full` when they don't apply)
  */
-export function getAIConfig(provider?: AIProvider) {
-  // If a specific provider is requested and has a key, use it
-  if (provider && AI_PROVIDERS[provider]?.apiKey) {
-    const p = AI_PROVIDERS[provider];
-    return { apiKey: p.apiKey, model: p.defaultModel, provider: p.id };
-  }
-
-  // Default: prefer Gemini, then fall back to GitHub
-  if (AI_PROVIDERS.gemini.apiKey) {
-    return { apiKey: AI_PROVIDERS.gemini.apiKey, model: AI_PROVIDERS.gemini.defaultModel, provider: 'gemini' as const };
-  }
-  if (AI_PROVIDERS.github.apiKey) {
-    return { apiKey: AI_PROVIDERS.github.apiKey, model: AI_PROVIDERS.github.defaultModel, provider: 'github' as const };
-  }
-
-  return { apiKey: '', model: '', provider: null };
-}
+export type EditMode = 'full' | 'patch';
 
+/**
+ * Built-in commands
+ *
+ * Commands with `generic: false` belong to their own route (review, audit,
+ * commit message) and can't be run through execute, stream or agent.
+ */
 export const COPILOT_COMMANDS = {
   explain: {
     id: 'explain',
     name: 'Explain',
     template: 'Explain the following code:\n\n{code}',
+    producesDiff: false,
+    retrieval: true,
   },
   generate: {
     id: 'generate',
     name: 'Generate',
     template: 'Generate code for: {prompt}',
+    producesDiff: true,
+    editMode: 'full' as EditMode,
+    retrieval: true,
   },
   fix: {
     id: 'fix',
     name: 'Fix',
     template: 'Fix the following code:\n\n{code}\n\nError: {error}',
+    producesDiff: true,
+    editMode: 'patch' as EditMode,
+    temperature: 0.2,
+    retrieval: true,
+    repairRounds: 2,
   },
   refactor: {
     id: 'refactor',
     name: 'Refactor',
     template: 'Refactor the following code to be more efficient:\n\n{code}',
+    producesDiff: true,
+    editMode: 'patch' as EditMode,
   },
   test: {
     id: 'test',
     name: 'Test',
     template: 'Generate unit tests for:\n\n{code}',
+    producesDiff: true,
+    editMode: 'full' as EditMode,
   },
   docs: {
     id: 'docs',
     name: 'Document',
     template: 'Generate documentation for:\n\n{code}',
+    producesDiff: true,
+    editMode: 'patch' as EditMode,
+  },
+  translate: {
+    id: 'translate',
+    name: 'Translate',
+    template: 'Translate this file. {prompt}',
+    producesDiff: true,
+    editMode: 'full' as EditMode,
+    temperature: 0.2,
+  },
+  review: {
+    id: 'review',
+    name: 'Review',
+    template: 'Review the following changes:\n\n{code}',
+    producesDiff: false,
+    temperature: 0.2,
+    generic: false,
+  },
+  audit: {
+    id: 'audit',
+    name: 'Audit',
+    template: 'Audit the following code for security vulnerabilities. {prompt}',
+    producesDiff: true,
+    temperature: 0.1,
+    generic: false,
+  },
+  commit: {
+    id: 'commit',
+    name: 'Commit Message',
+    template: 'Write a commit message for the following changes:\n\n{code}',
+    producesDiff: false,
+    temperature: 0.3,
+    generic: false,
   },
 };
@@ -0,0 +1,75 @@
+import { AI_CONTEXT_CONFIG } from '@/lib/config';
+import { estimateTokens, getModelLimits } from './tokens';
+import { LineRange, truncateToBudget } from './truncate';
+
+// Chat framing, role markers and the "File: …" fence around the content
+const MESSAGE_OVERHEAD_TOKENS = 64;
+
+export interface ContextBudget {
+  /** Prompt tokens the request may use */
+  inputTokens: number;
+  /** Tokens left for file context once prompts and output are accounted for */
+  fileTokens: number;
+  reservedOutputTokens: number;
+}
+
+export interface FittedContext {
+  content: string;
+  trimmed: boolean;
+  /** Human-readable note for the output console when content was trimmed */
+  warning?: string;
+}
+
+/**
+ * Work out how many tokens of file context fit alongside the prompts while
+ * leaving room for the model's reply
+ */
+export function planContextBudget(options: {
+  provider: string;
+  model: string;
+  systemPrompt: string;
+  prompt: string;
+}): ContextBudget {
+  const limits = getModelLimits(options.provider, options.model);
+  const inputTokens = Math.min(
+    limits.contextWindow - limits.maxOutputTokens,
+    limits.maxInputTokens ?? Infinity
+  );
+  const promptTokens =
+    estimateTokens(options.systemPrompt, options.model) +
+    estimateTokens(options.prompt, options.model) +
+    MESSAGE_OVERHEAD_TOKENS;
+
+  return {
+    inputTokens,
+    fileTokens: Math.max(0, Math.min(inputTokens - promptTokens, AI_CONTEXT_CONFIG.maxFileTokens)),
+    reservedOutputTokens: limits.maxOutputTokens,
+  };
+}
+
+/**
+ * Fit file content into the budget for this request, keeping the focus
+ * region and the file's declarations when it has to be trimmed
+ */
+export function fitFileContext(options: {
+  provider: string;
+  model: string;
+  systemPrompt: string;
+  prompt: string;
+  fileName: string;
+  fileContent: string;
+  focus?: LineRange;
+}): FittedContext {
+  const budget = planContextBudget(options);
+  const result = truncateToBudget(options.fileContent, budget.fileTokens, options.model, options.focus);
+
+  if (!result.trimmed) {
+    return { content: result.content, trimmed: false };
+  }
+
+  return {
+    content: result.content,
+    trimmed: true,
+    warning: `Context trimmed: ${options.fileName} is ~${result.originalTokens} tokens, sent ~${result.keptTokens} (${result.omittedLines} lines omitted) to fit ${options.model}.`,
+  };
+}
@@ -0,0 +1,4 @@
+export * from './tokens';
+export * from './truncate';
+export * from './budget';
+export * from './instructions';
@@ -0,0 +1,37 @@
+import { AI_CONTEXT_CONFIG } from '@/lib/config';
+
+/**
+ * A repository's conventions file, as fetched by the client
+ */
+export interface RepoInstructions {
+  path: string;
+  content: string;
+}
+
+/**
+ * Validate the instructions a request carries. Anything malformed or empty
+ * reads as no instructions.
+ */
+export function parseRepoInstructions(raw: unknown): RepoInstructions | null {
+  const value = raw as Partial<RepoInstructions> | null | undefined;
+  if (!value || typeof value.path !== 'string' || typeof value.content !== 'string') return null;
+  if (!value.content.trim()) return null;
+  return { path: value.path, content: value.content };
+}
+
+/**
+ * System prompt section for repository instructions, capped at
+ * `maxInstructionsChars` so a long conventions file can't crowd out the code
+ */
+export function formatRepoInstructions(instructions: RepoInstructions): { text: string; warning?: string } {
+  const max = AI_CONTEXT_CONFIG.maxInstructionsChars;
+  const content = instructions.content.trim();
+  const trimmed = content.length > max;
+
+  return {
+    text: `\n\nThis repository's conventions (from ${instructions.path}) — follow them in everything you write:\n${trimmed ? content.slice(0, max) : content}`,
+    warning: trimmed
+      ? `Repository instructions trimmed: ${instructions.path} is ${content.length} characters, sent the first ${max}.`
+      : undefined,
+  };
+}
@@ -0,0 +1,47 @@
+import { AI_CONTEXT_CONFIG, AI_PROVIDERS, AIProvider } from '@/lib/config';
+
+/**
+ * Average characters per token by model family, tuned on source code. Code
+ * tokenizes denser than prose, so these err on the side of over-counting.
+ */
+const CHARS_PER_TOKEN: Array<[RegExp, number]> = [
+  [/gemini/i, 3.6],
+  [/gpt|openai|o\d/i, 3.4],
+  [/llama|mistral|mixtral|qwen|deepseek|phi|codestral/i, 3.0],
+];
+
+const DEFAULT_CHARS_PER_TOKEN = 3.2;
+
+export interface ModelLimits {
+  /** Total tokens the model accepts for prompt + completion */
+  contextWindow: number;
+  /** Tokens reserved for the completion */
+  maxOutputTokens: number;
+  /** Provider-enforced cap on prompt tokens, if lower than the window allows */
+  maxInputTokens?: number;
+}
+
+/**
+ * Estimate the token count of `text` for a model without shipping a tokenizer
+ */
+export function estimateTokens(text: string, model: string): number {
+  if (!text) return 0;
+  const ratio = CHARS_PER_TOKEN.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CHARS_PER_TOKEN;
+  return Math.ceil(text.length / ratio);
+}
+
+/**
+ * Token limits for a provider + model, from `AI_PROVIDERS` and `AI_CONTEXT_CONFIG`
+ */
+export function getModelLimits(providerId: string, model: string): ModelLimits {
+  const config = AI_PROVIDERS[providerId as AIProvider];
+  if (!config) {
+    return { contextWindow: 8192, maxOutputTokens: 2048 };
+  }
+
+  return {
+    contextWindow: AI_CONTEXT_CONFIG.modelContextWindows[model] ?? config.contextWindow,
+    maxOutputTokens: 'maxOutputTokens' in config ? config.maxOutputTokens : config.maxTokens,
+    maxInputTokens: 'maxInputTokens' in config ? config.maxInputTokens : undefined,
+  };
+}
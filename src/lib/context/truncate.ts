@@ -0,0 +1,106 @@
+import { estimateTokens } from './tokens';
+
+/**
+ * 1-based, inclusive line range
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface TruncationResult {
+  content: string;
+  trimmed: boolean;
+  originalTokens: number;
+  keptTokens: number;
+  omittedLines: number;
+}
+
+/**
+ * Top-level lines that carry a file's shape: imports, exports and declaration
+ * headers across the languages people usually open here
+ */
+const DECLARATION_PATTERN = /^(?:import|export|from|package|module|use|using|require|#include|@\w+|(?:pub(?:\(crate\))?\s+)?(?:async\s+)?(?:function|fn|func|def|class|interface|type|enum|struct|trait|impl|const|let|var|abstract|public|private|protected|static)\b)/;
+
+// Share of the budget held back for the omission markers
+const MARKER_RESERVE = 0.05;
+
+function omissionMarker(count: number): string {
+  return `⋮ ${count} line${count === 1 ? '' : 's'} omitted`;
+}
+
+/**
+ * Fit file content into a token budget. Keeps, in priority order: the focus
+ * region (or the top of the file), top-level declarations, then lines
+ * expanding outward from the focus. Omitted runs become a single marker line.
+ */
+export function truncateToBudget(
+  content: string,
+  budgetTokens: number,
+  model: string,
+  focus?: LineRange
+): TruncationResult {
+  const originalTokens = estimateTokens(content, model);
+  if (originalTokens <= budgetTokens) {
+    return { content, trimmed: false, originalTokens, keptTokens: originalTokens, omittedLines: 0 };
+  }
+
+  const lines = content.split('\n');
+  const cost = lines.map(line => estimateTokens(line, model) + 1);
+  const budget = Math.max(0, Math.floor(budgetTokens * (1 - MARKER_RESERVE)));
+  const kept = new Set<number>();
+  let used = 0;
+
+  const keep = (i: number): boolean => {
+    if (kept.has(i)) return true;
+    if (used + cost[i] > budget) return false;
+    kept.add(i);
+    used += cost[i];
+    return true;
+  };
+
+  const clamp = (line: number) => Math.min(Math.max(line - 1, 0), lines.length - 1);
+  const anchorStart = focus ? clamp(focus.start) : 0;
+  const anchorEnd = focus ? clamp(Math.max(focus.start, focus.end)) : 0;
+
+  // 1. The focus region itself
+  for (let i = anchorStart; i <= anchorEnd; i++) {
+    if (!keep(i)) break;
+  }
+
+  // 2. Surrounding declarations so the model still sees the file's structure
+  lines.forEach((line, i) => {
+    if (DECLARATION_PATTERN.test(line)) keep(i);
+  });
+
+  // 3. Expand outward from the focus while budget remains
+  for (let distance = 1; ; distance++) {
+    const below = anchorEnd + distance;
+    const above = anchorStart - distance;
+    if (below >= lines.length && above < 0) break;
+    const keptBelow = below < lines.length && keep(below);
+    const keptAbove = above >= 0 && keep(above);
+    if (!keptBelow && !keptAbove) break;
+  }
+
+  const output: string[] = [];
+  let gap = 0;
+  for (let i = 0; i < lines.length; i++) {
+    if (kept.has(i)) {
+      if (gap > 0) output.push(omissionMarker(gap));
+      gap = 0;
+      output.push(lines[i]);
+    } else {
+      gap++;
+    }
+  }
+  if (gap > 0) output.push(omissionMarker(gap));
+
+  return {
+    content: output.join('\n'),
+    trimmed: true,
+    originalTokens,
+    keptTokens: used,
+    omittedLines: lines.length - kept.size,
+  };
+}
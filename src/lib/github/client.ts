@@ -0,0 +1,242 @@
+import { createHash } from 'crypto';
+import { GITHUB_CONFIG } from '@/lib/config';
+
+export interface TreeEntry {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  /** Blob size in bytes */
+  size?: number;
+}
+
+export interface RepoTree {
+  sha: string;
+  entries: TreeEntry[];
+  /** GitHub stopped listing entries because the tree is too large */
+  truncated: boolean;
+}
+
+/**
+ * Identifies an access token in server-side caches without keeping the token
+ */
+export function tokenKey(accessToken: string): string {
+  return createHash('sha256').update(accessToken).digest('hex').slice(0, 32);
+}
+
+/**
+ * GET a GitHub REST endpoint with the user's token
+ */
+async function githubGet<T>(accessToken: string, path: string, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(`${GITHUB_CONFIG.apiUrl}${path}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/vnd.github.v3+json',
+    },
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Every file and directory in a repository at `ref`, via the git trees API
+ */
+export async function fetchRepoTree(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  ref: string,
+  signal?: AbortSignal
+): Promise<RepoTree> {
+  const data = await githubGet<{ sha: string; tree: TreeEntry[]; truncated: boolean }>(
+    accessToken,
+    `/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+    signal
+  );
+  return { sha: data.sha, entries: data.tree, truncated: data.truncated };
+}
+
+/**
+ * Decoded content of a blob by sha
+ */
+export async function fetchBlobContent(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  sha: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const data = await githubGet<{ content: string; encoding: string }>(
+    accessToken,
+    `/repos/${owner}/${repo}/git/blobs/${sha}`,
+    signal
+  );
+  return data.encoding === 'base64'
+    ? Buffer.from(data.content, 'base64').toString('utf-8')
+    : data.content;
+}
+
+export interface ContentsEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+  size: number;
+  sha: string;
+}
+
+export type RepoContents =
+  | { type: 'file'; name: string; path: string; content: string; size: number; sha: string }
+  | { type: 'dir'; path: string; files: ContentsEntry[] };
+
+/**
+ * A file with its decoded content, or a directory listing, at `ref` via the
+ * contents API. An empty `path` lists the repository root.
+ */
+export async function fetchContents(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string,
+  signal?: AbortSignal
+): Promise<RepoContents> {
+  const encodedPath = path.split('/').filter(Boolean).map(encodeURIComponent).join('/');
+  const data = await githubGet<
+    | { type: string; name: string; path: string; content?: string; encoding?: string; size: number; sha: string }
+    | Array<{ type: string; name: string; path: string; size: number; sha: string }>
+  >(accessToken, `/repos/${owner}/${repo}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`, signal);
+
+  if (!Array.isArray(data)) {
+    return {
+      type: 'file',
+      name: data.name,
+      path: data.path,
+      content: data.encoding === 'base64' ? Buffer.from(data.content ?? '', 'base64').toString('utf-8') : data.content ?? '',
+      size: data.size,
+      sha: data.sha,
+    };
+  }
+
+  return {
+    type: 'dir',
+    path,
+    files: data.map(item => ({
+      name: item.name,
+      path: item.path,
+      type: item.type === 'dir' ? 'dir' : 'file',
+      size: item.size,
+      sha: item.sha,
+    })),
+  };
+}
+
+export interface CompareFile {
+  path: string;
+  /** Path before a rename */
+  previousPath?: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  additions: number;
+  deletions: number;
+  /** Unified diff hunks; GitHub omits them for binary and very large files */
+  patch?: string;
+}
+
+export interface CompareResult {
+  /** Merge base of the two refs */
+  baseSha: string;
+  /** Null when the head commit is past the commits GitHub lists */
+  headSha: string | null;
+  commits: number;
+  files: CompareFile[];
+}
+
+/**
+ * Files changed between two refs (three-dot compare, like a pull request)
+ */
+export async function fetchCompare(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+  signal?: AbortSignal
+): Promise<CompareResult> {
+  const data = await githubGet<{
+    merge_base_commit: { sha: string };
+    commits: Array<{ sha: string }>;
+    total_commits: number;
+    files?: Array<{
+      filename: string;
+      previous_filename?: string;
+      status: CompareFile['status'];
+      additions: number;
+      deletions: number;
+      patch?: string;
+    }>;
+  }>(
+    accessToken,
+    `/repos/${owner}/${repo}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`,
+    signal
+  );
+
+  return {
+    baseSha: data.merge_base_commit.sha,
+    // Commits are listed oldest first and capped at 250
+    headSha: data.commits.length === 0
+      ? data.merge_base_commit.sha
+      : data.commits.length === data.total_commits ? data.commits[data.commits.length - 1].sha : null,
+    commits: data.total_commits,
+    files: (data.files ?? []).map(file => ({
+      path: file.filename,
+      previousPath: file.previous_filename,
+      status: file.status,
+      additions: file.additions,
+      deletions: file.deletions,
+      patch: file.patch,
+    })),
+  };
+}
+
+export interface PullRequestRefs {
+  number: number;
+  title: string;
+  body: string;
+  /** Branch the pull request merges into */
+  base: string;
+  /** Branch the pull request comes from */
+  head: string;
+  headSha: string;
+}
+
+/**
+ * Title and branches of a pull request
+ */
+export async function fetchPullRequest(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  signal?: AbortSignal
+): Promise<PullRequestRefs> {
+  const data = await githubGet<{
+    number: number;
+    title: string;
+    body: string | null;
+    base: { ref: string };
+    head: { ref: string; sha: string; repo: { full_name: string } | null };
+  }>(accessToken, `/repos/${owner}/${repo}/pulls/${pullNumber}`, signal);
+
+  return {
+    number: data.number,
+    title: data.title,
+    body: data.body ?? '',
+    base: data.base.ref,
+    // Branches of forks don't exist in this repo; their head commit does
+    head: data.head.repo?.full_name === `${owner}/${repo}` ? data.head.ref : data.head.sha,
+    headSha: data.head.sha,
+  };
+}
@@ -0,0 +1,276 @@
+import { AI_IMPORT_CONTEXT_CONFIG } from '@/lib/config';
+import { estimateTokens, planContextBudget } from '@/lib/context';
+import { fetchBlobContent, fetchRepoTree, tokenKey } from '@/lib/github';
+import { extractDeclarations, isScriptPath, parseImports } from './parse';
+import { parsePathMapping, PathMapping, resolveModulePath } from './resolve';
+
+/**
+ * A local module the file imports, with the signatures it uses from it
+ */
+export interface ImportedFile {
+  path: string;
+  specifier: string;
+  /** Imported names, or `*` for namespace imports and re-exports */
+  names: string[];
+  signatures: string;
+  tokens: number;
+}
+
+export interface ImportContext {
+  /** Files whose signatures were included */
+  files: ImportedFile[];
+  /** Prompt section with the signatures, empty when nothing was included */
+  text: string;
+  warning?: string;
+}
+
+/**
+ * Read access to a repository's files at a ref, with module specifiers
+ * resolved like the import context does (relative paths and tsconfig `paths`)
+ */
+export interface RepoFiles {
+  files: Set<string>;
+  read: (path: string) => Promise<string | null>;
+  resolve: (specifier: string, from: string) => string | null;
+}
+
+interface RepoSnapshot {
+  treeSha: string;
+  blobShas: Map<string, string>;
+  files: Set<string>;
+  mapping: PathMapping | null;
+  checkedAt: number;
+}
+
+// In-memory tree snapshots per repo + ref and blob contents by sha (use Redis
+// in production). Both are keyed by the token that fetched them, so nothing
+// read with one user's access is served to another.
+const snapshots = new Map<string, RepoSnapshot>();
+const blobs = new Map<string, string>();
+const MAX_CACHED_SNAPSHOTS = 100;
+const MAX_CACHED_BLOBS = 500;
+
+/**
+ * Insert into an insertion-ordered cache and drop the oldest entries past `max`
+ */
+function remember<T>(cache: Map<string, T>, key: string, value: T, max: number): void {
+  cache.delete(key);
+  cache.set(key, value);
+  while (cache.size > max) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) break;
+    cache.delete(oldest);
+  }
+}
+
+const CONFIG_FILES = ['tsconfig.json', 'jsconfig.json'];
+
+async function readBlob(accessToken: string, owner: string, repo: string, sha: string): Promise<string> {
+  const key = `${tokenKey(accessToken)}:${sha}`;
+  const cached = blobs.get(key);
+  if (cached !== undefined) return cached;
+
+  const content = await fetchBlobContent(accessToken, owner, repo, sha);
+  remember(blobs, key, content, MAX_CACHED_BLOBS);
+  return content;
+}
+
+async function getSnapshot(accessToken: string, owner: string, repo: string, ref: string): Promise<RepoSnapshot> {
+  const key = `${tokenKey(accessToken)}:${owner}/${repo}@${ref}`;
+  const existing = snapshots.get(key);
+  if (existing && Date.now() - existing.checkedAt < AI_IMPORT_CONTEXT_CONFIG.ttlMs) return existing;
+
+  const tree = await fetchRepoTree(accessToken, owner, repo, ref);
+  const blobShas = new Map(tree.entries.filter(entry => entry.type === 'blob').map(entry => [entry.path, entry.sha]));
+
+  // Root tsconfig (or jsconfig) supplies `paths` aliases like `@/*`
+  const configPath = CONFIG_FILES.find(path => blobShas.has(path));
+  const mapping = configPath
+    ? parsePathMapping(configPath, await readBlob(accessToken, owner, repo, blobShas.get(configPath)!))
+    : null;
+
+  const snapshot: RepoSnapshot = {
+    treeSha: tree.sha,
+    blobShas,
+    files: new Set(blobShas.keys()),
+    mapping,
+    checkedAt: Date.now(),
+  };
+  remember(snapshots, key, snapshot, MAX_CACHED_SNAPSHOTS);
+  return snapshot;
+}
+
+/**
+ * The repository's files at `ref`, from the caller's cached tree snapshot
+ */
+export async function openRepoFiles(accessToken: string, repository: string, ref: string): Promise<RepoFiles | null> {
+  const [owner, repo] = repository.split('/');
+  if (!owner || !repo) return null;
+
+  const snapshot = await getSnapshot(accessToken, owner, repo, ref);
+  return {
+    files: snapshot.files,
+    read: async (path: string) => {
+      const sha = snapshot.blobShas.get(path);
+      return sha ? readBlob(accessToken, owner, repo, sha) : null;
+    },
+    resolve: (specifier: string, from: string) =>
+      resolveModulePath(specifier, from, snapshot.files, snapshot.mapping),
+  };
+}
+
+/**
+ * Signatures `path` exports under `names` (every export when null), following
+ * barrel re-exports up to `maxReExportDepth` levels
+ */
+async function collectSignatures(
+  read: (path: string) => Promise<string | null>,
+  resolve: (specifier: string, from: string) => string | null,
+  path: string,
+  names: string[] | null,
+  depth: number
+): Promise<string[]> {
+  const content = await read(path);
+  if (content === null) return [];
+
+  const declarations = extractDeclarations(path, content);
+  const signatures: string[] = [];
+  const missing: string[] = [];
+  for (const name of names ?? [...declarations.exports.keys()]) {
+    const signature = declarations.exports.get(name);
+    if (signature) signatures.push(signature);
+    else missing.push(name);
+  }
+
+  if (depth >= AI_IMPORT_CONTEXT_CONFIG.maxReExportDepth) return signatures;
+
+  for (const reExport of declarations.reExports) {
+    if (names !== null && missing.length === 0) break;
+    const target = resolve(reExport.specifier, path);
+    if (!target) continue;
+
+    let wanted: string[] | null;
+    if (reExport.names === null) {
+      wanted = names === null ? null : missing;
+    } else {
+      const exportedNames = names === null ? [...reExport.names.keys()] : missing.filter(name => reExport.names!.has(name));
+      if (exportedNames.length === 0) continue;
+      wanted = exportedNames.map(name => reExport.names!.get(name)!);
+    }
+
+    const found = await collectSignatures(read, resolve, target, wanted, depth + 1);
+    signatures.push(...found.filter(signature => !signatures.includes(signature)));
+  }
+
+  return signatures;
+}
+
+/**
+ * Local modules imported by a TypeScript/JavaScript file, resolved against the
+ * repository (relative imports and tsconfig `paths`), with the signatures of
+ * what the file uses from each. `fileContent` defaults to the file in the repo.
+ */
+export async function findImportedFiles(options: {
+  accessToken: string;
+  repository: string;
+  ref: string;
+  filePath: string;
+  fileContent?: string | null;
+}): Promise<ImportedFile[]> {
+  if (!isScriptPath(options.filePath)) return [];
+  const repoFiles = await openRepoFiles(options.accessToken, options.repository, options.ref);
+  if (!repoFiles) return [];
+  const { read, resolve } = repoFiles;
+
+  const content = options.fileContent ?? await read(options.filePath);
+  if (!content) return [];
+
+  const files: ImportedFile[] = [];
+  for (const reference of parseImports(options.filePath, content)) {
+    if (files.length >= AI_IMPORT_CONTEXT_CONFIG.maxFiles) break;
+    const path = resolve(reference.specifier, options.filePath);
+    if (!path || path === options.filePath || files.some(file => file.path === path)) continue;
+
+    const signatures = await collectSignatures(read, resolve, path, reference.all ? null : reference.names, 0);
+    if (signatures.length === 0) continue;
+
+    const text = signatures.join('\n\n');
+    files.push({
+      path,
+      specifier: reference.specifier,
+      names: reference.all ? ['*'] : reference.names,
+      signatures: text,
+      tokens: estimateTokens(text, ''),
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Prompt section for the imported files that fit the budget, in import order
+ */
+export function buildImportContext(
+  files: ImportedFile[],
+  options: { filePath: string; excludePaths: string[]; provider: string; model: string }
+): ImportContext {
+  const budget = planContextBudget({ provider: options.provider, model: options.model, systemPrompt: '', prompt: '' });
+  const maxTokens = Math.min(
+    AI_IMPORT_CONTEXT_CONFIG.maxContextTokens,
+    Math.floor(budget.inputTokens * AI_IMPORT_CONTEXT_CONFIG.maxContextShare)
+  );
+
+  const included: ImportedFile[] = [];
+  const dropped: string[] = [];
+  let tokens = 0;
+  for (const file of files) {
+    if (options.excludePaths.includes(file.path)) continue;
+    const cost = estimateTokens(file.signatures, options.model);
+    if (tokens + cost > maxTokens) {
+      dropped.push(file.path);
+      continue;
+    }
+    tokens += cost;
+    included.push(file);
+  }
+
+  const warning = dropped.length > 0
+    ? `Imported declarations skipped to fit ${options.model}: ${dropped.join(', ')}`
+    : undefined;
+  if (included.length === 0) return { files: [], text: '', warning };
+
+  const blocks = included.map(file =>
+    `// ${file.path} (imported as '${file.specifier}')\n\`\`\`ts\n${file.signatures}\n\`\`\``
+  );
+  return {
+    files: included,
+    text: `Declarations imported by ${options.filePath} (signatures only, bodies omitted). Keep call sites and types consistent with them:\n\n${blocks.join('\n\n')}`,
+    warning,
+  };
+}
+
+/**
+ * Import context for a command's file. Failures only produce a warning, so a
+ * GitHub hiccup never blocks the command itself.
+ */
+export async function collectImportContext(options: {
+  accessToken: string;
+  repository: string;
+  ref: string;
+  filePath: string;
+  fileContent: string;
+  excludePaths: string[];
+  provider: string;
+  model: string;
+}): Promise<ImportContext> {
+  try {
+    const files = await findImportedFiles(options);
+    return buildImportContext(files, options);
+  } catch (error) {
+    return {
+      files: [],
+      text: '',
+      warning: `Imported declarations unavailable: ${error instanceof Error ? error.message : 'resolution failed'}`,
+    };
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * TypeScript/JavaScript module parsing for import context: which local
+ * modules a file imports, and the signatures those modules export.
+ */
+import * as ts from 'typescript';
+import { AI_IMPORT_CONTEXT_CONFIG } from '@/lib/config';
+
+export interface ImportReference {
+  specifier: string;
+  /** Imported names; `default` for a default import */
+  names: string[];
+  /** Namespace import or `export *` — every export is used */
+  all: boolean;
+}
+
+export interface ReExport {
+  specifier: string;
+  /** Exported name → name in the source module; null for `export *` */
+  names: Map<string, string> | null;
+}
+
+export interface ModuleDeclarations {
+  /** Signature per exported name (`default` for the default export) */
+  exports: Map<string, string>;
+  reExports: ReExport[];
+}
+
+const SCRIPT_EXTENSIONS = /\.(?:[cm]?[jt]sx?)$/i;
+
+export function isScriptPath(path: string): boolean {
+  return SCRIPT_EXTENSIONS.test(path);
+}
+
+function parseSource(path: string, content: string): ts.SourceFile {
+  const kind = /\.tsx$/i.test(path) ? ts.ScriptKind.TSX
+    : /\.[cm]?ts$/i.test(path) ? ts.ScriptKind.TS
+      : /\.jsx$/i.test(path) ? ts.ScriptKind.JSX
+        : ts.ScriptKind.JS;
+  return ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, kind);
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some(m => m.kind === kind) ?? false);
+}
+
+/**
+ * Import and re-export specifiers of a file, merged per specifier.
+ * Side-effect imports (`import './styles.css'`) carry no declarations and are skipped.
+ */
+export function parseImports(path: string, content: string): ImportReference[] {
+  const source = parseSource(path, content);
+  const references = new Map<string, ImportReference>();
+
+  const add = (specifier: string, names: string[], all: boolean) => {
+    const existing = references.get(specifier);
+    if (existing) {
+      existing.names.push(...names.filter(name => !existing.names.includes(name)));
+      existing.all = existing.all || all;
+    } else {
+      references.set(specifier, { specifier, names, all });
+    }
+  };
+
+  for (const statement of source.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      if (!clause) continue;
+      const names = clause.name ? ['default'] : [];
+      const bindings = clause.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        add(statement.moduleSpecifier.text, names, true);
+        continue;
+      }
+      if (bindings && ts.isNamedImports(bindings)) {
+        names.push(...bindings.elements.map(e => (e.propertyName ?? e.name).text));
+      }
+      add(statement.moduleSpecifier.text, names, false);
+    } else if (ts.isExportDeclaration(statement) && statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const clause = statement.exportClause;
+      if (!clause || ts.isNamespaceExport(clause)) {
+        add(statement.moduleSpecifier.text, [], true);
+      } else {
+        add(statement.moduleSpecifier.text, clause.elements.map(e => (e.propertyName ?? e.name).text), false);
+      }
+    }
+  }
+
+  return [...references.values()];
+}
+
+function capLines(text: string): string {
+  const lines = text.split('\n');
+  const max = AI_IMPORT_CONTEXT_CONFIG.maxDeclarationLines;
+  if (lines.length <= max) return text;
+  return [...lines.slice(0, max), `  // … ${lines.length - max} more lines`].join('\n');
+}
+
+/**
+ * Source text from the node's start up to (not including) `end`, with the
+ * body replaced by a terminator
+ */
+function head(source: ts.SourceFile, node: ts.Node, end: ts.Node | undefined, terminator: string): string {
+  if (!end) return node.getText(source);
+  return source.text.slice(node.getStart(source), end.getStart(source)).trimEnd() + terminator;
+}
+
+function classSignature(source: ts.SourceFile, node: ts.ClassDeclaration): string {
+  const header = source.text.slice(node.getStart(source), node.members.pos).trimEnd();
+  const members = node.members.flatMap(member => {
+    if (hasModifier(member, ts.SyntaxKind.PrivateKeyword) || (member.name && ts.isPrivateIdentifier(member.name))) {
+      return [];
+    }
+    if (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) ||
+        ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+      return [head(source, member, member.body, ';')];
+    }
+    if (ts.isPropertyDeclaration(member)) {
+      return [head(source, member, member.initializer, '').replace(/\s*=$/, '') + ';'];
+    }
+    return [member.getText(source)];
+  });
+  return [header, ...members.map(member => `  ${member.replace(/\n\s*/g, ' ')}`), '}'].join('\n');
+}
+
+/**
+ * Signature text per declared name for one top-level statement
+ */
+function declarationsOf(source: ts.SourceFile, statement: ts.Statement): Array<[string, string]> {
+  if (ts.isFunctionDeclaration(statement) && statement.name) {
+    return [[statement.name.text, head(source, statement, statement.body, ';')]];
+  }
+  if (ts.isClassDeclaration(statement) && statement.name) {
+    return [[statement.name.text, classSignature(source, statement)]];
+  }
+  if ((ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) ||
+       ts.isEnumDeclaration(statement)) && statement.name) {
+    return [[statement.name.text, statement.getText(source)]];
+  }
+  if (ts.isVariableStatement(statement)) {
+    const keyword = statement.declarationList.flags & ts.NodeFlags.Const ? 'const'
+      : statement.declarationList.flags & ts.NodeFlags.Let ? 'let' : 'var';
+    const prefix = hasModifier(statement, ts.SyntaxKind.ExportKeyword) ? 'export ' : '';
+    return statement.declarationList.declarations.flatMap((declaration): Array<[string, string]> => {
+      if (!ts.isIdentifier(declaration.name)) return [];
+      const init = declaration.initializer;
+      let text: string;
+      if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) {
+        text = head(source, declaration, init.body, ' …');
+      } else if (declaration.type || !init) {
+        text = head(source, declaration, init, '').replace(/\s*=$/, '');
+      } else if (ts.isCallExpression(init) && init.arguments.length > 0) {
+        // Wrapped components and factories: `forwardRef(...)`, `create<State>()(...)`
+        text = `${head(source, declaration, init.arguments[0], '')}…)`;
+      } else {
+        text = declaration.getText(source);
+      }
+      return [[declaration.name.text, `${prefix}${keyword} ${text};`]];
+    });
+  }
+  return [];
+}
+
+/**
+ * Exported declarations of a module, reduced to signatures: function and
+ * method bodies are dropped, types are kept whole (up to `maxDeclarationLines`)
+ */
+export function extractDeclarations(path: string, content: string): ModuleDeclarations {
+  const source = parseSource(path, content);
+  const locals = new Map<string, string>();
+  const exported = new Map<string, string>(); // exported name → local name
+  const reExports: ReExport[] = [];
+
+  for (const statement of source.statements) {
+    const isExported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    for (const [name, signature] of declarationsOf(source, statement)) {
+      locals.set(name, capLines(signature));
+      if (isExported) exported.set(isDefault ? 'default' : name, name);
+    }
+
+    // `export default function () {}` has no name to key it by
+    if (isExported && isDefault && ts.isFunctionDeclaration(statement) && !statement.name) {
+      locals.set('default', head(source, statement, statement.body, ';'));
+      exported.set('default', 'default');
+    }
+
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      if (ts.isIdentifier(statement.expression)) {
+        exported.set('default', statement.expression.text);
+      } else {
+        locals.set('default', capLines(statement.getText(source)));
+        exported.set('default', 'default');
+      }
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+      const clause = statement.exportClause;
+      if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+        reExports.push({
+          specifier: statement.moduleSpecifier.text,
+          names: clause && ts.isNamedExports(clause)
+            ? new Map(clause.elements.map(e => [e.name.text, (e.propertyName ?? e.name).text]))
+            : null,
+        });
+      } else if (clause && ts.isNamedExports(clause)) {
+        // `export { a, b as c }` of local declarations
+        for (const element of clause.elements) {
+          exported.set(element.name.text, (element.propertyName ?? element.name).text);
+        }
+      }
+    }
+  }
+
+  const exports = new Map<string, string>();
+  for (const [name, local] of exported) {
+    const signature = locals.get(local);
+    if (signature) exports.set(name, signature);
+  }
+  return { exports, reExports };
+}
@@ -0,0 +1,120 @@
+import * as ts from 'typescript';
+
+/**
+ * The parts of a tsconfig that affect where imports point
+ */
+export interface PathMapping {
+  /** Directory the mappings are relative to, repo-relative ('' for the root) */
+  baseDir: string;
+  paths: Record<string, string[]>;
+  /** Set when the tsconfig has a `baseUrl`, so bare specifiers may be local */
+  baseUrl: string | null;
+}
+
+const EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Normalize `a/./b/../c` style paths. Returns null when the path climbs
+ * above the repository root.
+ */
+function normalize(path: string): string | null {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+function join(...parts: string[]): string | null {
+  return normalize(parts.filter(Boolean).join('/'));
+}
+
+function dirname(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+/**
+ * Read `baseUrl` and `paths` from a tsconfig/jsconfig (comments and trailing
+ * commas allowed). `configPath` is the file's repo-relative path.
+ */
+export function parsePathMapping(configPath: string, text: string): PathMapping | null {
+  const { config, error } = ts.parseConfigFileTextToJson(configPath, text);
+  if (error || !config) return null;
+
+  const options = (config.compilerOptions ?? {}) as { baseUrl?: string; paths?: Record<string, string[]> };
+  const configDir = dirname(configPath);
+  const baseUrl = typeof options.baseUrl === 'string' ? join(configDir, options.baseUrl) : null;
+
+  return {
+    // `paths` are relative to baseUrl when set, otherwise to the tsconfig itself
+    baseDir: baseUrl ?? configDir,
+    paths: options.paths && typeof options.paths === 'object' ? options.paths : {},
+    baseUrl,
+  };
+}
+
+/**
+ * First existing file for an extensionless (or `.js`-suffixed ESM) module path
+ */
+function probe(base: string, files: Set<string>): string | null {
+  if (files.has(base) && /\.[cm]?[jt]sx?$/.test(base)) return base;
+  // `import './foo.js'` in TypeScript ESM refers to foo.ts
+  const stem = base.replace(/\.[cm]?jsx?$/, '');
+  for (const extension of EXTENSIONS) {
+    if (files.has(stem + extension)) return stem + extension;
+  }
+  for (const extension of EXTENSIONS) {
+    if (files.has(`${base}/index${extension}`)) return `${base}/index${extension}`;
+  }
+  return null;
+}
+
+/**
+ * Resolve an import specifier to a file in the repository, or null for
+ * packages and anything that doesn't exist
+ */
+export function resolveModulePath(
+  specifier: string,
+  fromPath: string,
+  files: Set<string>,
+  mapping: PathMapping | null
+): string | null {
+  if (specifier.startsWith('.')) {
+    const base = join(dirname(fromPath), specifier);
+    return base === null ? null : probe(base, files);
+  }
+
+  if (mapping) {
+    // Longest matching pattern wins, like the TypeScript resolver
+    const patterns = Object.keys(mapping.paths).sort((a, b) => b.length - a.length);
+    for (const pattern of patterns) {
+      const [prefix, suffix = ''] = pattern.split('*');
+      const wildcard = pattern.includes('*');
+      const matches = wildcard
+        ? specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length
+        : specifier === pattern;
+      if (!matches) continue;
+
+      const captured = wildcard ? specifier.slice(prefix.length, specifier.length - suffix.length) : '';
+      for (const target of mapping.paths[pattern]) {
+        const base = join(mapping.baseDir, target.replace('*', captured));
+        const resolved = base === null ? null : probe(base, files);
+        if (resolved) return resolved;
+      }
+    }
+
+    if (mapping.baseUrl !== null) {
+      const base = join(mapping.baseUrl, specifier);
+      const resolved = base === null ? null : probe(base, files);
+      if (resolved) return resolved;
+    }
+  }
+
+  return null;
+}
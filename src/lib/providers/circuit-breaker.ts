@@ -0,0 +1,77 @@
+import { AI_FAILOVER_CONFIG } from '@/lib/config';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  probeInFlight: boolean;
+}
+
+// In-memory breaker state per provider (use Redis in production)
+const circuits = new Map<string, Circuit>();
+
+function getCircuit(providerId: string): Circuit {
+  let circuit = circuits.get(providerId);
+  if (!circuit) {
+    circuit = { state: 'closed', failures: 0, openedAt: 0, probeInFlight: false };
+    circuits.set(providerId, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Ask the breaker whether a request may go to this provider. An open circuit
+ * moves to half-open once the cooldown has passed and lets exactly one probe through.
+ */
+export function acquireCircuit(providerId: string): boolean {
+  const circuit = getCircuit(providerId);
+
+  if (circuit.state === 'open') {
+    if (Date.now() - circuit.openedAt < AI_FAILOVER_CONFIG.cooldownMs) return false;
+    circuit.state = 'half-open';
+    circuit.probeInFlight = false;
+  }
+
+  if (circuit.state === 'half-open') {
+    if (circuit.probeInFlight) return false;
+    circuit.probeInFlight = true;
+  }
+
+  return true;
+}
+
+/**
+ * Release a circuit without recording an outcome, e.g. when the caller
+ * cancelled before the provider answered
+ */
+export function releaseCircuit(providerId: string): void {
+  getCircuit(providerId).probeInFlight = false;
+}
+
+export function recordSuccess(providerId: string): void {
+  circuits.set(providerId, { state: 'closed', failures: 0, openedAt: 0, probeInFlight: false });
+}
+
+export function recordFailure(providerId: string): void {
+  const circuit = getCircuit(providerId);
+  circuit.failures++;
+  circuit.probeInFlight = false;
+
+  if (circuit.state === 'half-open' || circuit.failures >= AI_FAILOVER_CONFIG.failureThreshold) {
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
+
+/**
+ * Current breaker state for a provider, for health reporting
+ */
+export function getCircuitState(providerId: string): CircuitState {
+  const circuit = getCircuit(providerId);
+  if (circuit.state === 'open' && Date.now() - circuit.openedAt >= AI_FAILOVER_CONFIG.cooldownMs) {
+    return 'half-open';
+  }
+  return circuit.state;
+}
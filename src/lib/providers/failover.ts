@@ -0,0 +1,146 @@
+import { AI_FAILOVER_CONFIG } from '@/lib/config';
+import { acquireCircuit, recordFailure, recordSuccess, releaseCircuit } from './circuit-breaker';
+import { getConfiguredProviders } from './registry';
+import { AIProviderAdapter, CompletionRequest, CompletionResult, ProviderError, StreamChunk } from './types';
+
+/**
+ * A provider that failed before another one served the request
+ */
+export interface FailoverAttempt {
+  provider: string;
+  model: string;
+  error: string;
+}
+
+export interface FailoverResult<T> {
+  provider: AIProviderAdapter;
+  model: string;
+  /** Providers tried and failed before `provider`, in order */
+  failedAttempts: FailoverAttempt[];
+  result: T;
+}
+
+/**
+ * Rate limits, server errors, auth problems and transport failures move on to
+ * the next provider. Anything else is a problem with the request itself.
+ */
+function shouldFailover(error: unknown): boolean {
+  if (!(error instanceof ProviderError) || error.status === undefined) return true;
+  return error.status === 429 || error.status === 401 || error.status === 403 || error.status >= 500;
+}
+
+/**
+ * The requested provider + model first, then every other configured provider
+ * in `AI_FAILOVER_CONFIG.order` that the requested one may fail over to, with
+ * its default model
+ */
+function buildChain(primary: AIProviderAdapter, model: string): Array<{ provider: AIProviderAdapter; model: string }> {
+  const chain = [{ provider: primary, model }];
+  if (!AI_FAILOVER_CONFIG.enabled) return chain;
+
+  const targets = AI_FAILOVER_CONFIG.targets[primary.id];
+  const fallbacks = getConfiguredProviders()
+    .filter(p => p.id !== primary.id && AI_FAILOVER_CONFIG.order.includes(p.id))
+    .filter(p => targets === null || targets.includes(p.id))
+    .sort((a, b) => AI_FAILOVER_CONFIG.order.indexOf(a.id) - AI_FAILOVER_CONFIG.order.indexOf(b.id));
+
+  return [...chain, ...fallbacks.map(p => ({ provider: p, model: p.defaultModel }))];
+}
+
+/**
+ * Walk the failover chain, calling `attempt` on each provider whose circuit
+ * allows it until one succeeds
+ */
+async function runWithFailover<T>(
+  primary: AIProviderAdapter,
+  model: string,
+  signal: AbortSignal | undefined,
+  attempt: (provider: AIProviderAdapter, model: string) => Promise<T>
+): Promise<FailoverResult<T>> {
+  const failedAttempts: FailoverAttempt[] = [];
+  let firstError: unknown;
+
+  for (const link of buildChain(primary, model)) {
+    if (!acquireCircuit(link.provider.id)) {
+      failedAttempts.push({ provider: link.provider.id, model: link.model, error: 'Circuit open' });
+      continue;
+    }
+
+    try {
+      const result = await attempt(link.provider, link.model);
+      recordSuccess(link.provider.id);
+      return { provider: link.provider, model: link.model, failedAttempts, result };
+    } catch (error) {
+      // Cancelled by the caller — says nothing about provider health
+      if (signal?.aborted) {
+        releaseCircuit(link.provider.id);
+        throw error;
+      }
+
+      // The provider answered, the request itself was rejected
+      if (!shouldFailover(error)) {
+        recordSuccess(link.provider.id);
+        throw error;
+      }
+
+      recordFailure(link.provider.id);
+      firstError ??= error;
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.log(`${link.provider.name} failed (${message}), failing over`);
+      failedAttempts.push({ provider: link.provider.id, model: link.model, error: message });
+    }
+  }
+
+  if (firstError) throw firstError;
+  throw new Error('All AI providers are temporarily unavailable. Please try again in a minute.');
+}
+
+/**
+ * Warning for a response that a different provider than the requested one
+ * served, or null when the requested provider answered
+ */
+export function failoverNotice(requested: AIProviderAdapter, served: { provider: AIProviderAdapter; model: string }): string | null {
+  if (served.provider.id === requested.id) return null;
+  return `Served by ${served.provider.name} (${served.model}) instead of ${requested.name}, which was unavailable.`;
+}
+
+/**
+ * Complete a request, failing over across configured providers
+ */
+export function completeWithFailover(
+  primary: AIProviderAdapter,
+  request: CompletionRequest
+): Promise<FailoverResult<CompletionResult>> {
+  return runWithFailover(primary, request.model, request.signal, (provider, model) =>
+    provider.complete({ ...request, model })
+  );
+}
+
+/**
+ * Open a stream, failing over across configured providers. A provider counts
+ * as serving the request once it yields its first chunk; errors after that
+ * surface to the caller since output has already been sent.
+ */
+export function streamWithFailover(
+  primary: AIProviderAdapter,
+  request: CompletionRequest
+): Promise<FailoverResult<AsyncIterable<StreamChunk>>> {
+  return runWithFailover(primary, request.model, request.signal, async (provider, model) => {
+    const iterator = provider.stream({ ...request, model })[Symbol.asyncIterator]();
+    const first = await iterator.next();
+
+    return (async function* () {
+      if (first.done) return;
+      yield first.value;
+      try {
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+          yield next.value;
+        }
+      } catch (error) {
+        if (!request.signal?.aborted) recordFailure(provider.id);
+        throw error;
+      }
+    })();
+  });
+}
@@ -0,0 +1,125 @@
+import { GoogleGenAI, type GenerateContentParameters, type GenerateContentResponseUsageMetadata } from '@google/genai';
+import type { AI_PROVIDERS } from '@/lib/config';
+import { withRetry } from './retry';
+import { AIProviderAdapter, CompletionRequest, ProviderError, TokenUsage } from './types';
+
+type GeminiConfig = typeof AI_PROVIDERS.gemini;
+
+function isRateLimited(error: unknown): boolean {
+  return (error as { status?: number }).status === 429;
+}
+
+/**
+ * Wrap SDK errors in a ProviderError; aborts pass through untouched
+ */
+function translateError(error: unknown, signal?: AbortSignal): unknown {
+  if (error instanceof ProviderError || signal?.aborted) return error;
+  const err = error as { status?: number; message?: string };
+  console.error('Gemini API error:', err.message || error);
+  if (err.status === 429) {
+    return new ProviderError('Gemini API rate limit exceeded. Please try again in a moment.', 'gemini', 429);
+  }
+  return new ProviderError(`Gemini API error: ${err.message || 'Unknown error'}`, 'gemini', err.status);
+}
+
+function toUsage(metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const completionTokens = metadata.candidatesTokenCount ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: metadata.totalTokenCount ?? promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Map chat messages onto Gemini's contents + systemInstruction shape
+ */
+function toGeminiRequest(config: GeminiConfig, request: CompletionRequest): GenerateContentParameters {
+  const systemInstruction = request.messages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n');
+
+  return {
+    model: request.model,
+    contents: request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }],
+      })),
+    config: {
+      systemInstruction: systemInstruction || undefined,
+      maxOutputTokens: request.maxTokens ?? config.maxOutputTokens,
+      temperature: request.temperature ?? config.temperature,
+      topP: config.topP,
+      topK: config.topK,
+      abortSignal: request.signal,
+    },
+  };
+}
+
+/**
+ * Google Gemini via the native @google/genai SDK
+ */
+export function createGeminiProvider(config: GeminiConfig): AIProviderAdapter {
+  return {
+    id: config.id,
+    name: config.name,
+    defaultModel: config.defaultModel,
+    capabilities: { streaming: true, systemMessages: true },
+
+    isConfigured: () => !!config.apiKey,
+
+    listModels: () => config.models,
+
+    async complete(request) {
+      const ai = new GoogleGenAI({ apiKey: config.apiKey });
+      try {
+        const response = await withRetry(
+          'Gemini',
+          () => ai.models.generateContent(toGeminiRequest(config, request)),
+          isRateLimited,
+          request.signal
+        );
+        return {
+          text: response.text || 'No response from Gemini.',
+          model: request.model,
+          finishReason: response.candidates?.[0]?.finishReason,
+          usage: toUsage(response.usageMetadata),
+        };
+      } catch (error) {
+        throw translateError(error, request.signal);
+      }
+    },
+
+    async *stream(request) {
+      const ai = new GoogleGenAI({ apiKey: config.apiKey });
+      let finishReason: string | undefined;
+      let usage: TokenUsage | undefined;
+
+      try {
+        const response = await withRetry(
+          'Gemini stream',
+          () => ai.models.generateContentStream(toGeminiRequest(config, request)),
+          isRateLimited,
+          request.signal
+        );
+
+        for await (const chunk of response) {
+          finishReason = chunk.candidates?.[0]?.finishReason ?? finishReason;
+          usage = toUsage(chunk.usageMetadata) ?? usage;
+          if (chunk.text) {
+            yield { type: 'delta', content: chunk.text };
+          }
+        }
+      } catch (error) {
+        throw translateError(error, request.signal);
+      }
+
+      yield { type: 'finish', finishReason, usage };
+    },
+  };
+}
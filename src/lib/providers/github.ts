@@ -0,0 +1,141 @@
+import ModelClient, { isUnexpected } from '@azure-rest/ai-inference';
+import { AzureKeyCredential } from '@azure/core-auth';
+import { createSseStream, type NodeJSReadableStream } from '@azure/core-sse';
+import type { AI_PROVIDERS } from '@/lib/config';
+import { isTransientError, withRetry } from './retry';
+import { AIProviderAdapter, CompletionRequest, CompletionResult, ProviderError, TokenUsage } from './types';
+
+type GitHubModelsConfig = typeof AI_PROVIDERS.github;
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+}
+
+function toProviderError(status: number, message?: string): ProviderError {
+  if (status === 401) {
+    return new ProviderError('Invalid GITHUB_TOKEN. Check your .env file.', 'github', status);
+  }
+  return new ProviderError(
+    `GitHub Models API error (${status}): ${message || 'Unknown error'}`,
+    'github',
+    status
+  );
+}
+
+/**
+ * Read the error payload of a failed streaming request
+ */
+async function readErrorMessage(body?: NodeJSReadableStream): Promise<string | undefined> {
+  if (!body) return undefined;
+  let text = '';
+  for await (const chunk of body) {
+    text += chunk.toString();
+  }
+  try {
+    return JSON.parse(text).error?.message;
+  } catch {
+    return text || undefined;
+  }
+}
+
+function toRequestBody(config: GitHubModelsConfig, request: CompletionRequest) {
+  return {
+    messages: request.messages,
+    model: request.model,
+    temperature: request.temperature ?? config.temperature,
+    max_tokens: request.maxTokens ?? config.maxTokens,
+  };
+}
+
+/**
+ * GitHub Models (OpenAI and others) via the @azure-rest/ai-inference SDK
+ */
+export function createGitHubModelsProvider(config: GitHubModelsConfig): AIProviderAdapter {
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    const client = ModelClient(config.endpoint, new AzureKeyCredential(config.apiKey));
+
+    return withRetry('GitHub Models', async () => {
+      const response = await client.path('/chat/completions').post({
+        body: toRequestBody(config, request),
+        abortSignal: request.signal,
+      });
+
+      if (isUnexpected(response)) {
+        throw toProviderError(Number(response.status), response.body?.error?.message);
+      }
+
+      const choice = response.body.choices[0];
+      const usage = response.body.usage;
+      return {
+        text: choice.message.content || 'No response from GitHub Models.',
+        model: response.body.model || request.model,
+        finishReason: choice.finish_reason ?? undefined,
+        usage: usage && {
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          totalTokens: usage.total_tokens,
+        },
+      };
+    }, isTransientError, request.signal);
+  };
+
+  return {
+    id: config.id,
+    name: config.name,
+    defaultModel: config.defaultModel,
+    capabilities: { streaming: true, systemMessages: true },
+
+    isConfigured: () => !!config.apiKey,
+
+    listModels: () => config.models,
+
+    complete,
+
+    // Server-sent events from the inference endpoint, forwarded as they arrive
+    async *stream(request) {
+      const client = ModelClient(config.endpoint, new AzureKeyCredential(config.apiKey));
+      const body = {
+        ...toRequestBody(config, request),
+        stream: true,
+        stream_options: { include_usage: true },
+      };
+
+      const response = await withRetry('GitHub Models stream', async () => {
+        const res = await client.path('/chat/completions').post({ body, abortSignal: request.signal }).asNodeStream();
+        if (res.status !== '200') {
+          throw toProviderError(Number(res.status), await readErrorMessage(res.body));
+        }
+        return res;
+      }, isTransientError, request.signal);
+
+      if (!response.body) {
+        throw new ProviderError('GitHub Models returned an empty stream', 'github');
+      }
+
+      let finishReason: string | undefined;
+      let usage: TokenUsage | undefined;
+
+      for await (const event of createSseStream(response.body)) {
+        if (event.data === '[DONE]') break;
+
+        const chunk = JSON.parse(event.data) as ChatCompletionChunk;
+        const choice = chunk.choices?.[0];
+        if (choice?.delta?.content) {
+          yield { type: 'delta', content: choice.delta.content };
+        }
+        finishReason = choice?.finish_reason ?? finishReason;
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
+      }
+
+      yield { type: 'finish', finishReason, usage };
+    },
+  };
+}
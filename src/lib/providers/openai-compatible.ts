@@ -0,0 +1,132 @@
+import { createSseStream } from '@azure/core-sse';
+import type { AI_PROVIDERS } from '@/lib/config';
+import { isTransientError, withRetry } from './retry';
+import { AIProviderAdapter, CompletionRequest, ProviderError, TokenUsage } from './types';
+
+type OpenAICompatibleConfig = (typeof AI_PROVIDERS)['openai-compatible'];
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{ message: { content: string | null }; finish_reason: string | null }>;
+  usage?: OpenAIUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: OpenAIUsage | null;
+}
+
+function toUsage(usage?: OpenAIUsage | null): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * POST to `{baseUrl}/chat/completions`, throwing a ProviderError on non-2xx
+ */
+async function postChatCompletions(
+  config: OpenAICompatibleConfig,
+  request: CompletionRequest,
+  stream: boolean
+): Promise<Response> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal: request.signal,
+    body: JSON.stringify({
+      messages: request.messages,
+      model: request.model,
+      temperature: request.temperature ?? config.temperature,
+      max_tokens: request.maxTokens ?? config.maxTokens,
+      stream,
+      ...(stream && { stream_options: { include_usage: true } }),
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ProviderError(
+      `${config.name} API error (${response.status}): ${body?.error?.message || response.statusText || 'Unknown error'}`,
+      config.id,
+      response.status
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Any server exposing the OpenAI `/chat/completions` API — Ollama,
+ * llama.cpp, vLLM, LM Studio — configured through OPENAI_COMPATIBLE_* env vars
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProviderAdapter {
+  return {
+    id: config.id,
+    name: config.name,
+    defaultModel: config.defaultModel,
+    capabilities: { streaming: true, systemMessages: true },
+
+    // Local servers usually run without auth, so only the URL and a model are required
+    isConfigured: () => !!config.baseUrl && config.models.length > 0,
+
+    listModels: () => config.models,
+
+    async complete(request) {
+      return withRetry(config.name, async () => {
+        const response = await postChatCompletions(config, request, false);
+        const body = (await response.json()) as ChatCompletionResponse;
+        const choice = body.choices[0];
+        return {
+          text: choice?.message.content || `No response from ${config.name}.`,
+          model: body.model || request.model,
+          finishReason: choice?.finish_reason ?? undefined,
+          usage: toUsage(body.usage),
+        };
+      }, isTransientError, request.signal);
+    },
+
+    async *stream(request) {
+      const response = await withRetry(
+        `${config.name} stream`,
+        () => postChatCompletions(config, request, true),
+        isTransientError,
+        request.signal
+      );
+      if (!response.body) {
+        throw new ProviderError(`${config.name} returned an empty stream`, config.id);
+      }
+
+      let finishReason: string | undefined;
+      let usage: TokenUsage | undefined;
+
+      for await (const event of createSseStream(response.body)) {
+        if (event.data === '[DONE]') break;
+
+        const chunk = JSON.parse(event.data) as ChatCompletionChunk;
+        const choice = chunk.choices?.[0];
+        if (choice?.delta?.content) {
+          yield { type: 'delta', content: choice.delta.content };
+        }
+        finishReason = choice?.finish_reason ?? finishReason;
+        usage = toUsage(chunk.usage) ?? usage;
+      }
+
+      yield { type: 'finish', finishReason, usage };
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { AI_PROVIDERS, AIProvider } from '@/lib/config';
+import { createGeminiProvider } from './gemini';
+import { createGitHubModelsProvider } from './github';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { AIProviderAdapter } from './types';
+
+/**
+ * Provider modules, keyed by their `AI_PROVIDERS` entry. Adding a provider
+ * means adding a config entry and a factory here — the routes pick it up.
+ */
+const PROVIDER_FACTORIES: { [K in AIProvider]: (config: (typeof AI_PROVIDERS)[K]) => AIProviderAdapter } = {
+  gemini: createGeminiProvider,
+  github: createGitHubModelsProvider,
+  'openai-compatible': createOpenAICompatibleProvider,
+};
+
+const providers = new Map<AIProvider, AIProviderAdapter>();
+
+function isProviderId(id: string): id is AIProvider {
+  return id in AI_PROVIDERS;
+}
+
+/**
+ * Get a provider by id, or null if the id is unknown
+ */
+export function getProvider(id: string): AIProviderAdapter | null {
+  if (!isProviderId(id)) return null;
+
+  let provider = providers.get(id);
+  if (!provider) {
+    const factory = PROVIDER_FACTORIES[id] as (config: (typeof AI_PROVIDERS)[AIProvider]) => AIProviderAdapter;
+    provider = factory(AI_PROVIDERS[id]);
+    providers.set(id, provider);
+  }
+  return provider;
+}
+
+/**
+ * All providers that have credentials configured, in `AI_PROVIDERS` order
+ */
+export function getConfiguredProviders(): AIProviderAdapter[] {
+  return Object.keys(AI_PROVIDERS)
+    .map(id => getProvider(id))
+    .filter((p): p is AIProviderAdapter => !!p && p.isConfigured());
+}
+
+/**
+ * Resolve the provider for a request. Uses the requested provider when it is
+ * configured, otherwise the first configured provider.
+ */
+export function resolveProvider(requested?: string): AIProviderAdapter | null {
+  const provider = requested ? getProvider(requested) : null;
+  if (provider?.isConfigured()) return provider;
+  return getConfiguredProviders()[0] ?? null;
+}
+
+/**
+ * Validate a requested model against the provider's model list. Returns the
+ * provider's default model when none is requested, or null if it is not listed.
+ */
+export function resolveModel(provider: AIProviderAdapter, requested?: string): string | null {
+  if (!requested) return provider.defaultModel;
+  return provider.listModels().includes(requested) ? requested : null;
+}
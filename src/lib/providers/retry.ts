@@ -0,0 +1,57 @@
+import { AI_RETRY_CONFIG } from '@/lib/config';
+import { ProviderError } from './types';
+
+function retryDelay(attempt: number): number {
+  return AI_RETRY_CONFIG.initialDelayMs * Math.pow(AI_RETRY_CONFIG.backoffMultiplier, attempt);
+}
+
+/**
+ * Sleep that rejects as soon as the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/**
+ * Run an operation, retrying with exponential backoff while `isRetryable`
+ * accepts the thrown error and `AI_RETRY_CONFIG.maxRetries` is not exhausted.
+ * An aborted signal stops retrying immediately.
+ */
+export async function withRetry<T>(
+  label: string,
+  operation: () => Promise<T>,
+  isRetryable: (error: unknown) => boolean,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (signal?.aborted || attempt >= AI_RETRY_CONFIG.maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+      const delayMs = retryDelay(attempt);
+      console.log(`${label} failed, retrying in ${delayMs}ms (attempt ${attempt + 1}/${AI_RETRY_CONFIG.maxRetries})`);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Rate limits, server errors (including overloaded 503s) and transport
+ * failures are retried; other API errors are final
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof ProviderError)) return true;
+  return error.status === 429 || (error.status !== undefined && error.status >= 500);
+}
@@ -0,0 +1,81 @@
+import type { AIProvider } from '@/lib/config';
+
+/**
+ * A single chat message sent to a provider
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Provider-agnostic completion request
+ */
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  /** Falls back to the provider's configured default when omitted */
+  temperature?: number;
+  /** Falls back to the provider's configured default when omitted */
+  maxTokens?: number;
+  /** Aborts the upstream call (and any retry backoff) when the client goes away */
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+  finishReason?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Events yielded by a provider stream. Deltas arrive as they are generated,
+ * followed by exactly one `finish` event.
+ */
+export type StreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'finish'; finishReason?: string; usage?: TokenUsage };
+
+export interface ProviderCapabilities {
+  /** True when `stream` yields tokens as the model generates them */
+  streaming: boolean;
+  /** True when the provider accepts a dedicated system message */
+  systemMessages: boolean;
+}
+
+/**
+ * Interface every AI provider module implements. Providers are registered in
+ * `src/lib/providers/registry.ts` and picked up by the execute and stream routes.
+ */
+export interface AIProviderAdapter {
+  id: AIProvider;
+  name: string;
+  defaultModel: string;
+  capabilities: ProviderCapabilities;
+  isConfigured(): boolean;
+  listModels(): readonly string[];
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncIterable<StreamChunk>;
+}
+
+/**
+ * Error raised by provider modules. `status` carries the upstream HTTP status
+ * when there is one so callers can tell rate limits from hard failures.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: AIProvider,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
@@ -0,0 +1,54 @@
+import { SESSION_CONFIG } from '@/lib/config';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the window resets */
+  resetIn: number;
+}
+
+// In-memory session tracking for rate limiting (use Redis in production)
+const sessionCommands = new Map<string, { count: number; resetAt: number }>();
+
+/**
+ * Count a request against the user's per-minute limit, shared by every route
+ * that calls a model. `cost` is how many model calls the request may make.
+ */
+export function checkRateLimit(userId: string, cost = 1): RateLimitResult {
+  const now = Date.now();
+  let userSession = sessionCommands.get(userId);
+
+  if (!userSession || now > userSession.resetAt) {
+    userSession = { count: 0, resetAt: now + 60 * 1000 }; // Reset every minute
+    sessionCommands.set(userId, userSession);
+  }
+
+  const resetIn = Math.ceil((userSession.resetAt - now) / 1000);
+  if (userSession.count + cost > SESSION_CONFIG.rateLimitPerMinute) {
+    return { allowed: false, remaining: Math.max(SESSION_CONFIG.rateLimitPerMinute - userSession.count, 0), resetIn };
+  }
+
+  userSession.count += cost;
+  return {
+    allowed: true,
+    remaining: SESSION_CONFIG.rateLimitPerMinute - userSession.count,
+    resetIn,
+  };
+}
+
+/**
+ * 429 response for a request that was over the limit
+ */
+export function rateLimitResponse(rateLimit: RateLimitResult): Response {
+  return new Response(JSON.stringify({
+    success: false,
+    error: `Rate limit exceeded. Try again in ${rateLimit.resetIn} seconds.`,
+  }), {
+    status: 429,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+      'X-RateLimit-Reset': rateLimit.resetIn.toString(),
+    },
+  });
+}
@@ -0,0 +1,76 @@
+import { AI_REPAIR_CONFIG, EditMode } from '@/lib/config';
+import { ProposedChange } from '@/lib/changes';
+import { TypeDiagnostic } from '@/types';
+
+/**
+ * What a proposed change set failed validation on
+ */
+export interface RepairProblems {
+  /** Edits that did not apply, as reported when patching */
+  patchFailures: string[];
+  /** Proposed files with the errors they introduce */
+  files: { path: string; content: string; diagnostics: TypeDiagnostic[] }[];
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Problems in a validated change set, or null when it passed
+ */
+export function collectRepairProblems(changes: ProposedChange[] | null, patchFailures: string[]): RepairProblems | null {
+  const files = (changes ?? [])
+    .filter(change => change.diagnostics && change.diagnostics.length > 0)
+    .map(change => ({ path: change.newPath ?? change.file, content: change.after, diagnostics: change.diagnostics! }));
+  return files.length > 0 || patchFailures.length > 0 ? { patchFailures, files } : null;
+}
+
+export function countRepairProblems(problems: RepairProblems | null): number {
+  if (!problems) return 0;
+  return problems.patchFailures.length + problems.files.reduce((sum, file) => sum + file.diagnostics.length, 0);
+}
+
+/**
+ * Short form for the output console, e.g. `2 errors in src/a.ts, 1 edit that did not apply`
+ */
+export function describeRepairProblems(problems: RepairProblems | null): string {
+  if (!problems) return '';
+  const parts = problems.files.map(file => `${plural(file.diagnostics.length, 'error')} in ${file.path}`);
+  if (problems.patchFailures.length > 0) {
+    parts.push(`${plural(problems.patchFailures.length, 'edit')} that did not apply`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Follow-up message asking the model to correct its last change set
+ */
+export function buildRepairPrompt(problems: RepairProblems, editMode: EditMode): string {
+  const sections: string[] = [];
+
+  if (problems.patchFailures.length > 0) {
+    sections.push(`These edits did not apply:\n${problems.patchFailures.map(failure => `- ${failure}`).join('\n')}`);
+  }
+
+  for (const file of problems.files) {
+    const lines = file.content.split('\n');
+    const shown = file.diagnostics.slice(0, AI_REPAIR_CONFIG.maxDiagnosticsPerFile);
+    const errors = shown.map(diagnostic => {
+      const source = lines[diagnostic.line - 1];
+      const excerpt = source !== undefined ? `\n    > ${diagnostic.line} | ${source.trim()}` : '';
+      return `- line ${diagnostic.line}:${diagnostic.column} TS${diagnostic.code}: ${diagnostic.message}${excerpt}`;
+    });
+    const more = file.diagnostics.length > shown.length ? `\n- … ${file.diagnostics.length - shown.length} more` : '';
+    sections.push(`${file.path} as you proposed it has errors the original did not:\n${errors.join('\n')}${more}`);
+  }
+
+  const editRule = editMode === 'patch'
+    ? 'Edits still apply to the original files, so copy every "search" block exactly from the file as it was shown to you.'
+    : 'Send whole files, as before.';
+  return `Your change set failed validation.
+
+${sections.join('\n\n')}
+
+Fix these problems and send the complete corrected change set again in the same format. It replaces your previous one, so include every change you still want to make, not only the fixes. Keep the intended change and don't work around errors with casts to any or @ts-ignore. ${editRule}`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Minimal BM25 ranking over code. Identifiers are split on camelCase and
+ * snake_case so `formatUserName` matches a query for "user name".
+ */
+
+export interface Bm25Index {
+  /** Term frequencies per document */
+  documents: Array<Map<string, number>>;
+  lengths: number[];
+  averageLength: number;
+  /** Number of documents containing each term */
+  documentFrequency: Map<string, number>;
+}
+
+export interface Bm25Match {
+  index: number;
+  score: number;
+}
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Keywords and filler that appear everywhere and say nothing about a chunk
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'into', 'are', 'was', 'not', 'but', 'you', 'your',
+  'const', 'let', 'var', 'function', 'return', 'import', 'export', 'default', 'class', 'new', 'if', 'else',
+  'true', 'false', 'null', 'undefined', 'void', 'async', 'await', 'string', 'number', 'boolean', 'type',
+  'interface', 'def', 'self', 'none', 'public', 'private', 'static', 'int', 'fn', 'pub', 'use',
+]);
+
+/**
+ * Lower-cased terms of a text, with identifiers split into their words and
+ * also kept whole
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z_$][\w$]*|\d+/g) ?? []) {
+    const parts = word
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1 && !STOP_WORDS.has(part));
+    terms.push(...parts);
+    if (parts.length > 1) terms.push(word.toLowerCase());
+  }
+  return terms;
+}
+
+export function buildBm25Index(texts: string[]): Bm25Index {
+  const documentFrequency = new Map<string, number>();
+  const documents = texts.map(text => {
+    const frequencies = new Map<string, number>();
+    for (const term of tokenize(text)) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    }
+    for (const term of frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+    return frequencies;
+  });
+  const lengths = documents.map(doc => [...doc.values()].reduce((sum, n) => sum + n, 0));
+
+  return {
+    documents,
+    lengths,
+    averageLength: lengths.reduce((sum, n) => sum + n, 0) / Math.max(lengths.length, 1),
+    documentFrequency,
+  };
+}
+
+/**
+ * Score every document against weighted query terms, best first. Documents
+ * that share no terms with the query are left out.
+ */
+export function searchBm25(index: Bm25Index, query: Map<string, number>): Bm25Match[] {
+  const total = index.documents.length;
+  const matches: Bm25Match[] = [];
+
+  index.documents.forEach((frequencies, i) => {
+    let score = 0;
+    for (const [term, weight] of query) {
+      const frequency = frequencies.get(term);
+      if (!frequency) continue;
+      const containing = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - containing + 0.5) / (containing + 0.5));
+      const norm = frequency + K1 * (1 - B + B * index.lengths[i] / (index.averageLength || 1));
+      score += weight * idf * (frequency * (K1 + 1)) / norm;
+    }
+    if (score > 0) matches.push({ index: i, score });
+  });
+
+  return matches.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,70 @@
+import { AI_RETRIEVAL_CONFIG } from '@/lib/config';
+
+/**
+ * A searchable piece of a file: one top-level declaration, one markdown
+ * section, or a window of a longer one
+ */
+export interface CodeChunk {
+  path: string;
+  /** 1-based, inclusive */
+  startLine: number;
+  endLine: number;
+  /** Declared name or heading, when the chunk starts with one */
+  symbol?: string;
+  content: string;
+}
+
+/**
+ * Top-level declarations across the languages we index. Only unindented
+ * lines count, so methods stay inside their class's chunk.
+ */
+const CODE_BOUNDARY = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:pub(?:\(crate\))?\s+)?(?:function\*?|class|interface|type|enum|const|let|var|def|func|fn|struct|trait|impl|module|namespace)\b/;
+const MARKDOWN_BOUNDARY = /^#{1,4}\s+\S/;
+// Comment and decorator lines just above a declaration belong to it
+const LEADING_LINE = /^\s*(?:\/\/|\/\*|\*|@|#\[)/;
+const SYMBOL_PATTERN = /\b(?:function\*?|class|interface|type|enum|const|let|var|def|func|fn|struct|trait|impl|module|namespace)\s+([A-Za-z_$][\w$]*)/;
+
+// Segments shorter than this are folded into the next one
+const MIN_CHUNK_LINES = 4;
+
+function symbolOf(line: string, markdown: boolean): string | undefined {
+  if (markdown) return line.replace(/^#+\s+/, '').trim() || undefined;
+  return line.match(SYMBOL_PATTERN)?.[1];
+}
+
+/**
+ * Split a file into chunks at top-level declarations (or markdown headings),
+ * capping each chunk at `maxChunkLines`
+ */
+export function chunkFile(path: string, content: string): CodeChunk[] {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const markdown = /\.mdx?$/i.test(path);
+  const boundary = markdown ? MARKDOWN_BOUNDARY : CODE_BOUNDARY;
+
+  // Segment starts, pulled up over the comments and decorators above them
+  const starts = [0];
+  for (let i = 1; i < lines.length; i++) {
+    if (!boundary.test(lines[i])) continue;
+    let start = i;
+    while (!markdown && start - 1 > starts[starts.length - 1] && LEADING_LINE.test(lines[start - 1])) start--;
+    if (start - starts[starts.length - 1] >= MIN_CHUNK_LINES) starts.push(start);
+  }
+
+  const chunks: CodeChunk[] = [];
+  const maxLines = AI_RETRIEVAL_CONFIG.maxChunkLines;
+
+  starts.forEach((start, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1] : lines.length;
+    const headerLine = lines.slice(start, end).find(line => boundary.test(line));
+    const symbol = headerLine ? symbolOf(headerLine, markdown) : undefined;
+
+    for (let from = start; from < end; from += maxLines) {
+      const to = Math.min(from + maxLines, end);
+      const text = lines.slice(from, to).join('\n');
+      if (!text.trim()) continue;
+      chunks.push({ path, startLine: from + 1, endLine: to, symbol, content: text });
+    }
+  });
+
+  return chunks;
+}
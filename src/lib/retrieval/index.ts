@@ -0,0 +1,4 @@
+export * from './bm25';
+export * from './chunker';
+export * from './repo-index';
+export * from './related';
@@ -0,0 +1,128 @@
+import { AI_RETRIEVAL_CONFIG } from '@/lib/config';
+import { estimateTokens, planContextBudget } from '@/lib/context';
+import { searchBm25, tokenize } from './bm25';
+import { getRepoIndex, RepoIndex } from './repo-index';
+
+export interface RelatedChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  content: string;
+  score: number;
+}
+
+export interface RelatedCode {
+  chunks: RelatedChunk[];
+  /** Prompt section listing the chunks, empty when nothing matched */
+  text: string;
+  warning?: string;
+}
+
+// Most frequent query terms kept; long files would otherwise swamp the request
+const MAX_QUERY_TERMS = 200;
+
+/**
+ * Weighted query terms: the user's request counts double against the terms
+ * of the file they have open
+ */
+function buildQuery(request: string, fileContent: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(fileContent)) counts.set(term, (counts.get(term) ?? 0) + 1);
+
+  const query = new Map<string, number>(
+    [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_QUERY_TERMS)
+      .map(([term]) => [term, 1])
+  );
+  for (const term of tokenize(request)) query.set(term, 2);
+  return query;
+}
+
+export function citation(chunk: Pick<RelatedChunk, 'path' | 'startLine' | 'endLine'>): string {
+  return `${chunk.path}:${chunk.startLine}-${chunk.endLine}`;
+}
+
+/**
+ * Prompt section with the retrieved chunks and how to cite them
+ */
+export function formatRelatedCode(chunks: RelatedChunk[]): string {
+  if (chunks.length === 0) return '';
+  const blocks = chunks.map(chunk => {
+    const label = chunk.symbol ? `${citation(chunk)} (${chunk.symbol})` : citation(chunk);
+    return `${label}\n\`\`\`\n${chunk.content}\n\`\`\``;
+  });
+  return `Related code elsewhere in this repository. Reuse these helpers and types instead of writing new ones, and cite what you rely on as \`path:start-end\`:\n\n${blocks.join('\n\n')}`;
+}
+
+/**
+ * Best-ranked chunks that fit the token budget, skipping files already in context
+ */
+export function selectRelatedChunks(
+  index: RepoIndex,
+  query: Map<string, number>,
+  options: { excludePaths: string[]; maxTokens: number; model: string }
+): RelatedChunk[] {
+  const selected: RelatedChunk[] = [];
+  let tokens = 0;
+
+  for (const match of searchBm25(index.bm25, query)) {
+    if (selected.length >= AI_RETRIEVAL_CONFIG.topK) break;
+    const chunk = index.chunks[match.index];
+    if (options.excludePaths.includes(chunk.path)) continue;
+
+    const cost = estimateTokens(chunk.content, options.model) + 16;
+    if (tokens + cost > options.maxTokens) continue;
+    tokens += cost;
+    selected.push({ ...chunk, score: match.score });
+  }
+
+  return selected;
+}
+
+/**
+ * Retrieve repository context for a command. Failures only produce a warning,
+ * so a GitHub hiccup never blocks the command itself.
+ */
+export async function retrieveRelatedCode(options: {
+  accessToken: string;
+  repository: string;
+  ref: string;
+  request: string;
+  fileContent: string;
+  excludePaths: string[];
+  provider: string;
+  model: string;
+}): Promise<RelatedCode> {
+  const [owner, repo] = options.repository.split('/');
+  if (!AI_RETRIEVAL_CONFIG.enabled || !owner || !repo) return { chunks: [], text: '' };
+
+  const budget = planContextBudget({ provider: options.provider, model: options.model, systemPrompt: '', prompt: '' });
+  const maxTokens = Math.min(
+    AI_RETRIEVAL_CONFIG.maxContextTokens,
+    Math.floor(budget.inputTokens * AI_RETRIEVAL_CONFIG.maxContextShare)
+  );
+
+  try {
+    const index = await getRepoIndex(options.accessToken, owner, repo, options.ref);
+    const chunks = selectRelatedChunks(index, buildQuery(options.request, options.fileContent), {
+      excludePaths: options.excludePaths,
+      maxTokens,
+      model: options.model,
+    });
+    return {
+      chunks,
+      text: formatRelatedCode(chunks),
+      warning: index.skippedFiles > 0
+        ? `Repository index covers the first ${index.files.size} files; ${index.skippedFiles} more were skipped.`
+        : undefined,
+    };
+  } catch (error) {
+    return {
+      chunks: [],
+      text: '',
+      warning: `Repository context unavailable: ${error instanceof Error ? error.message : 'index failed'}`,
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { AI_RETRIEVAL_CONFIG } from '@/lib/config';
+import { fetchBlobContent, fetchRepoTree, tokenKey, TreeEntry } from '@/lib/github';
+import { mapConcurrent } from '@/lib/utils';
+import { buildBm25Index, Bm25Index } from './bm25';
+import { chunkFile, CodeChunk } from './chunker';
+
+interface IndexedFile {
+  sha: string;
+  chunks: CodeChunk[];
+}
+
+export interface RepoIndex {
+  /** `owner/repo@ref` */
+  key: string;
+  treeSha: string;
+  files: Map<string, IndexedFile>;
+  chunks: CodeChunk[];
+  bm25: Bm25Index;
+  /** Eligible files left out because of `maxFiles` or a truncated tree */
+  skippedFiles: number;
+  checkedAt: number;
+  /** When each token (by `tokenKey`) last read the repository's tree */
+  readers: Map<string, number>;
+}
+
+// In-memory indexes per repo + ref (use Redis in production)
+const indexes = new Map<string, RepoIndex>();
+// Builds in progress per token, so concurrent requests by one user share one
+const pending = new Map<string, Promise<RepoIndex>>();
+
+function isIndexable(entry: TreeEntry): boolean {
+  if (entry.type !== 'blob') return false;
+  if ((entry.size ?? 0) > AI_RETRIEVAL_CONFIG.maxFileBytes) return false;
+  if (AI_RETRIEVAL_CONFIG.ignoredPaths.some(pattern => pattern.test(entry.path))) return false;
+  const extension = entry.path.split('.').pop()?.toLowerCase() ?? '';
+  return AI_RETRIEVAL_CONFIG.extensions.includes(extension);
+}
+
+async function buildIndex(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  ref: string,
+  previous: RepoIndex | undefined
+): Promise<RepoIndex> {
+  const key = `${owner}/${repo}@${ref}`;
+  const tree = await fetchRepoTree(accessToken, owner, repo, ref);
+
+  // Nothing changed since the last check
+  if (previous && previous.treeSha === tree.sha) {
+    previous.checkedAt = Date.now();
+    previous.readers.set(tokenKey(accessToken), previous.checkedAt);
+    return previous;
+  }
+
+  // Shallow paths first: top-level sources matter more than deep fixtures
+  const eligible = tree.entries
+    .filter(isIndexable)
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path));
+  const selected = eligible.slice(0, AI_RETRIEVAL_CONFIG.maxFiles);
+
+  const files = new Map<string, IndexedFile>();
+  await mapConcurrent(selected, AI_RETRIEVAL_CONFIG.fetchConcurrency, async entry => {
+    const known = previous?.files.get(entry.path);
+    if (known && known.sha === entry.sha) {
+      files.set(entry.path, known);
+      return;
+    }
+    try {
+      const content = await fetchBlobContent(accessToken, owner, repo, entry.sha);
+      files.set(entry.path, { sha: entry.sha, chunks: chunkFile(entry.path, content) });
+    } catch (error) {
+      // One unreadable file shouldn't sink the whole index
+      console.error(`Retrieval: failed to fetch ${entry.path}:`, error);
+    }
+  });
+
+  const chunks = [...files.values()].flatMap(file => file.chunks);
+  return {
+    key,
+    treeSha: tree.sha,
+    files,
+    chunks,
+    // Paths and symbols are searchable too, so "auth helper" finds lib/auth.ts
+    bm25: buildBm25Index(chunks.map(chunk => `${chunk.path} ${chunk.symbol ?? ''}\n${chunk.content}`)),
+    skippedFiles: eligible.length - selected.length + (tree.truncated ? 1 : 0),
+    checkedAt: Date.now(),
+    readers: new Map([[tokenKey(accessToken), Date.now()]]),
+  };
+}
+
+/**
+ * The index for a repo at `ref`, building or refreshing it as needed. Indexes
+ * are shared between users, so a cached one is only served to a token that
+ * has read the repository's tree itself within `ttlMs`; any other caller
+ * goes to GitHub first, which fails without access.
+ */
+export async function getRepoIndex(accessToken: string, owner: string, repo: string, ref: string): Promise<RepoIndex> {
+  const key = `${owner}/${repo}@${ref}`;
+  const reader = tokenKey(accessToken);
+  const existing = indexes.get(key);
+  const readAt = existing?.readers.get(reader);
+  if (existing && readAt !== undefined && Date.now() - Math.min(readAt, existing.checkedAt) < AI_RETRIEVAL_CONFIG.ttlMs) {
+    return existing;
+  }
+
+  const pendingKey = `${reader}:${key}`;
+  const inFlight = pending.get(pendingKey);
+  if (inFlight) return inFlight;
+
+  const build = buildIndex(accessToken, owner, repo, ref, existing)
+    .then(index => {
+      // Re-insert so the most recently used index is evicted last
+      indexes.delete(key);
+      indexes.set(key, index);
+      while (indexes.size > AI_RETRIEVAL_CONFIG.maxIndexes) {
+        const oldest = indexes.keys().next().value;
+        if (oldest === undefined) break;
+        indexes.delete(oldest);
+      }
+      return index;
+    })
+    .finally(() => pending.delete(pendingKey));
+
+  pending.set(pendingKey, build);
+  return build;
+}
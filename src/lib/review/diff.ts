@@ -0,0 +1,81 @@
+import { AI_REVIEW_CONFIG } from '@/lib/config';
+import { estimateTokens } from '@/lib/context';
+import { CompareFile } from '@/lib/github';
+
+export interface ReviewDiff {
+  /** Prompt section with the annotated patches */
+  text: string;
+  files: string[];
+  skippedFiles: string[];
+  /** Head-version line numbers each file's patch shows, for validating findings */
+  lines: Map<string, Set<number>>;
+}
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Prefix each added and context line of a patch with its line number in the
+ * head version, so findings can point at real lines. Removed lines get no
+ * number since they no longer exist.
+ */
+export function annotatePatch(patch: string): { text: string; lines: Set<number> } {
+  const lines = new Set<number>();
+  const output: string[] = [];
+  let line = 0;
+
+  for (const raw of patch.split('\n')) {
+    const header = raw.match(HUNK_HEADER);
+    if (header) {
+      line = Number(header[1]);
+      output.push(raw);
+    } else if (raw.startsWith('-')) {
+      output.push(`${''.padStart(5)} ${raw}`);
+    } else if (raw.startsWith('+') || raw.startsWith(' ')) {
+      lines.add(line);
+      output.push(`${String(line).padStart(5)} ${raw}`);
+      line++;
+    } else if (raw.startsWith('\\')) {
+      // "\ No newline at end of file"
+      continue;
+    }
+  }
+
+  return { text: output.join('\n'), lines };
+}
+
+/**
+ * Annotated patches of the changed files that fit `maxTokens`, in the order
+ * GitHub lists them. Removed files and files without a patch are skipped.
+ */
+export function formatReviewDiff(files: CompareFile[], options: { maxTokens: number; model: string }): ReviewDiff {
+  const included: string[] = [];
+  const skippedFiles: string[] = [];
+  const blocks: string[] = [];
+  const lines = new Map<string, Set<number>>();
+  let tokens = 0;
+
+  for (const file of files) {
+    if (file.status === 'removed' || !file.patch || included.length >= AI_REVIEW_CONFIG.maxFiles) {
+      if (file.status !== 'removed') skippedFiles.push(file.path);
+      continue;
+    }
+
+    const annotated = annotatePatch(file.patch);
+    const heading = file.previousPath && file.previousPath !== file.path
+      ? `${file.path} (${file.status}, was ${file.previousPath})`
+      : `${file.path} (${file.status})`;
+    const block = `File: ${heading}\n\`\`\`diff\n${annotated.text}\n\`\`\``;
+    const cost = estimateTokens(block, options.model);
+    if (tokens + cost > options.maxTokens) {
+      skippedFiles.push(file.path);
+      continue;
+    }
+
+    tokens += cost;
+    included.push(file.path);
+    lines.set(file.path, annotated.lines);
+    blocks.push(block);
+  }
+
+  return { text: blocks.join('\n\n'), files: included, skippedFiles, lines };
+}
@@ -0,0 +1,118 @@
+import { AI_REVIEW_CONFIG } from '@/lib/config';
+import { ReviewFinding, ReviewSeverity } from '@/types';
+
+export const REVIEW_SEVERITIES: ReviewSeverity[] = ['critical', 'warning', 'suggestion'];
+
+export interface ParsedReview {
+  summary: string;
+  findings: ReviewFinding[];
+  /** Why findings were dropped (unknown file, malformed entry, over the cap) */
+  errors: string[];
+}
+
+/**
+ * Appended to the review system prompt
+ */
+export function buildReviewInstructions(): string {
+  return `
+The diff shows each added or unchanged line with its line number in the new version; removed lines have none.
+After a short overall assessment, list your findings in a single fenced \`\`\`json block with this exact shape:
+{"summary": "<one or two sentences>", "findings": [
+  {"file": "<path from the diff>", "line": <line number from the diff>, "severity": "critical" | "warning" | "suggestion", "message": "<what is wrong and why>", "suggestion": "<optional replacement code for that line or block>"}
+]}
+Rules:
+- Only report real problems in the changed lines: bugs, security issues, missing error handling, broken contracts, confusing code. Skip praise and pure style nits.
+- "critical" blocks merging, "warning" should be fixed, "suggestion" is optional.
+- "line" must be a numbered line of that file's diff.
+- At most ${AI_REVIEW_CONFIG.maxFindings} findings; an empty list is fine when the changes look good.
+- Emit the JSON block exactly once and nothing after it.`;
+}
+
+/**
+ * Nearest line the diff actually shows, so a finding that is off by a few
+ * lines still lands in the changed region
+ */
+function nearestLine(line: number, shown: Set<number>): number | null {
+  if (shown.has(line)) return line;
+  let best: number | null = null;
+  for (const candidate of shown) {
+    if (best === null || Math.abs(candidate - line) < Math.abs(best - line)) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * Find the findings JSON block in a review reply and validate each finding
+ * against the files and lines the diff showed
+ */
+export function parseReviewFindings(text: string, shownLines: Map<string, Set<number>>): ParsedReview {
+  const blocks = [...text.matchAll(/```json\s*\n([\s\S]*?)```/g)];
+
+  for (const block of blocks.reverse()) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(block[1]);
+    } catch {
+      continue;
+    }
+
+    const body = parsed as { summary?: unknown; findings?: unknown };
+    if (!body || !Array.isArray(body.findings)) continue;
+
+    const errors: string[] = [];
+    const findings: ReviewFinding[] = [];
+
+    body.findings.forEach((raw, index) => {
+      const finding = raw as Record<string, unknown>;
+      const label = `findings[${index}]`;
+      if (!finding || typeof finding !== 'object') {
+        errors.push(`${label} is not an object`);
+        return;
+      }
+
+      const file = typeof finding.file === 'string' ? finding.file.trim().replace(/^\.\//, '') : '';
+      const shown = shownLines.get(file);
+      if (!shown) {
+        errors.push(`${label} refers to ${file || 'no file'}, which is not in the diff`);
+        return;
+      }
+      const line = typeof finding.line === 'number' && Number.isInteger(finding.line)
+        ? nearestLine(finding.line, shown)
+        : null;
+      if (line === null) {
+        errors.push(`${label} (${file}) has no valid line`);
+        return;
+      }
+      if (typeof finding.message !== 'string' || !finding.message.trim()) {
+        errors.push(`${label} (${file}:${line}) has no message`);
+        return;
+      }
+      if (findings.length >= AI_REVIEW_CONFIG.maxFindings) {
+        errors.push(`${label} is over the limit of ${AI_REVIEW_CONFIG.maxFindings} findings`);
+        return;
+      }
+
+      const severity = REVIEW_SEVERITIES.includes(finding.severity as ReviewSeverity)
+        ? finding.severity as ReviewSeverity
+        : 'warning';
+      findings.push({
+        id: `${file}:${line}:${index}`,
+        file,
+        line,
+        severity,
+        message: finding.message.trim(),
+        suggestion: typeof finding.suggestion === 'string' && finding.suggestion.trim() ? finding.suggestion : undefined,
+      });
+    });
+
+    const prose = (text.slice(0, block.index) + text.slice(block.index! + block[0].length)).trim();
+    return {
+      summary: typeof body.summary === 'string' && body.summary.trim() ? body.summary.trim() : prose,
+      findings,
+      errors,
+    };
+  }
+
+  // No findings block — keep the prose so the review isn't lost
+  return { summary: text.trim(), findings: [], errors: ['The reply did not include a findings block.'] };
+}
@@ -0,0 +1,116 @@
+import { CodeSelection } from '@/types';
+
+export type OutlineKind = 'function' | 'class' | 'method' | 'type' | 'variable';
+
+/**
+ * A declaration in a file, with the lines it spans
+ */
+export interface OutlineSymbol extends CodeSelection {
+  symbol: string;
+  kind: OutlineKind;
+  /** 0 for top-level declarations, 1 for class members */
+  depth: number;
+}
+
+const DECLARATION = /^(\s*)(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:pub(?:\(crate\))?\s+)?(function\*?|class|interface|type|enum|const|let|var|def|func|fn|struct|trait|impl)\s+([A-Za-z_$][\w$]*)/;
+// A member name followed by a parameter list that opens a body (or continues on the next line)
+const METHOD = /^(\s+)(?:(?:public|private|protected|static|readonly|override|abstract|async|get|set)\s+)*(?:\*\s*)?([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\((?:[^;]*\)[^;=]*\{|[^;)]*)\s*$/;
+// Control flow looks like a method call from the outside
+const NOT_A_METHOD = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'new', 'await', 'super']);
+const LEADING_LINE = /^\s*(?:\/\/|\/\*|\*|@|#\[)/;
+
+const KINDS: Record<string, OutlineKind> = {
+  function: 'function', 'function*': 'function', def: 'function', func: 'function', fn: 'function',
+  class: 'class', struct: 'class', trait: 'class', impl: 'class',
+  interface: 'type', type: 'type', enum: 'type',
+  const: 'variable', let: 'variable', var: 'variable',
+};
+
+/**
+ * Last line of the block opened on `start`: the matching closing brace, the
+ * end of an indented Python block, or the end of a one-line statement
+ */
+function blockEnd(lines: string[], start: number, python: boolean): number {
+  if (python) {
+    const indent = lines[start].match(/^\s*/)![0].length;
+    let end = start;
+    for (let i = start + 1; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+      if (lines[i].match(/^\s*/)![0].length <= indent) break;
+      end = i;
+    }
+    return end;
+  }
+
+  let depth = 0;
+  let opened = false;
+  for (let i = start; i < lines.length; i++) {
+    // Strings and line comments rarely hold unbalanced braces; drop them anyway
+    const code = lines[i].replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '').replace(/\/\/.*$/, '');
+    for (const char of code) {
+      if (char === '{' || char === '(' || char === '[') {
+        depth++;
+        if (char === '{') opened = true;
+      } else if (char === '}' || char === ')' || char === ']') {
+        depth--;
+      }
+    }
+    // Unbraced declarations (`type A =`, `const x = 1`) end at a `;` or where the next statement starts
+    const next = lines[i + 1];
+    if (depth <= 0 && (opened || /[;,]\s*$/.test(code) || next === undefined || !next.trim() || !/^\s/.test(next))) return i;
+  }
+  return lines.length - 1;
+}
+
+/**
+ * Functions, classes (with their methods), types and top-level variables of
+ * a file, for picking a region to run a command on. Pattern-based, so it
+ * works across languages at the cost of the odd miss.
+ */
+export function buildOutline(path: string, content: string): OutlineSymbol[] {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const python = /\.py$/i.test(path);
+  const symbols: OutlineSymbol[] = [];
+  let currentClass: OutlineSymbol | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (currentClass && i > currentClass.endLine - 1) currentClass = null;
+
+    const declaration = line.match(DECLARATION);
+    const indent = declaration?.[1].length ?? 0;
+    let name: string | undefined;
+    let kind: OutlineKind | undefined;
+    let depth = 0;
+
+    if (declaration && indent === 0) {
+      name = declaration[3];
+      kind = KINDS[declaration[2]];
+    } else if (currentClass) {
+      // Members one level into a class; `def` covers Python methods
+      const method = declaration && declaration[2] === 'def' ? [line, declaration[1], declaration[3]] : line.match(METHOD);
+      if (method && !NOT_A_METHOD.has(method[2]) && !/^\s*(?:\}|\.)/.test(line)) {
+        name = method[2];
+        kind = 'method';
+        depth = 1;
+      }
+    }
+    if (!name || !kind) continue;
+
+    let start = i;
+    while (start > 0 && LEADING_LINE.test(lines[start - 1])) start--;
+    const end = blockEnd(lines, i, python);
+
+    const symbol: OutlineSymbol = { symbol: name, kind, depth, startLine: start + 1, endLine: end + 1 };
+    symbols.push(symbol);
+
+    if (kind === 'class') {
+      currentClass = symbol;
+    } else {
+      // Skip over the body so nested helpers and calls don't show up
+      i = end;
+    }
+  }
+
+  return symbols;
+}
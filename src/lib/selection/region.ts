@@ -0,0 +1,118 @@
+import { CodeSelection } from '@/types';
+
+/**
+ * A selected range cut out of its file, with read-only lines around it
+ */
+export interface FileRegion extends CodeSelection {
+  /** The selected lines */
+  text: string;
+  /** Lines directly above the selection, starting at `aboveStart` */
+  above: string;
+  aboveStart: number;
+  /** Lines directly below the selection, ending at `belowEnd` */
+  below: string;
+  belowEnd: number;
+  /** The whole file the region was cut from */
+  fullContent: string;
+  totalLines: number;
+}
+
+const MAX_SYMBOL_CHARS = 100;
+
+/**
+ * Validate a selection sent by the client against the file it refers to.
+ * Returns null when it is malformed or covers the whole file anyway.
+ */
+export function parseSelection(raw: unknown, content: string): CodeSelection | null {
+  if (!raw || typeof raw !== 'object' || !content) return null;
+  const { startLine, endLine, symbol } = raw as Record<string, unknown>;
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine)) return null;
+
+  const totalLines = content.split('\n').length;
+  const start = Math.max(1, startLine as number);
+  const end = Math.min(totalLines, endLine as number);
+  if (start > end || (start === 1 && end === totalLines)) return null;
+
+  return {
+    startLine: start,
+    endLine: end,
+    symbol: typeof symbol === 'string' && symbol.trim() ? symbol.trim().slice(0, MAX_SYMBOL_CHARS) : undefined,
+  };
+}
+
+/**
+ * Short label for a selection, e.g. `lines 12-40 (handleSubmit)`
+ */
+export function describeSelection(selection: CodeSelection): string {
+  const lines = selection.startLine === selection.endLine
+    ? `line ${selection.startLine}`
+    : `lines ${selection.startLine}-${selection.endLine}`;
+  return selection.symbol ? `${lines} (${selection.symbol})` : lines;
+}
+
+/**
+ * Cut a selection out of a file along with `contextLines` lines on each side
+ */
+export function extractRegion(content: string, selection: CodeSelection, contextLines: number): FileRegion {
+  const lines = content.split('\n');
+  const start = selection.startLine - 1;
+  const end = selection.endLine;
+  const aboveStart = Math.max(0, start - contextLines);
+  const belowEnd = Math.min(lines.length, end + contextLines);
+
+  return {
+    ...selection,
+    text: lines.slice(start, end).join('\n'),
+    above: lines.slice(aboveStart, start).join('\n'),
+    aboveStart: aboveStart + 1,
+    below: lines.slice(end, belowEnd).join('\n'),
+    belowEnd,
+    fullContent: content,
+    totalLines: lines.length,
+  };
+}
+
+/**
+ * Prompt section for a selected region: the selected lines (or `content`,
+ * when they were trimmed to fit), then the surrounding lines marked read-only.
+ * `editable` adds the rule that changes cover the selected lines only.
+ */
+export function formatRegion(
+  region: FileRegion,
+  options: { path: string; fileName: string; language: string; content?: string; editable: boolean }
+): string {
+  const header = `File: ${options.fileName}, ${describeSelection(region)} of ${region.totalLines}`;
+  const rule = options.editable
+    ? `\nOnly the selected lines are being changed. Treat them as the whole content of ${options.path}: a "modify" change must contain (or edit) just these lines, never the surrounding code.`
+    : '';
+  const sections = [
+    `${header}${rule}\n\`\`\`${options.language}\n${options.content ?? region.text}\n\`\`\``,
+  ];
+
+  const surrounding: string[] = [];
+  if (region.above.trim()) {
+    surrounding.push(`Lines ${region.aboveStart}-${region.startLine - 1}:\n\`\`\`${options.language}\n${region.above}\n\`\`\``);
+  }
+  if (region.below.trim()) {
+    surrounding.push(`Lines ${region.endLine + 1}-${region.belowEnd}:\n\`\`\`${options.language}\n${region.below}\n\`\`\``);
+  }
+  if (surrounding.length > 0) {
+    sections.push(`Surrounding code (read-only, for reference — do not change or repeat it):\n\n${surrounding.join('\n\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * The whole file with the selected lines replaced by `replacement`
+ */
+export function spliceRegion(region: FileRegion, replacement: string): string {
+  const lines = region.fullContent.split('\n');
+  // Models tend to end code with a newline the selection didn't have
+  const text = replacement.endsWith('\n') && !region.text.endsWith('\n') ? replacement.slice(0, -1) : replacement;
+  return [
+    ...lines.slice(0, region.startLine - 1),
+    ...text.split('\n'),
+    ...lines.slice(region.endLine),
+  ].join('\n');
+}
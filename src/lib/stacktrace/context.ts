@@ -0,0 +1,76 @@
+import { AI_STACKTRACE_CONFIG } from '@/lib/config';
+import { estimateTokens } from '@/lib/context';
+import { StackFrame } from '@/types';
+import { formatFailingFrames } from './format';
+import { parseStackTrace } from './parse';
+import { resolveFramePaths } from './resolve';
+
+export interface TraceContext {
+  /** Trace frames, resolved against the files that were sent */
+  frames: StackFrame[];
+  /** Other files from the trace sent in full, by path; the model may edit these */
+  files: Record<string, string>;
+  /** Prompt section with the failing frames and the files sent in full, empty without frames */
+  text: string;
+  warning?: string;
+}
+
+/**
+ * Validate the trace files the client fetched: string contents by path, at
+ * most `maxFiles`, without the file the command runs on
+ */
+function parseTraceFiles(raw: unknown, filePath: string): Record<string, string> {
+  if (!raw || typeof raw !== 'object') return {};
+  const entries = Object.entries(raw as Record<string, unknown>)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[0] !== filePath && !entry[0].includes('..'));
+  return Object.fromEntries(entries.slice(0, AI_STACKTRACE_CONFIG.maxFiles));
+}
+
+/**
+ * Context for running a command on a pasted error: the trace's frames
+ * resolved to the file the command runs on and the other trace files the
+ * client sent, each frame with its failing line marked, followed by as many
+ * of those other files in full as fit in `maxFileTokens`. Files that don't
+ * fit are only shown around their frames, so the model can't rewrite them.
+ */
+export function buildTraceContext(options: {
+  trace: string;
+  filePath: string;
+  fileContent: string;
+  traceFiles: unknown;
+  model: string;
+}): TraceContext {
+  const parsed = parseStackTrace(options.trace);
+  if (parsed.frames.length === 0) return { frames: [], files: {}, text: '' };
+
+  const traceFiles = parseTraceFiles(options.traceFiles, options.filePath);
+  const known = options.fileContent ? { ...traceFiles, [options.filePath]: options.fileContent } : traceFiles;
+  const frames = resolveFramePaths(parsed.frames, Object.keys(known));
+  const failing = formatFailingFrames(parsed.message, frames, known);
+  if (!failing) return { frames, files: {}, text: '' };
+
+  const files: Record<string, string> = {};
+  const blocks: string[] = [];
+  const excerptOnly: string[] = [];
+  let tokens = 0;
+  for (const [path, content] of Object.entries(traceFiles)) {
+    const block = `File: ${path} (from the stack trace)\n\`\`\`\n${content}\n\`\`\``;
+    const cost = estimateTokens(block, options.model);
+    if (tokens + cost > AI_STACKTRACE_CONFIG.maxFileTokens) {
+      excerptOnly.push(path);
+      continue;
+    }
+    tokens += cost;
+    files[path] = content;
+    blocks.push(block);
+  }
+
+  return {
+    frames,
+    files,
+    text: [failing, ...blocks].join('\n\n'),
+    warning: excerptOnly.length > 0
+      ? `Only the failing lines of ${excerptOnly.join(', ')} were sent (over the stack trace budget), so they can't be edited.`
+      : undefined,
+  };
+}
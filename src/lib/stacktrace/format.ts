@@ -0,0 +1,47 @@
+import { AI_STACKTRACE_CONFIG } from '@/lib/config';
+import { StackFrame } from '@/types';
+
+/**
+ * `src/lib/db.ts:42:7 in connect`
+ */
+export function describeFrame(frame: StackFrame): string {
+  const location = `${frame.path ?? frame.file}:${frame.line}${frame.column ? `:${frame.column}` : ''}`;
+  return frame.fn ? `${location} in ${frame.fn}` : location;
+}
+
+/**
+ * Lines around a frame's failing line, numbered, with `>` on the failing one
+ */
+function excerpt(content: string, line: number, contextLines: number): string | null {
+  const lines = content.split('\n');
+  if (line > lines.length) return null;
+  const start = Math.max(1, line - contextLines);
+  const end = Math.min(lines.length, line + contextLines);
+  const width = String(end).length;
+  const numbered: string[] = [];
+  for (let n = start; n <= end; n++) {
+    numbered.push(`${n === line ? '>' : ' '} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+  }
+  return numbered.join('\n');
+}
+
+/**
+ * Prompt section listing the trace's frames innermost first, each with an
+ * excerpt of the file it resolved to. Frames whose file wasn't sent are
+ * listed by location only. Empty when no frame resolved to a sent file.
+ */
+export function formatFailingFrames(message: string, frames: StackFrame[], files: Record<string, string>): string {
+  const shown = frames.slice(0, AI_STACKTRACE_CONFIG.maxFrames);
+  if (!shown.some(frame => frame.path && files[frame.path] !== undefined)) return '';
+
+  const sections = shown.map((frame, i) => {
+    const heading = `#${i + 1} ${describeFrame(frame)}`;
+    const content = frame.path ? files[frame.path] : undefined;
+    const lines = content !== undefined ? excerpt(content, frame.line, AI_STACKTRACE_CONFIG.excerptLines) : null;
+    return lines ? `${heading}\n\`\`\`\n${lines}\n\`\`\`` : `${heading} (not in the files provided)`;
+  });
+  const more = frames.length > shown.length ? `\n…and ${frames.length - shown.length} more frames` : '';
+
+  return `Failing frames${message ? ` for "${message}"` : ''}, innermost first. ">" marks the line each frame was executing; the line numbers are not part of the code.
+${sections.join('\n\n')}${more}`;
+}
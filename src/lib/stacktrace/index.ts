@@ -0,0 +1,4 @@
+export * from './parse';
+export * from './resolve';
+export * from './format';
+export * from './context';
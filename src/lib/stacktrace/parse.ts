@@ -0,0 +1,135 @@
+import { AI_STACKTRACE_CONFIG } from '@/lib/config';
+import { StackFrame, StackTraceRuntime } from '@/types';
+
+export interface ParsedStackTrace {
+  /** The error line, e.g. `TypeError: Cannot read properties of undefined` */
+  message: string;
+  runtime: StackTraceRuntime | null;
+  /** Application frames, innermost (where it failed) first */
+  frames: StackFrame[];
+  /** Frames in dependencies or runtime internals that were left out */
+  skipped: number;
+}
+
+const MAX_MESSAGE_CHARS = 500;
+
+// `    at com.acme.Billing.charge(Billing.java:42)`, also Kotlin and Scala
+const JAVA_FRAME = /^\s*at\s+([\w$.<>/]+)\(([\w$-]+\.(?:java|kt|scala|groovy)):(\d+)\)/;
+// `    at fn (src/app.js:10:5)`, `    at src/app.js:10:5`, `    at async Promise.all (index 0)`
+const V8_FRAME = /^\s*at\s+(?:(.*?)\s+\()?(.+?):(\d+)(?::(\d+))?\)?\s*$/;
+// `fn@https://example.com/app.js:10:5` (Firefox, Safari)
+const GECKO_FRAME = /^\s*([^@\s]*)@(.+?):(\d+)(?::(\d+))?\s*$/;
+// `  File "app/models.py", line 12, in save`
+const PYTHON_FRAME = /^\s*File "(.+?)", line (\d+)(?:, in (.+))?/;
+
+// Frames in code the repository doesn't own
+const EXTERNAL_FILES = [
+  /(^|\/)node_modules\//,
+  /(^|\/)(site|dist)-packages\//,
+  /^(node|internal|bun):/,
+  /^internal\//,
+  /^<[^>]*>$/,
+  /^(native|anonymous|eval)$/,
+  /(^|\/)lib\/python\d/,
+  /^chrome-extension:/,
+];
+const EXTERNAL_JAVA_CLASSES = /^(java|javax|jdk|sun|kotlin|scala|org\.junit)\./;
+
+/**
+ * Strip what runtimes and bundlers put around a source path:
+ * `webpack-internal:///(app-pages-browser)/./src/a.tsx?abc` → `src/a.tsx`
+ */
+export function normalizeFramePath(raw: string): string {
+  return raw
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(webpack-internal|webpack|file|turbopack):\/\/\/?/, '')
+    .replace(/^https?:\/\/[^/]+\//, '')
+    .replace(/[?#].*$/, '')
+    .replace(/^\([^)]*\)\//, '')
+    .replace(/^(\.\/)+/, '')
+    .replace(/^\/_N_E\//, '');
+}
+
+function isExternal(file: string): boolean {
+  return EXTERNAL_FILES.some(pattern => pattern.test(file));
+}
+
+/**
+ * `com.acme.billing.Invoice$Line.total` in `Invoice.java` → `com/acme/billing/Invoice.java`,
+ * the path the source would have under its source root
+ */
+function javaPath(qualified: string, fileName: string): string {
+  const segments = qualified.split('.');
+  // Drop the method, then the class, leaving the package
+  const packagePath = segments.slice(0, -2).join('/');
+  return packagePath ? `${packagePath}/${fileName}` : fileName;
+}
+
+function parseLine(line: string): { frame: StackFrame | null; runtime: StackTraceRuntime } | null {
+  const java = line.match(JAVA_FRAME);
+  if (java) {
+    // Drop the module or class loader prefix, as in `java.base/java.lang.Thread.run`
+    const qualified = java[1].replace(/^.*\//, '');
+    if (EXTERNAL_JAVA_CLASSES.test(qualified)) return { frame: null, runtime: 'java' };
+    return { frame: { file: javaPath(qualified, java[2]), line: Number(java[3]), fn: qualified }, runtime: 'java' };
+  }
+
+  const python = line.match(PYTHON_FRAME);
+  if (python) {
+    const file = normalizeFramePath(python[1]);
+    if (isExternal(file)) return { frame: null, runtime: 'python' };
+    return { frame: { file, line: Number(python[2]), fn: python[3]?.trim() || undefined }, runtime: 'python' };
+  }
+
+  const v8 = line.match(V8_FRAME);
+  const gecko = v8 ? null : line.match(GECKO_FRAME);
+  const match = v8 ?? gecko;
+  if (match) {
+    const runtime = v8 && !/^\s*at\s+.*https?:\/\//.test(line) ? 'node' : 'browser';
+    const file = normalizeFramePath(match[2]);
+    if (!file || isExternal(file)) return { frame: null, runtime };
+    return {
+      frame: {
+        file,
+        line: Number(match[3]),
+        column: match[4] ? Number(match[4]) : undefined,
+        fn: match[1]?.replace(/^async\s+/, '').trim() || undefined,
+      },
+      runtime,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a pasted Node, browser, Python or Java stack trace into the frames
+ * that point at application code. Lines that aren't frames are ignored,
+ * except the first unindented one, which is taken as the error message.
+ */
+export function parseStackTrace(text: string): ParsedStackTrace {
+  const lines = text.slice(0, AI_STACKTRACE_CONFIG.maxTraceChars).split('\n');
+  const frames: StackFrame[] = [];
+  let runtime: StackTraceRuntime | null = null;
+  let message = '';
+  let skipped = 0;
+
+  for (const line of lines) {
+    const parsed = parseLine(line);
+    if (!parsed) {
+      // Python prints the exception last and its source lines indented
+      if (!message && line.trim() && !/^\s/.test(line) && !/^Traceback \(most recent call last\)/.test(line)) {
+        message = line.trim().slice(0, MAX_MESSAGE_CHARS);
+      }
+      continue;
+    }
+    runtime ??= parsed.runtime;
+    if (parsed.frame && Number.isInteger(parsed.frame.line) && parsed.frame.line > 0) frames.push(parsed.frame);
+    else skipped++;
+  }
+
+  // Python lists the innermost call last
+  if (runtime === 'python') frames.reverse();
+  return { message, runtime, frames, skipped };
+}
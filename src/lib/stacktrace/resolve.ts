@@ -0,0 +1,71 @@
+import { StackFrame } from '@/types';
+
+// Compiled output often has a different extension than the source it came from
+const SOURCE_EXTENSIONS: Record<string, string[]> = {
+  js: ['ts', 'tsx', 'jsx'],
+  mjs: ['mts', 'ts'],
+  cjs: ['cts', 'ts'],
+  pyc: ['py'],
+  class: ['java', 'kt'],
+};
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment && segment !== '.');
+}
+
+function withExtension(name: string, extension: string): string {
+  const dot = name.lastIndexOf('.');
+  return `${dot > 0 ? name.slice(0, dot) : name}.${extension}`;
+}
+
+/**
+ * Number of trailing segments two paths share
+ */
+function sharedSuffix(a: string[], b: string[]): number {
+  let count = 0;
+  while (count < a.length && count < b.length && a[a.length - 1 - count] === b[b.length - 1 - count]) count++;
+  return count;
+}
+
+/**
+ * Match each frame to a repository path by the longest run of trailing path
+ * segments, so `/app/dist/src/lib/db.js` finds `src/lib/db.ts`. A frame that
+ * matches several files equally well stays unresolved rather than pointing
+ * at the wrong `index.ts`.
+ */
+export function resolveFramePaths(frames: StackFrame[], repoPaths: Iterable<string>): StackFrame[] {
+  const byName = new Map<string, string[]>();
+  for (const path of repoPaths) {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    const paths = byName.get(name);
+    if (paths) paths.push(path);
+    else byName.set(name, [path]);
+  }
+
+  return frames.map(frame => {
+    const segments = splitPath(frame.file);
+    const name = segments.pop();
+    if (!name) return frame;
+
+    const extension = name.includes('.') ? name.slice(name.lastIndexOf('.') + 1) : '';
+    const names = [name, ...(SOURCE_EXTENSIONS[extension] ?? []).map(ext => withExtension(name, ext))];
+
+    let best: { path: string; score: number } | null = null;
+    let tied = false;
+    for (const candidateName of names) {
+      for (const path of byName.get(candidateName) ?? []) {
+        const score = 1 + sharedSuffix(segments, splitPath(path).slice(0, -1));
+        if (!best || score > best.score) {
+          best = { path, score };
+          tied = false;
+        } else if (score === best.score && path !== best.path) {
+          tied = true;
+        }
+      }
+      // An exact file name beats a guessed source extension
+      if (best) break;
+    }
+
+    return best && !tied ? { ...frame, path: best.path } : frame;
+  });
+}
@@ -0,0 +1,102 @@
+import { AI_THREAD_CONFIG } from '@/lib/config';
+import type { ChatMessage } from '@/lib/providers';
+import { generateId } from '@/lib/utils';
+
+export interface Thread {
+  id: string;
+  userId: string;
+  /** File the thread started on, if any */
+  filePath: string | null;
+  /** Prior user/assistant turns, oldest first; file content is not repeated here */
+  messages: ChatMessage[];
+  /** Latest proposed content per path, so follow-ups build on earlier suggestions */
+  workingFiles: Record<string, string>;
+  /** Completed turns, including ones trimmed from `messages` */
+  turns: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// In-memory threads (use Redis in production)
+const threads = new Map<string, Thread>();
+
+function isExpired(thread: Thread): boolean {
+  return Date.now() - thread.updatedAt > AI_THREAD_CONFIG.ttlMs;
+}
+
+/**
+ * Drop expired threads and keep each user under `maxThreadsPerUser`
+ */
+function prune(userId: string): void {
+  const owned: Thread[] = [];
+  for (const thread of threads.values()) {
+    if (isExpired(thread)) {
+      threads.delete(thread.id);
+    } else if (thread.userId === userId) {
+      owned.push(thread);
+    }
+  }
+
+  owned
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(AI_THREAD_CONFIG.maxThreadsPerUser - 1)
+    .forEach(thread => threads.delete(thread.id));
+}
+
+export function createThread(userId: string, filePath: string | null): Thread {
+  prune(userId);
+  const now = Date.now();
+  const thread: Thread = {
+    id: generateId(),
+    userId,
+    filePath,
+    messages: [],
+    workingFiles: {},
+    turns: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  threads.set(thread.id, thread);
+  return thread;
+}
+
+/**
+ * Look up a thread owned by `userId`; other users' and expired threads read as missing
+ */
+export function getThread(userId: string, threadId: string): Thread | null {
+  const thread = threads.get(threadId);
+  if (!thread || thread.userId !== userId) return null;
+  if (isExpired(thread)) {
+    threads.delete(threadId);
+    return null;
+  }
+  return thread;
+}
+
+/**
+ * Record a completed turn and the files it proposed. Deleted files are
+ * passed as `null` and leave the working set.
+ */
+export function appendTurn(
+  thread: Thread,
+  userMessage: string,
+  assistantMessage: string,
+  proposedFiles: Record<string, string | null>
+): void {
+  thread.messages.push(
+    { role: 'user', content: userMessage },
+    { role: 'assistant', content: assistantMessage }
+  );
+  thread.messages = thread.messages.slice(-AI_THREAD_CONFIG.maxTurns * 2);
+
+  for (const [path, content] of Object.entries(proposedFiles)) {
+    if (content === null) {
+      delete thread.workingFiles[path];
+    } else {
+      thread.workingFiles[path] = content;
+    }
+  }
+  thread.turns++;
+  thread.updatedAt = Date.now();
+}
+
@@ -0,0 +1,168 @@
+import { languageFromPath } from '@/lib/changes';
+
+/**
+ * A language or framework the translate command can convert a file to
+ */
+export interface TranslationTarget {
+  id: string;
+  label: string;
+  /** What the translated file should look like, for the system prompt */
+  instructions: string;
+  /** Extension of the translated file by source extension; `*` covers the rest, a missing entry keeps the source's */
+  extensions: Record<string, string>;
+  /** Source extensions the target applies to; any when omitted */
+  sources?: string[];
+  /** Inserted before the extension when the translated path would be the source path */
+  suffix?: string;
+  /** File naming convention of the target language */
+  naming?: 'snake' | 'pascal';
+}
+
+// JavaScript and TypeScript module extensions
+const SCRIPT_SOURCES = ['js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'mts', 'cts'];
+
+export const TRANSLATION_TARGETS: TranslationTarget[] = [
+  {
+    id: 'typescript',
+    label: 'TypeScript',
+    instructions: 'Idiomatic, strictly typed TypeScript. Add precise types for parameters, return values and props, use interfaces or type aliases for object shapes, avoid `any`, and turn CommonJS `require`/`module.exports` into ES module imports and exports. Keep relative import paths without extensions.',
+    extensions: { jsx: 'tsx', mjs: 'mts', cjs: 'cts', '*': 'ts' },
+  },
+  {
+    id: 'javascript',
+    label: 'JavaScript',
+    instructions: 'Modern JavaScript (ES modules). Drop type annotations, interfaces and enums, keeping the important type information as JSDoc comments.',
+    extensions: { tsx: 'jsx', mts: 'mjs', cts: 'cjs', '*': 'js' },
+    sources: ['ts', 'tsx', 'mts', 'cts'],
+  },
+  {
+    id: 'react-hooks',
+    label: 'React hooks',
+    instructions: 'React function components using hooks instead of class components: state becomes useState/useReducer, lifecycle methods become useEffect with correct dependencies and cleanup, instance fields become useRef, and bound methods become plain or memoized callbacks. Keep the props and rendered output identical.',
+    extensions: {},
+    sources: SCRIPT_SOURCES,
+    suffix: '.hooks',
+  },
+  {
+    id: 'python',
+    label: 'Python',
+    instructions: 'Idiomatic Python 3 with type hints, following PEP 8 naming. Use the standard library where it covers what the source imports.',
+    extensions: { '*': 'py' },
+    naming: 'snake',
+  },
+  {
+    id: 'go',
+    label: 'Go',
+    instructions: 'Idiomatic Go: explicit error returns instead of exceptions, exported names capitalized, and a package clause matching the directory name.',
+    extensions: { '*': 'go' },
+    naming: 'snake',
+  },
+  {
+    id: 'rust',
+    label: 'Rust',
+    instructions: 'Idiomatic Rust: Result and Option instead of exceptions and nulls, ownership and borrowing instead of shared mutation, and snake_case names.',
+    extensions: { '*': 'rs' },
+    naming: 'snake',
+  },
+  {
+    id: 'java',
+    label: 'Java',
+    instructions: 'Idiomatic Java 17: a public class named after the file, records for plain data, and checked exceptions only where callers can recover.',
+    extensions: { '*': 'java' },
+    naming: 'pascal',
+  },
+  {
+    id: 'kotlin',
+    label: 'Kotlin',
+    instructions: 'Idiomatic Kotlin: data classes for plain data, null safety instead of null checks, and extension functions where they read better.',
+    extensions: { '*': 'kt' },
+    naming: 'pascal',
+  },
+  {
+    id: 'csharp',
+    label: 'C#',
+    instructions: 'Idiomatic C# (.NET 8): a namespace matching the directory, PascalCase members, properties instead of getters and setters, and async/await for asynchronous code.',
+    extensions: { '*': 'cs' },
+    naming: 'pascal',
+  },
+];
+
+/**
+ * A translation of one file, with the path its result is created at
+ */
+export interface TranslationPlan {
+  target: TranslationTarget;
+  sourcePath: string;
+  targetPath: string;
+}
+
+function splitWords(stem: string): string[] {
+  return stem
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function renameStem(stem: string, naming: TranslationTarget['naming']): string {
+  const words = splitWords(stem);
+  if (!naming || words.length === 0) return stem;
+  return naming === 'snake'
+    ? words.map(word => word.toLowerCase()).join('_')
+    : words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+}
+
+/**
+ * Path the translated file is created at: same directory, the target's
+ * extension and naming convention, and the target's suffix when that would
+ * otherwise land on the source file itself
+ */
+export function translatedPath(sourcePath: string, target: TranslationTarget): string {
+  const slash = sourcePath.lastIndexOf('/');
+  const dir = sourcePath.slice(0, slash + 1);
+  const name = sourcePath.slice(slash + 1);
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const sourceExtension = dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+
+  const extension = target.extensions[sourceExtension] ?? target.extensions['*'] ?? sourceExtension;
+  const base = renameStem(stem, target.naming);
+  const path = `${dir}${base}${extension ? `.${extension}` : ''}`;
+  if (path !== sourcePath) return path;
+  return `${dir}${base}${target.suffix ?? '.translated'}${extension ? `.${extension}` : ''}`;
+}
+
+/**
+ * Targets that make sense for a file: those whose sources include its
+ * extension and that don't just keep its language. Files without an
+ * extension have none.
+ */
+export function listTranslationTargets(sourcePath: string): TranslationTarget[] {
+  const language = languageFromPath(sourcePath).toLowerCase();
+  if (language === 'text') return [];
+  return TRANSLATION_TARGETS.filter(target => {
+    if (target.sources && !target.sources.includes(language)) return false;
+    if (target.suffix) return true;
+    const extension = target.extensions[language] ?? target.extensions['*'];
+    return extension !== undefined && extension !== language;
+  });
+}
+
+/**
+ * Plan a translation from the target id the client sent; null when the
+ * target is unknown or doesn't apply to the file
+ */
+export function planTranslation(sourcePath: string, targetId: unknown): TranslationPlan | null {
+  const target = listTranslationTargets(sourcePath).find(t => t.id === targetId);
+  return target ? { target, sourcePath, targetPath: translatedPath(sourcePath, target) } : null;
+}
+
+/**
+ * Appended to the translate command's system prompt
+ */
+export function buildTranslationInstructions(plan: TranslationPlan): string {
+  return `
+Translate the file "${plan.sourcePath}" to ${plan.target.label}.
+Target: ${plan.target.instructions}
+Keep the behaviour, public API and comments of the original, and translate the whole file, not just part of it. Mention anything that could not be translated one-to-one.
+Propose the result as a single "create" change at path "${plan.targetPath}". Never modify, rename or delete "${plan.sourcePath}".`;
+}
@@ -0,0 +1,257 @@
+import * as ts from 'typescript';
+import { createHash } from 'crypto';
+import { AI_TYPECHECK_CONFIG } from '@/lib/config';
+import { openRepoFiles, parseImports, RepoFiles } from '@/lib/imports';
+import { ProposedChange } from '@/lib/changes';
+import { TypeDiagnostic } from '@/types';
+import { checkSyntax, compileFiles, introducedDiagnostics, toCompilerOptions } from './compile';
+
+export interface TypeCheckResult {
+  /** The changes, with `diagnostics` set on every script file that was checked */
+  changes: ProposedChange[];
+  warning?: string;
+}
+
+const CHECKED_FILES = /\.(?:[cm]?ts|tsx)$/i;
+// Only parsed: their types come from JSDoc at best
+const SYNTAX_CHECKED_FILES = /\.(?:[cm]?js|jsx)$/i;
+const IGNORED_DECLARATIONS = /(^|\/)(node_modules|dist|build|out|\.next)\//;
+const MAX_EXTENDS_DEPTH = 3;
+
+// Errors of the unchanged files per compile input, so repair rounds over the
+// same files don't compile the originals again
+const beforeResults = new Map<string, Map<string, TypeDiagnostic[]>>();
+const MAX_CACHED_RESULTS = 20;
+
+function dirname(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+/**
+ * Join a relative path onto a directory; null when it climbs above the root
+ */
+function joinPath(directory: string, relative: string): string | null {
+  const segments = directory ? directory.split('/') : [];
+  for (const segment of relative.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Nearest `tsconfig.json` in the file's directory or above it
+ */
+function findConfig(path: string, files: Set<string>): string | null {
+  let directory = dirname(path);
+  for (;;) {
+    const candidate = directory ? `${directory}/tsconfig.json` : 'tsconfig.json';
+    if (files.has(candidate)) return candidate;
+    if (!directory) return null;
+    directory = dirname(directory);
+  }
+}
+
+/**
+ * `compilerOptions` of a tsconfig, merged over the ones it extends. Only
+ * configs in the repository are followed; package presets are skipped.
+ */
+async function readCompilerOptions(repo: RepoFiles, configPath: string, depth = 0): Promise<Record<string, unknown>> {
+  const text = await repo.read(configPath);
+  if (!text) return {};
+  const { config } = ts.parseConfigFileTextToJson(configPath, text);
+  if (!config || typeof config !== 'object') return {};
+
+  const own = config.compilerOptions && typeof config.compilerOptions === 'object' ? config.compilerOptions : {};
+  const extended = typeof config.extends === 'string' && config.extends.startsWith('.') && depth < MAX_EXTENDS_DEPTH
+    ? joinPath(dirname(configPath), config.extends.endsWith('.json') ? config.extends : `${config.extends}.json`)
+    : null;
+  const base = extended ? await readCompilerOptions(repo, extended, depth + 1) : {};
+  return { ...base, ...own };
+}
+
+/**
+ * Local modules the sources import, followed breadth first so direct
+ * imports are always loaded before the caps on files and `maxBytes` are reached
+ */
+async function loadImportedModules(
+  repo: RepoFiles,
+  sources: { path: string; content: string }[],
+  exclude: Set<string>,
+  maxBytes: number
+): Promise<Map<string, string>> {
+  const modules = new Map<string, string>();
+  const queue = [...sources];
+  const seen = new Set(exclude);
+  let bytes = 0;
+
+  while (queue.length > 0 && modules.size < AI_TYPECHECK_CONFIG.maxModules) {
+    const source = queue.shift()!;
+    for (const reference of parseImports(source.path, source.content)) {
+      const path = repo.resolve(reference.specifier, source.path);
+      if (!path || seen.has(path)) continue;
+      seen.add(path);
+
+      const content = await repo.read(path);
+      if (content === null || content.length > AI_TYPECHECK_CONFIG.maxFileBytes) continue;
+      if (bytes + content.length > maxBytes) return modules;
+      bytes += content.length;
+      modules.set(path, content);
+      queue.push({ path, content });
+      if (modules.size >= AI_TYPECHECK_CONFIG.maxModules) break;
+    }
+  }
+  return modules;
+}
+
+/**
+ * The repository's own global declarations (`next-env.d.ts`, `src/types/*.d.ts`
+ * and the like), shallowest first
+ */
+async function loadDeclarationFiles(repo: RepoFiles): Promise<Map<string, string>> {
+  const paths = [...repo.files]
+    .filter(path => path.endsWith('.d.ts') && !IGNORED_DECLARATIONS.test(path))
+    .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+    .slice(0, AI_TYPECHECK_CONFIG.maxDeclarationFiles);
+
+  const declarations = new Map<string, string>();
+  for (const path of paths) {
+    const content = await repo.read(path);
+    if (content !== null && content.length <= AI_TYPECHECK_CONFIG.maxFileBytes) declarations.set(path, content);
+  }
+  return declarations;
+}
+
+function sizeOf(files: Iterable<string>): number {
+  let bytes = 0;
+  for (const content of files) bytes += content.length;
+  return bytes;
+}
+
+function compileKey(files: Map<string, string>, roots: string[], options: ts.CompilerOptions): string {
+  const hash = createHash('sha256').update(JSON.stringify([options, roots]));
+  for (const path of [...files.keys()].sort()) hash.update(`\0${path}\0${files.get(path)}`);
+  return hash.digest('hex');
+}
+
+// Let other requests run between compiles, which block the event loop
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * `compileFiles` for the unchanged files, reusing an earlier result for the
+ * same input
+ */
+async function compileOriginals(
+  files: Map<string, string>,
+  roots: string[],
+  options: ts.CompilerOptions
+): Promise<Map<string, TypeDiagnostic[]>> {
+  const key = compileKey(files, roots, options);
+  const cached = beforeResults.get(key);
+  if (cached) return cached;
+
+  await yieldToEventLoop();
+  const result = compileFiles(files, roots, options, AI_TYPECHECK_CONFIG.timeBudgetMs);
+  beforeResults.set(key, result);
+  while (beforeResults.size > MAX_CACHED_RESULTS) {
+    const oldest = beforeResults.keys().next().value;
+    if (oldest === undefined) break;
+    beforeResults.delete(oldest);
+  }
+  return result;
+}
+
+function destination(change: ProposedChange): string {
+  return change.newPath ?? change.file;
+}
+
+/**
+ * JavaScript changes get the syntax errors they introduce
+ */
+function syntaxCheckChanges(changes: ProposedChange[]): ProposedChange[] {
+  return changes.map(change => {
+    if (change.operation === 'delete' || !SYNTAX_CHECKED_FILES.test(destination(change))) return change;
+    const before = change.operation === 'create' ? [] : checkSyntax(change.file, change.before);
+    return { ...change, diagnostics: introducedDiagnostics(before, checkSyntax(destination(change), change.after)) };
+  });
+}
+
+/**
+ * Type-check the proposed TypeScript files against the repository at `ref`,
+ * and parse the JavaScript ones. TypeScript files are compiled with and
+ * without the whole change set applied, and each checked change gets the
+ * errors it introduces. Failures only produce a warning, so a GitHub hiccup
+ * never holds back the diff itself.
+ */
+export async function typeCheckChanges(options: {
+  accessToken: string;
+  repository: string;
+  ref: string;
+  changes: ProposedChange[];
+  signal?: AbortSignal;
+}): Promise<TypeCheckResult> {
+  const changes = syntaxCheckChanges(options.changes);
+  const checked = changes.filter(change => change.operation !== 'delete' && CHECKED_FILES.test(destination(change)));
+  if (checked.length === 0) return { changes };
+
+  try {
+    const repo = await openRepoFiles(options.accessToken, options.repository, options.ref);
+    if (!repo) return { changes };
+
+    const configPath = findConfig(destination(checked[0]), repo.files);
+    const compilerOptions = toCompilerOptions(
+      configPath ? await readCompilerOptions(repo, configPath) : { strict: true, jsx: 'preserve' },
+      configPath ? dirname(configPath) : ''
+    );
+
+    // Imports of both versions, so a newly imported module is there to check against
+    const changedPaths = new Set(changes.flatMap(change => [change.file, destination(change)]));
+    const sources = changes.flatMap(change => [
+      ...(change.operation !== 'create' ? [{ path: change.file, content: change.before }] : []),
+      ...(change.operation !== 'delete' ? [{ path: destination(change), content: change.after }] : []),
+    ]);
+    const declarations = await loadDeclarationFiles(repo);
+    const remainingBytes = AI_TYPECHECK_CONFIG.maxTotalBytes - sizeOf(declarations.values()) - sizeOf(sources.map(source => source.content));
+    const shared = new Map([
+      ...declarations,
+      ...await loadImportedModules(repo, sources, changedPaths, remainingBytes),
+    ]);
+    options.signal?.throwIfAborted();
+
+    const beforeFiles = new Map(shared);
+    const afterFiles = new Map(shared);
+    for (const change of changes) {
+      if (change.operation !== 'create') beforeFiles.set(change.file, change.before);
+      if (change.operation === 'delete' || change.operation === 'rename') afterFiles.delete(change.file);
+      if (change.operation !== 'delete') afterFiles.set(destination(change), change.after);
+    }
+
+    const before = await compileOriginals(
+      beforeFiles,
+      checked.filter(change => change.operation !== 'create').map(change => change.file),
+      compilerOptions
+    );
+    await yieldToEventLoop();
+    options.signal?.throwIfAborted();
+    const after = compileFiles(afterFiles, checked.map(destination), compilerOptions, AI_TYPECHECK_CONFIG.timeBudgetMs);
+
+    return {
+      changes: changes.map(change => {
+        const diagnostics = checked.includes(change) ? after.get(destination(change)) : undefined;
+        if (!diagnostics) return change;
+        return { ...change, diagnostics: introducedDiagnostics(before.get(change.file) ?? [], diagnostics) };
+      }),
+    };
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    return {
+      changes,
+      warning: `Type check skipped: ${error instanceof Error ? error.message : 'the compiler failed'}`,
+    };
+  }
+}
@@ -0,0 +1,219 @@
+import * as ts from 'typescript';
+import { AI_TYPECHECK_CONFIG } from '@/lib/config';
+import { TypeDiagnostic } from '@/types';
+
+// Repository files live under a virtual root so the compiler sees absolute paths
+const ROOT = '/repo/';
+
+// Parsed standard library files, shared by every check (they never change)
+const libFiles = new Map<string, ts.SourceFile>();
+
+/**
+ * Errors that only mean the repository's dependencies aren't installed here:
+ * missing `@types` globals, untyped calls into unresolved packages, and JSX
+ * without React's types. Unresolved modules are handled separately.
+ */
+const ENVIRONMENT_CODES = new Set([
+  2347, // Untyped function calls may not accept type arguments
+  2580, 2582, 2591, 2592, 2593, // Cannot find name '…'. Do you need to install type definitions…?
+  2686, // '…' refers to a UMD global
+  2688, // Cannot find type definition file
+  2875, // This JSX tag requires the module path '…' to exist
+  7016, // Could not find a declaration file for module
+  7026, // JSX element implicitly has type 'any'
+]);
+const MODULE_NOT_FOUND_CODES = new Set([2307, 2792]);
+// Namespaces that come from `@types` packages rather than the repository
+const PACKAGE_NAMESPACES = /^Cannot find namespace '(React|JSX|NodeJS)'/;
+
+/**
+ * Compiler options from a tsconfig's merged `compilerOptions`, adjusted for
+ * an in-memory check: nothing is emitted and no `@types` are loaded.
+ */
+export function toCompilerOptions(json: Record<string, unknown>, configDir: string): ts.CompilerOptions {
+  const basePath = ROOT + (configDir ? `${configDir}/` : '');
+  const { options } = ts.convertCompilerOptionsFromJson(json, basePath);
+  // `paths` without `baseUrl` are relative to the tsconfig
+  if (options.paths && !options.baseUrl) options.baseUrl = basePath;
+  return {
+    ...options,
+    noEmit: true,
+    skipLibCheck: true,
+    types: [],
+    typeRoots: [],
+    composite: false,
+    incremental: false,
+    declaration: false,
+    emitDeclarationOnly: false,
+    plugins: undefined,
+  };
+}
+
+function languageVersionOf(version: ts.ScriptTarget | ts.CreateSourceFileOptions): ts.ScriptTarget {
+  return typeof version === 'object' ? version.languageVersion : version;
+}
+
+function createHost(files: Map<string, string>, options: ts.CompilerOptions): ts.CompilerHost {
+  const libPath = ts.getDefaultLibFilePath(options);
+  const libDir = libPath.slice(0, libPath.lastIndexOf('/') + 1);
+  const repoPath = (fileName: string) => fileName.startsWith(ROOT) ? fileName.slice(ROOT.length) : null;
+
+  return {
+    getSourceFile: (fileName, languageVersion) => {
+      const path = repoPath(fileName);
+      if (path !== null) {
+        const content = files.get(path);
+        return content === undefined ? undefined : ts.createSourceFile(fileName, content, languageVersion, true);
+      }
+      if (!fileName.startsWith(libDir)) return undefined;
+
+      const key = `${fileName}:${languageVersionOf(languageVersion)}`;
+      const cached = libFiles.get(key);
+      if (cached) return cached;
+      const content = ts.sys.readFile(fileName);
+      if (content === undefined) return undefined;
+      const sourceFile = ts.createSourceFile(fileName, content, languageVersion, false);
+      libFiles.set(key, sourceFile);
+      return sourceFile;
+    },
+    getDefaultLibFileName: compilerOptions => ts.getDefaultLibFilePath(compilerOptions),
+    getDefaultLibLocation: () => libDir,
+    writeFile: () => {},
+    getCurrentDirectory: () => ROOT,
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => {
+      const path = repoPath(fileName);
+      return path !== null ? files.has(path) : fileName.startsWith(libDir) && ts.sys.fileExists(fileName);
+    },
+    readFile: fileName => {
+      const path = repoPath(fileName);
+      if (path !== null) return files.get(path);
+      return fileName.startsWith(libDir) ? ts.sys.readFile(fileName) : undefined;
+    },
+    directoryExists: directory => {
+      const path = repoPath(directory.endsWith('/') ? directory : `${directory}/`);
+      if (path === null) return directory.startsWith(libDir.slice(0, -1));
+      for (const file of files.keys()) {
+        if (file.startsWith(path)) return true;
+      }
+      return false;
+    },
+    getDirectories: () => [],
+  };
+}
+
+/**
+ * A module the file failed to import is the repository's problem only when
+ * it is a relative path or goes through one of the tsconfig's `paths`
+ * aliases; anything else is a package that isn't installed here.
+ */
+function isLocalSpecifier(specifier: string, options: ts.CompilerOptions): boolean {
+  if (specifier.startsWith('.') || specifier.startsWith('/')) return true;
+  return Object.keys(options.paths ?? {}).some(pattern => {
+    const prefix = pattern.split('*')[0];
+    return pattern.includes('*') ? prefix !== '' && specifier.startsWith(prefix) : specifier === pattern;
+  });
+}
+
+function isEnvironmentError(diagnostic: ts.Diagnostic, message: string, options: ts.CompilerOptions): boolean {
+  if (ENVIRONMENT_CODES.has(diagnostic.code)) return true;
+  if (MODULE_NOT_FOUND_CODES.has(diagnostic.code)) {
+    const specifier = message.match(/'([^']+)'/)?.[1];
+    return !specifier || !isLocalSpecifier(specifier, options);
+  }
+  return diagnostic.code === 2503 && PACKAGE_NAMESPACES.test(message);
+}
+
+/**
+ * Stops the checker once `deadline` (epoch ms) has passed
+ */
+function deadlineToken(deadline: number): ts.CancellationToken {
+  return {
+    isCancellationRequested: () => Date.now() > deadline,
+    throwIfCancellationRequested: () => {
+      if (Date.now() > deadline) throw new ts.OperationCanceledException();
+    },
+  };
+}
+
+/**
+ * Compile `files` (repository paths to content) in memory and return the
+ * errors in each of `roots`. Errors caused by packages that aren't
+ * installed here are left out. The compiler blocks the event loop, so
+ * checking throws once it has taken `timeBudgetMs`; parsing is bounded by
+ * the size of `files` instead.
+ */
+export function compileFiles(
+  files: Map<string, string>,
+  roots: string[],
+  options: ts.CompilerOptions,
+  timeBudgetMs: number
+): Map<string, TypeDiagnostic[]> {
+  const program = ts.createProgram({
+    rootNames: [...files.keys()].map(path => ROOT + path),
+    options,
+    host: createHost(files, options),
+  });
+  const token = deadlineToken(Date.now() + timeBudgetMs);
+
+  const result = new Map<string, TypeDiagnostic[]>();
+  for (const path of roots) {
+    const sourceFile = program.getSourceFile(ROOT + path);
+    if (!sourceFile) continue;
+
+    let found: readonly ts.Diagnostic[];
+    try {
+      found = [...program.getSyntacticDiagnostics(sourceFile, token), ...program.getSemanticDiagnostics(sourceFile, token)];
+    } catch (error) {
+      if (error instanceof ts.OperationCanceledException) throw new Error('the time budget ran out');
+      throw error;
+    }
+
+    const diagnostics: TypeDiagnostic[] = [];
+    for (const diagnostic of found) {
+      if (diagnostic.category !== ts.DiagnosticCategory.Error) continue;
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      if (isEnvironmentError(diagnostic, message, options)) continue;
+
+      const position = sourceFile.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+      diagnostics.push({ line: position.line + 1, column: position.character + 1, code: diagnostic.code, message });
+    }
+    result.set(path, diagnostics);
+  }
+  return result;
+}
+
+/**
+ * Syntax errors in a file the compiler doesn't type-check (JavaScript)
+ */
+export function checkSyntax(path: string, content: string): TypeDiagnostic[] {
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName: path,
+    reportDiagnostics: true,
+    compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve, noEmit: true },
+  });
+  return diagnostics
+    .filter(diagnostic => diagnostic.file && diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(diagnostic => {
+      const position = diagnostic.file!.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+      return {
+        line: position.line + 1,
+        column: position.character + 1,
+        code: diagnostic.code,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      };
+    });
+}
+
+/**
+ * Errors in `after` that the file didn't already have. Errors are matched by
+ * code and message, not position, so moved code doesn't count as new.
+ */
+export function introducedDiagnostics(before: TypeDiagnostic[], after: TypeDiagnostic[]): TypeDiagnostic[] {
+  const existing = new Set(before.map(diagnostic => `${diagnostic.code}:${diagnostic.message}`));
+  return after
+    .filter(diagnostic => !existing.has(`${diagnostic.code}:${diagnostic.message}`))
+    .slice(0, AI_TYPECHECK_CONFIG.maxDiagnostics);
+}
@@ -0,0 +1,178 @@
+import { AI_USAGE_CONFIG } from '@/lib/config';
+import { estimateTokens } from '@/lib/context';
+import type { TokenUsage } from '@/lib/providers';
+
+export interface UsageRecord {
+  command: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  /** Estimated cost in USD */
+  cost: number;
+  /** True when the provider didn't report usage and tokens were estimated locally */
+  estimated: boolean;
+  timestamp: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  byCommand: Record<string, UsageTotals>;
+  byProvider: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  since: number | null;
+}
+
+// In-memory usage history per user (use Redis in production)
+const usageByUser = new Map<string, UsageRecord[]>();
+
+/**
+ * Estimated cost in USD for a call, from `AI_USAGE_CONFIG.pricing`
+ */
+export function estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number {
+  const rate = AI_USAGE_CONFIG.pricing[model] ?? AI_USAGE_CONFIG.providerDefaults[provider];
+  if (!rate) return 0;
+  return (promptTokens * rate.input + completionTokens * rate.output) / 1_000_000;
+}
+
+export interface UsageEntry {
+  command: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  usage?: TokenUsage;
+  promptText: string;
+  outputText: string;
+}
+
+function storeRecord(userId: string, record: UsageRecord): UsageRecord {
+  const records = usageByUser.get(userId) ?? [];
+  records.push(record);
+  if (records.length > AI_USAGE_CONFIG.maxRecordsPerUser) {
+    records.splice(0, records.length - AI_USAGE_CONFIG.maxRecordsPerUser);
+  }
+  usageByUser.set(userId, records);
+
+  return record;
+}
+
+/**
+ * Usage of one AI call without recording it. When the provider didn't report
+ * usage, the prompt and output text are used to estimate token counts.
+ */
+export function measureUsage(entry: UsageEntry): UsageRecord {
+  const promptTokens = entry.usage?.promptTokens ?? estimateTokens(entry.promptText, entry.model);
+  const completionTokens = entry.usage?.completionTokens ?? estimateTokens(entry.outputText, entry.model);
+
+  const record: UsageRecord = {
+    command: entry.command,
+    provider: entry.provider,
+    model: entry.model,
+    promptTokens,
+    completionTokens,
+    totalTokens: entry.usage?.totalTokens ?? promptTokens + completionTokens,
+    latencyMs: entry.latencyMs,
+    cost: estimateCost(entry.provider, entry.model, promptTokens, completionTokens),
+    estimated: !entry.usage,
+    timestamp: Date.now(),
+  };
+  return record;
+}
+
+/**
+ * Record one AI call for a user
+ */
+export function recordUsage(userId: string, entry: UsageEntry): UsageRecord {
+  return storeRecord(userId, measureUsage(entry));
+}
+
+function sumCalls(calls: UsageRecord[]): UsageRecord {
+  const last = calls[calls.length - 1];
+  return {
+    ...last,
+    promptTokens: calls.reduce((sum, call) => sum + call.promptTokens, 0),
+    completionTokens: calls.reduce((sum, call) => sum + call.completionTokens, 0),
+    totalTokens: calls.reduce((sum, call) => sum + call.totalTokens, 0),
+    latencyMs: calls.reduce((sum, call) => sum + call.latencyMs, 0),
+    cost: calls.reduce((sum, call) => sum + call.cost, 0),
+    estimated: calls.some(call => call.estimated),
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Record several calls made for one request (retries, repair rounds) with one
+ * entry per provider and model, so failed-over calls are booked to whoever
+ * served them. Returns the request's summed tokens, cost and latency, under
+ * the provider and model of the last call.
+ */
+export function recordUsageTotal(userId: string, calls: UsageRecord[]): UsageRecord {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const call of calls) {
+    const key = `${call.provider}:${call.model}`;
+    groups.set(key, [...(groups.get(key) ?? []), call]);
+  }
+  for (const group of groups.values()) {
+    storeRecord(userId, sumCalls(group));
+  }
+  return sumCalls(calls);
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, averageLatencyMs: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.averageLatencyMs = (totals.averageLatencyMs * totals.requests + record.latencyMs) / (totals.requests + 1);
+  totals.requests++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.cost += record.cost;
+}
+
+function addToGroup(group: Record<string, UsageTotals>, key: string, record: UsageRecord): void {
+  group[key] ??= emptyTotals();
+  addToTotals(group[key], record);
+}
+
+/**
+ * Usage totals for a user, broken down by command, provider and model
+ */
+export function getUsageSummary(userId: string, since?: number): UsageSummary {
+  const summary: UsageSummary = {
+    totals: emptyTotals(),
+    byCommand: {},
+    byProvider: {},
+    byModel: {},
+    since: since ?? null,
+  };
+
+  for (const record of usageByUser.get(userId) ?? []) {
+    if (since && record.timestamp < since) continue;
+    addToTotals(summary.totals, record);
+    addToGroup(summary.byCommand, record.command, record);
+    addToGroup(summary.byProvider, record.provider, record);
+    addToGroup(summary.byModel, record.model, record);
+  }
+
+  return summary;
+}
+
+/**
+ * Most recent usage records for a user, newest first
+ */
+export function getRecentUsage(userId: string, limit = 20): UsageRecord[] {
+  return (usageByUser.get(userId) ?? []).slice(-limit).reverse();
+}
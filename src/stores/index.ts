@@ -1,3 +1,7 @@
 export { useCommandStore } from './useCommandStore';
 export { useActivityStore } from './useActivityStore';
 export { useAuthStore } from './useAuthStore';
+export { usePreferencesStore } from './usePreferencesStore';
+export { useCustomCommandStore } from './useCustomCommandStore';
+export { useReviewStore } from './useReviewStore';
+export { useAuditStore } from './useAuditStore';
@@ -0,0 +1,16 @@
+import { create } from 'zustand';
+import { SecurityAudit } from '@/types';
+
+interface AuditState {
+  // Last result from /api/copilot/audit, kept for SARIF export
+  audit: SecurityAudit | null;
+
+  // Actions
+  setAudit: (audit: SecurityAudit | null) => void;
+}
+
+export const useAuditStore = create<AuditState>((set) => ({
+  audit: null,
+
+  setAudit: (audit) => set({ audit }),
+}));
@@ -1,12 +1,14 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { User, Repository, WorkspaceSession, Branch } from '@/types';
+import { User, Repository, WorkspaceSession, Branch, CodeSelection } from '@/types';
 import { generateId } from '@/lib/utils';
 
 interface SelectedFile {
   name: string;
   path: string;
   content: string;
+  /** Git blob sha from the contents API */
+  sha?: string;
 }
 
 interface AuthState {
@@ -21,6 +23,8 @@ interface AuthState {
   branches: Branch[];
   selectedBranch: string | null;
   selectedFile: SelectedFile | null;
+  /** Line range of the selected file that commands run on; null for the whole file */
+  selectedRange: CodeSelection | null;
   
   // Session state
   session: WorkspaceSession | null;
@@ -33,6 +37,7 @@ interface AuthState {
   setBranches: (branches: Branch[]) => void;
   selectBranch: (branch: string | null) => void;
   setSelectedFile: (file: SelectedFile | null) => void;
+  setSelectedRange: (range: CodeSelection | null) => void;
   createSession: () => void;
   logout: () => void;
 }
@@ -49,6 +54,7 @@ export const useAuthStore = create<AuthState>()(
       branches: [],
       selectedBranch: null,
       selectedFile: null,
+      selectedRange: null,
       session: null,
 
       setUser: (user) => {
@@ -68,15 +74,19 @@ export const useAuthStore = create<AuthState>()(
           selectedRepository: repo,
           selectedBranch: repo?.defaultBranch || null,
           branches: [],
-          selectedFile: null
+          selectedFile: null,
+          selectedRange: null
         });
       },
 
       setBranches: (branches) => set({ branches }),
 
-      selectBranch: (branch) => set({ selectedBranch: branch, selectedFile: null }),
+      selectBranch: (branch) => set({ selectedBranch: branch, selectedFile: null, selectedRange: null }),
+
+      // A new file (or a new version of it) invalidates the line range
+      setSelectedFile: (file) => set({ selectedFile: file, selectedRange: null }),
 
-      setSelectedFile: (file) => set({ selectedFile: file }),
+      setSelectedRange: (selectedRange) => set({ selectedRange }),
 
       createSession: () => {
         const { user, selectedRepository, selectedBranch } = get();
@@ -105,6 +115,7 @@ export const useAuthStore = create<AuthState>()(
           branches: [],
           selectedBranch: null,
           selectedFile: null,
+          selectedRange: null,
           session: null,
         });
       },
@@ -12,7 +12,8 @@ interface CommandState {
   // Actions
   startExecution: (commandId: string, commandName: string, input: string) => string;
   appendOutput: (executionId: string, content: string, type: OutputLine['type']) => void;
-  completeExecution: (executionId: string, status: 'success' | 'error') => void;
+  completeExecution: (executionId: string, status: 'success' | 'error' | 'cancelled') => void;
+  setExecutionThread: (executionId: string, threadId: string, turn: number) => void;
   addDiffChange: (change: Omit<DiffChange, 'id' | 'timestamp'>) => void;
   applyChange: (diffId: string) => void;
   rejectChange: (diffId: string) => void;
@@ -48,6 +49,7 @@ export const useCommandStore = create<CommandState>((set, get) => ({
         ...state.outputLines,
         {
           id: generateId(),
+          executionId: id,
           content: `$ copilot ${commandName.toLowerCase()} "${input}"`,
           type: 'command',
           timestamp: new Date(),
@@ -61,6 +63,7 @@ export const useCommandStore = create<CommandState>((set, get) => ({
   appendOutput: (executionId, content, type) => {
     const newLine: OutputLine = {
       id: generateId(),
+      executionId,
       content,
       type,
       timestamp: new Date(),
@@ -97,6 +100,14 @@ export const useCommandStore = create<CommandState>((set, get) => ({
     });
   },
 
+  setExecutionThread: (executionId, threadId, turn) => {
+    set((state) => ({
+      executions: state.executions.map((exec) =>
+        exec.id === executionId ? { ...exec, threadId, turn } : exec
+      ),
+    }));
+  },
+
   addDiffChange: (change) => {
     const diffChange: DiffChange = {
       ...change,
@@ -0,0 +1,30 @@
+import { create } from 'zustand';
+import { CustomCommand } from '@/types';
+
+interface CustomCommandState {
+  // The user's saved commands, as last loaded from /api/copilot/commands
+  commands: CustomCommand[];
+
+  // Actions
+  setCommands: (commands: CustomCommand[]) => void;
+  upsertCommand: (command: CustomCommand) => void;
+  removeCommand: (id: string) => void;
+}
+
+export const useCustomCommandStore = create<CustomCommandState>((set) => ({
+  commands: [],
+
+  setCommands: (commands) => set({ commands }),
+
+  upsertCommand: (command) => {
+    set((state) => ({
+      commands: state.commands.some(c => c.id === command.id)
+        ? state.commands.map(c => (c.id === command.id ? command : c))
+        : [...state.commands, command],
+    }));
+  },
+
+  removeCommand: (id) => {
+    set((state) => ({ commands: state.commands.filter(c => c.id !== id) }));
+  },
+}));
@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export interface ModelPreference {
+  provider: string;
+  model: string;
+}
+
+interface PreferencesState {
+  // Provider + model last used for each command, keyed by command id
+  commandModels: Record<string, ModelPreference>;
+  // Generate commit messages in the Conventional Commits format
+  conventionalCommits: boolean;
+
+  // Actions
+  setCommandModel: (commandId: string, provider: string, model: string) => void;
+  setConventionalCommits: (enabled: boolean) => void;
+}
+
+export const usePreferencesStore = create<PreferencesState>()(
+  persist(
+    (set) => ({
+      commandModels: {},
+      conventionalCommits: false,
+
+      setCommandModel: (commandId, provider, model) => {
+        set((state) => ({
+          commandModels: { ...state.commandModels, [commandId]: { provider, model } },
+        }));
+      },
+
+      setConventionalCommits: (enabled) => {
+        set({ conventionalCommits: enabled });
+      },
+    }),
+    {
+      name: 'copilot-studio-preferences',
+    }
+  )
+);
@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { CodeReview } from '@/types';
+
+/**
+ * A file and line the File Explorer should open
+ */
+export interface JumpTarget {
+  path: string;
+  line: number;
+  /** Ref to load the file at; review findings point into the head ref */
+  ref: string;
+  /** Distinguishes repeated jumps to the same line */
+  requestedAt: number;
+}
+
+interface ReviewState {
+  // Last review result from /api/copilot/review
+  review: CodeReview | null;
+  jumpTarget: JumpTarget | null;
+
+  // Actions
+  setReview: (review: CodeReview | null) => void;
+  jumpTo: (path: string, line: number, ref: string) => void;
+  clearJump: () => void;
+}
+
+export const useReviewStore = create<ReviewState>((set) => ({
+  review: null,
+  jumpTarget: null,
+
+  setReview: (review) => set({ review }),
+
+  jumpTo: (path, line, ref) => set({ jumpTarget: { path, line, ref, requestedAt: Date.now() } }),
+
+  // Called once the File Explorer has opened the target, so it isn't reopened on remount
+  clearJump: () => set({ jumpTarget: null }),
+}));
@@ -56,6 +56,34 @@ export interface FileNode {
   children?: FileNode[];
 }
 
+/**
+ * Part of a file a command runs on: a line range, or a symbol from the outline
+ */
+export interface CodeSelection {
+  /** 1-based, inclusive */
+  startLine: number;
+  endLine: number;
+  /** Function or class name when picked from the outline */
+  symbol?: string;
+}
+
+export type StackTraceRuntime = 'node' | 'browser' | 'python' | 'java';
+
+/**
+ * One application frame of a pasted stack trace
+ */
+export interface StackFrame {
+  /** File as printed in the trace, with URL prefixes and query strings removed */
+  file: string;
+  /** 1-based */
+  line: number;
+  column?: number;
+  /** Function, method or class the frame is in */
+  fn?: string;
+  /** Repository path the frame resolved to, when it did */
+  path?: string;
+}
+
 // ============================================
 // Session Types
 // ============================================
@@ -80,11 +108,33 @@ export interface Command {
   name: string;
   description: string;
   icon: string;
-  category: 'generate' | 'explain' | 'fix' | 'test' | 'refactor' | 'docs';
+  category: 'generate' | 'explain' | 'fix' | 'test' | 'refactor' | 'docs' | 'translate' | 'audit' | 'custom';
   prompt?: string;
   requiresFile?: boolean;
 }
 
+export type CommandIcon = 'sparkles' | 'message' | 'wrench' | 'test' | 'code' | 'file';
+
+/**
+ * A command saved by a user. `template` may use the `{code}`, `{prompt}` and
+ * `{error}` placeholders, like the built-in commands.
+ */
+export interface CustomCommand {
+  id: string;
+  name: string;
+  description: string;
+  icon: CommandIcon;
+  systemPrompt: string;
+  template: string;
+  requiresFile: boolean;
+  producesDiff: boolean;
+  temperature?: number;
+  /** Self-repair rounds for changes that fail validation; the default when unset */
+  repairRounds?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface CommandExecution {
   id: string;
   sessionId?: string;
@@ -93,7 +143,10 @@ export interface CommandExecution {
   input: string;
   output: string;
   targetFile?: string;
-  status: 'pending' | 'running' | 'success' | 'error';
+  /** Conversation thread this execution belongs to, and its turn number */
+  threadId?: string;
+  turn?: number;
+  status: 'pending' | 'running' | 'success' | 'error' | 'cancelled';
   startedAt: Date;
   completedAt?: Date;
   duration?: number;
@@ -103,9 +156,28 @@ export interface CommandExecution {
 // Diff & Changes Types
 // ============================================
 
+export type DiffOperation = 'modify' | 'create' | 'delete' | 'rename';
+
+/**
+ * A compiler error a proposed change introduces
+ */
+export interface TypeDiagnostic {
+  /** 1-based, in the proposed version of the file */
+  line: number;
+  column: number;
+  /** TypeScript error code, e.g. 2322 */
+  code: number;
+  message: string;
+}
+
 export interface DiffChange {
   id: string;
   filename: string;
+  /** Repository path the change targets; falls back to the selected file */
+  path?: string;
+  operation?: DiffOperation;
+  /** Destination path for renames */
+  newPath?: string;
   language: string;
   before: string;
   after: string;
@@ -114,6 +186,114 @@ export interface DiffChange {
   timestamp: Date;
   applied: boolean;
   executionId?: string;
+  /** New type errors in the proposed file; unset when it wasn't type-checked */
+  diagnostics?: TypeDiagnostic[];
+}
+
+/**
+ * One self-repair round: the validation problems sent back to the model and
+ * whether its corrected change set passed
+ */
+export interface RepairRound {
+  /** 1-based */
+  round: number;
+  /** Short description, e.g. `2 type errors in src/lib/db.ts` */
+  problems: string;
+  /** Problems left after the round, empty when it passed */
+  remaining: string;
+  /** The corrected change set replaced the previous one */
+  kept: boolean;
+}
+
+// ============================================
+// Code Review Types
+// ============================================
+
+export type ReviewSeverity = 'critical' | 'warning' | 'suggestion';
+
+export interface ReviewFinding {
+  id: string;
+  /** Path of the changed file, as in the head ref */
+  file: string;
+  /** Line in the head version of the file */
+  line: number;
+  severity: ReviewSeverity;
+  message: string;
+  /** Replacement code the reviewer proposes, if any */
+  suggestion?: string;
+}
+
+export interface CodeReview {
+  /** `owner/repo` the review was run on */
+  repository: string;
+  base: string;
+  head: string;
+  /** Commit sha the findings' line numbers refer to */
+  headSha: string;
+  pullNumber?: number;
+  title?: string;
+  summary: string;
+  findings: ReviewFinding[];
+  /** Changed files sent for review */
+  files: string[];
+  /** Changed files left out (binary, too large, over budget) */
+  skippedFiles: string[];
+}
+
+// ============================================
+// Agent Types
+// ============================================
+
+export type AgentToolName = 'list_directory' | 'read_file' | 'search_code' | 'propose_edit' | 'finish';
+
+/**
+ * One step of an agent run: what the model was thinking and the tool it called
+ */
+export interface AgentStep {
+  /** 1-based */
+  index: number;
+  reasoning: string;
+  tool: AgentToolName | null;
+  /** Short form of the call, e.g. `read_file src/lib/db.ts:1-80` */
+  call: string;
+  /** Short description of the result, e.g. `120 lines` */
+  result: string;
+  /** The call failed or was malformed; `result` says why */
+  failed: boolean;
+}
+
+// ============================================
+// Security Audit Types
+// ============================================
+
+export type AuditSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface AuditFinding {
+  id: string;
+  /** Weakness id, e.g. `CWE-89` */
+  cwe: string;
+  title: string;
+  file: string;
+  /** 1-based, inclusive line range in the audited version of the file */
+  startLine: number;
+  endLine: number;
+  severity: AuditSeverity;
+  message: string;
+  /** A proposed patch applied cleanly and was returned as a change */
+  patched: boolean;
+}
+
+export interface SecurityAudit {
+  /** `owner/repo` the audit was run on */
+  repository: string;
+  ref: string;
+  scope: 'file' | 'repository';
+  summary: string;
+  findings: AuditFinding[];
+  /** Files sent to the model */
+  files: string[];
+  /** Eligible files left out (too large, over budget, over the file cap) */
+  skippedFiles: string[];
 }
 
 export interface PendingChange {
@@ -159,6 +339,7 @@ export interface Project {
 
 export interface OutputLine {
   id: string;
+  executionId?: string;
   content: string;
   type: 'info' | 'success' | 'error' | 'warning' | 'command' | 'ai';
   timestamp: Date;
@@ -176,7 +357,7 @@ export interface ApiResponse<T = unknown> {
 }
 
 export interface StreamEvent {
-  type: 'start' | 'data' | 'error' | 'end';
+  type: 'start' | 'data' | 'warning' | 'error' | 'end';
   content?: string;
   metadata?: Record<string, unknown>;
 }